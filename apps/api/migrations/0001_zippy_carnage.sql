@@ -0,0 +1,8 @@
+CREATE TABLE `ingest_failures` (
+	`object_key` text PRIMARY KEY NOT NULL,
+	`error` text NOT NULL,
+	`kind` text NOT NULL,
+	`attempts` integer NOT NULL,
+	`first_failed_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`last_failed_at` integer DEFAULT (unixepoch()) NOT NULL
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `ingest_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`listed` integer DEFAULT 0 NOT NULL,
+	`processed` integer DEFAULT 0 NOT NULL,
+	`inserted` integer DEFAULT 0 NOT NULL,
+	`updated` integer DEFAULT 0 NOT NULL,
+	`unchanged` integer DEFAULT 0 NOT NULL,
+	`failed` integer DEFAULT 0 NOT NULL,
+	`listing_complete` integer DEFAULT false NOT NULL,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`completed_at` integer
+);
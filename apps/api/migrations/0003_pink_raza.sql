@@ -0,0 +1,3 @@
+ALTER TABLE `chatter` ADD `status` text DEFAULT 'published' NOT NULL;--> statement-breakpoint
+ALTER TABLE `chatter` ADD `publish_at` integer;--> statement-breakpoint
+UPDATE `chatter` SET `status` = 'draft' WHERE `publish` = 0;
\ No newline at end of file
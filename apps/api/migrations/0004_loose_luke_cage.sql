@@ -0,0 +1,7 @@
+CREATE TABLE `environment_cache` (
+	`key` text PRIMARY KEY NOT NULL,
+	`product` text NOT NULL,
+	`snapshot` text NOT NULL,
+	`expires_at` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
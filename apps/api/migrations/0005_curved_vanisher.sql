@@ -0,0 +1,14 @@
+CREATE TABLE `environment_backfill_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`content_type` text NOT NULL,
+	`per_minute` integer NOT NULL,
+	`cursor_date` integer,
+	`cursor_slug` text,
+	`processed` integer DEFAULT 0 NOT NULL,
+	`enriched` integer DEFAULT 0 NOT NULL,
+	`skipped` integer DEFAULT 0 NOT NULL,
+	`failed` integer DEFAULT 0 NOT NULL,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`completed_at` integer
+);
@@ -0,0 +1,7 @@
+CREATE TABLE `environment_circuits` (
+	`key` text PRIMARY KEY NOT NULL,
+	`failures` integer DEFAULT 0 NOT NULL,
+	`open_until` integer,
+	`last_error` text,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
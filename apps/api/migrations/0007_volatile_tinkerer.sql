@@ -0,0 +1,10 @@
+CREATE TABLE `chatter_enrichments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`version_id` text,
+	`error` text,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`requested_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`completed_at` integer
+);
@@ -0,0 +1,6 @@
+CREATE TABLE `chatter_photographs` (
+	`chatter_id` text NOT NULL,
+	`photograph_id` text NOT NULL,
+	PRIMARY KEY(`chatter_id`, `photograph_id`),
+	FOREIGN KEY (`chatter_id`) REFERENCES `chatter`(`id`) ON UPDATE no action ON DELETE cascade
+);
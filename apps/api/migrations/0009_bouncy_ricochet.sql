@@ -0,0 +1,6 @@
+CREATE TABLE `superseded_records` (
+	`id` text PRIMARY KEY NOT NULL,
+	`object_key` text NOT NULL,
+	`superseded_by` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
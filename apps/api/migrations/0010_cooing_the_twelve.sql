@@ -0,0 +1 @@
+ALTER TABLE `ingest_runs` ADD `error` text;
\ No newline at end of file
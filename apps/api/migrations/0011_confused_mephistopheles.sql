@@ -0,0 +1 @@
+ALTER TABLE `environment_backfill_runs` ADD `error` text;
\ No newline at end of file
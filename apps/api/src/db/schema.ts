@@ -15,6 +15,9 @@ export const chatter = sqliteTable("chatter", {
   month: text("month").notNull(), // YYYY-MM format
   slug: text("slug").notNull().unique(),
   publish: integer("publish", { mode: "boolean" }).notNull().default(true),
+  // draft, scheduled (goes live at publishAt) or published; publish mirrors status === "published"
+  status: text("status", { enum: ["draft", "scheduled", "published"] }).notNull().default("published"),
+  publishAt: integer("publish_at", { mode: "timestamp" }),
   r2Key: text("r2_key").notNull(),
   createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
   updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`).$onUpdate(() => sql`(unixepoch())`),
@@ -221,6 +224,120 @@ export const bookmarksTags = sqliteTable("bookmarks_tags", {
   pk: primaryKey({ columns: [table.bookmarkId, table.tagId] }),
 }));
 
+// Photographs attached to chatters (images given as artifact keys, see ImageReference)
+// No foreign key to photographs: chatters may be re-ingested before the photographs they show
+export const chatterPhotographs = sqliteTable("chatter_photographs", {
+  chatterId: text("chatter_id").notNull().references(() => chatter.id, { onDelete: "cascade" }),
+  photographId: text("photograph_id").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.chatterId, table.photographId] }),
+}));
+
+// ============================================================================
+// Ingestion Bookkeeping
+// ============================================================================
+
+// Objects that could not be ingested, one row per R2 key
+// kind: "permanent" (validation failed) or "transient" (storage errors outlasted the retries)
+// Rows are removed when a later ingest of the same key succeeds
+export const ingestFailures = sqliteTable("ingest_failures", {
+  objectKey: text("object_key").primaryKey(),
+  error: text("error").notNull(),
+  kind: text("kind", { enum: ["permanent", "transient"] }).notNull(),
+  attempts: integer("attempts").notNull(),
+  firstFailedAt: integer("first_failed_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  lastFailedAt: integer("last_failed_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+// One row per POST /ingest/all run; the run id travels in every queue message of the run
+// A run is complete once listing has finished and every listed file has been processed
+// error is set when listing a page failed after the queue's last attempt (the run has failed)
+export const ingestRuns = sqliteTable("ingest_runs", {
+  id: text("id").primaryKey(),
+  listed: integer("listed").notNull().default(0),
+  processed: integer("processed").notNull().default(0),
+  inserted: integer("inserted").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  unchanged: integer("unchanged").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  listingComplete: integer("listing_complete", { mode: "boolean" }).notNull().default(false),
+  error: text("error"),
+  startedAt: integer("started_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
+// ============================================================================
+// Environment Enrichment
+// ============================================================================
+
+// Provider snapshots shared by posts from the same place and time bucket
+// key: "<product>:<lat cell>,<lng cell>:<time bucket>"; snapshot is the ApiSnapshot as JSON
+// expires_at is null for products that never change (elevation)
+export const environmentCache = sqliteTable("environment_cache", {
+  key: text("key").primaryKey(),
+  product: text("product").notNull(),
+  snapshot: text("snapshot").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+// Circuit breaker state per enrichment provider
+// key: "<product>:<provider>"; failures counts consecutive failed calls, and once it reaches the
+// threshold the provider is skipped until open_until. A success deletes the row.
+export const environmentCircuits = sqliteTable("environment_circuits", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  openUntil: integer("open_until", { mode: "timestamp" }),
+  lastError: text("last_error"),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+// One row per environment backfill run over a content type's hot rows
+// The cursor is the (date, slug) of the last row handled, so a run resumes where it stopped;
+// slugs survive the row being moved to the enriched copy's new id
+// per_minute caps how many rows the queue consumer enriches per minute
+// error is set when a page still failed on the queue's last attempt (the run has failed)
+export const environmentBackfillRuns = sqliteTable("environment_backfill_runs", {
+  id: text("id").primaryKey(),
+  contentType: text("content_type", { enum: ["checkins", "chatter"] }).notNull(),
+  perMinute: integer("per_minute").notNull(),
+  cursorDate: integer("cursor_date", { mode: "timestamp" }),
+  cursorSlug: text("cursor_slug"),
+  processed: integer("processed").notNull().default(0),
+  enriched: integer("enriched").notNull().default(0),
+  skipped: integer("skipped").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  error: text("error"),
+  startedAt: integer("started_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
+// Records of multi-record (JSONL) objects that were replaced by a new version
+// The object stays live for its other records, so it cannot be marked superseded-by in R2;
+// re-ingesting it skips the ids listed here instead of bringing the old record back
+export const supersededRecords = sqliteTable("superseded_records", {
+  id: text("id").primaryKey(),
+  objectKey: text("object_key").notNull(),
+  supersededBy: text("superseded_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+// One row per chatter posted with ?enrich=async
+// id is the chatter as first stored, without an environment; version_id is the version that
+// carries the environment once enrichment has completed (the same id when there was nothing to enrich)
+export const chatterEnrichments = sqliteTable("chatter_enrichments", {
+  id: text("id").primaryKey(),
+  status: text("status", { enum: ["pending", "completed", "failed"] }).notNull().default("pending"),
+  versionId: text("version_id"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  requestedAt: integer("requested_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
 // ============================================================================
 // TypeScript Type Exports
 // ============================================================================
@@ -288,3 +405,29 @@ export type NewMemeTag = typeof memesTags.$inferInsert;
 
 export type BookmarkTag = typeof bookmarksTags.$inferSelect;
 export type NewBookmarkTag = typeof bookmarksTags.$inferInsert;
+
+export type ChatterPhotograph = typeof chatterPhotographs.$inferSelect;
+export type NewChatterPhotograph = typeof chatterPhotographs.$inferInsert;
+
+// Ingestion
+export type IngestFailure = typeof ingestFailures.$inferSelect;
+export type NewIngestFailure = typeof ingestFailures.$inferInsert;
+
+export type IngestRun = typeof ingestRuns.$inferSelect;
+export type NewIngestRun = typeof ingestRuns.$inferInsert;
+
+// Environment enrichment
+export type EnvironmentCacheEntry = typeof environmentCache.$inferSelect;
+export type NewEnvironmentCacheEntry = typeof environmentCache.$inferInsert;
+
+export type EnvironmentCircuit = typeof environmentCircuits.$inferSelect;
+export type NewEnvironmentCircuit = typeof environmentCircuits.$inferInsert;
+
+export type EnvironmentBackfillRun = typeof environmentBackfillRuns.$inferSelect;
+export type NewEnvironmentBackfillRun = typeof environmentBackfillRuns.$inferInsert;
+
+export type SupersededRecord = typeof supersededRecords.$inferSelect;
+export type NewSupersededRecord = typeof supersededRecords.$inferInsert;
+
+export type ChatterEnrichment = typeof chatterEnrichments.$inferSelect;
+export type NewChatterEnrichment = typeof chatterEnrichments.$inferInsert;
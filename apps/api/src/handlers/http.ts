@@ -1,6 +1,21 @@
 import type { Env } from '../types/env';
 import { uploadImage, ImageUploadError } from '../services/image-upload';
+import { isArtifactPublished, serveArtifact } from '../services/media';
+import { isArtifactKey } from '../services/artifacts';
+import { typeAliases } from '../services/type-resolver';
 import { connectD1, schema } from '../db/client';
+import { listIngestFailures, replayIngestFailures } from '../services/ingest-failures';
+import { createIngestRun, getIngestRun } from '../services/ingest-runs';
+import { dryRunListingPage, parseIngestFilters, queueListingPage } from '../services/bulk-ingest';
+import {
+	BACKFILL_CONTENT_TYPES,
+	createBackfillRun,
+	DEFAULT_BACKFILL_PER_MINUTE,
+	getBackfillRun,
+	MAX_BACKFILL_PER_MINUTE,
+	queueBackfillPage,
+	type BackfillContentType,
+} from '../services/environment-backfill';
 import { sql } from 'drizzle-orm';
 
 /**
@@ -18,6 +33,20 @@ async function validateAuth(request: Request, env: Env): Promise<boolean> {
 	return token === authToken;
 }
 
+/**
+ * Decodes a path segment, or returns null when its percent-encoding is malformed
+ */
+function decodePathSegment(segment: string): string | null {
+	try {
+		return decodeURIComponent(segment);
+	} catch (error) {
+		if (error instanceof URIError) {
+			return null;
+		}
+		throw error;
+	}
+}
+
 /**
  * Handles HTTP requests to the worker
  */
@@ -46,9 +75,9 @@ export async function handleHttp(request: Request, env: Env): Promise<Response>
 		// This route should be protected by Cloudflare Access
 		// If the request reaches here, the user is authenticated via Zero Trust
 		try {
+			// Google lookups go through /api/places, so only the auth token is handed out
 			const authToken = await env.AUTH_TOKEN.get();
-			const googlePlacesApiKey = await env.GOOGLE_PLACES_API.get();
-			return new Response(JSON.stringify({ authToken, googlePlacesApiKey }), {
+			return new Response(JSON.stringify({ authToken }), {
 				status: 200,
 				headers: {
 					'content-type': 'application/json; charset=utf-8',
@@ -168,6 +197,36 @@ export async function handleHttp(request: Request, env: Env): Promise<Response>
 		}
 	}
 
+	if (url.pathname.startsWith('/media/') && (request.method === 'GET' || request.method === 'HEAD')) {
+		// Artifact keys are plain hex and an extension, so the path segment is used as it is
+		const key = url.pathname.substring('/media/'.length);
+		if (!isArtifactKey(key)) {
+			return new Response(JSON.stringify({ error: 'Not found' }), {
+				status: 404,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		}
+
+		try {
+			// Artifacts linked to unpublished content are only served to authenticated callers
+			const published = await isArtifactPublished(env.DB, key);
+			if (!published && !(await validateAuth(request, env))) {
+				return new Response(JSON.stringify({ error: 'Not found' }), {
+					status: 404,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+
+			return await serveArtifact(request, env, key, { published });
+		} catch (error) {
+			console.error('Media error:', error);
+			return new Response(JSON.stringify({ error: 'Internal server error' }), {
+				status: 500,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		}
+	}
+
 	// Note: /upload endpoint has been replaced by /posts (handled by chanfana router)
 
 	if (url.pathname === '/ingest/all' && request.method === 'POST') {
@@ -179,46 +238,43 @@ export async function handleHttp(request: Request, env: Env): Promise<Response>
 			});
 		}
 
-		try {
-			// Get cursor from query params for pagination
-			const cursor = url.searchParams.get('cursor') || undefined;
-
-			// List one page of objects (1000 max)
-			const r2ListLimit = 1000;
-			const queueBatchLimit = 100; // Queue sendBatch limit
-
-			const listed = await env.SR_JSON.list({
-				cursor,
-				limit: r2ListLimit,
+		// Optional prefix, type and modifiedSince narrow the objects picked up
+		const parsedFilters = parseIngestFilters(url.searchParams, typeAliases(env));
+		if (!parsedFilters.ok) {
+			return new Response(JSON.stringify({ error: parsedFilters.error }), {
+				status: 400,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
 			});
+		}
+		const { filters } = parsedFilters;
 
-			// Split into chunks of 100 (queue batch limit)
-			const allMessages = listed.objects.map((obj) => ({
-				body: { objectKey: obj.key },
-			}));
-
-			// Send in batches of 100
-			let queued = 0;
-			for (let i = 0; i < allMessages.length; i += queueBatchLimit) {
-				const batch = allMessages.slice(i, i + queueBatchLimit);
-				await env.JSON_QUEUE.sendBatch(batch);
-				queued += batch.length;
-			}
+		try {
+			// Optional cursor and runId resume a listing by hand; a fresh call starts a new run
+			const cursor = url.searchParams.get('cursor') || undefined;
 
-			// If more pages exist, send pagination message to trigger next page
-			if (listed.truncated && listed.cursor) {
-				await env.JSON_QUEUE.send({
-					type: 'pagination',
-					cursor: listed.cursor,
+			// Dry runs validate one page in the request and write nothing; the client pages on with the cursor
+			const dryRun = url.searchParams.get('dryRun');
+			if (dryRun === 'true' || dryRun === '1') {
+				const page = await dryRunListingPage(env, { cursor, filters });
+				return new Response(JSON.stringify({ success: true, dryRun: true, filters, ...page }), {
+					status: 200,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
 				});
 			}
 
+			const runId = url.searchParams.get('runId') || (await createIngestRun(env.DB));
+
+			// List one page of objects and queue them; later pages are listed by the queue consumer
+			const { queued, hasMore } = await queueListingPage(env, { cursor, runId, filters });
+
 			return new Response(
 				JSON.stringify({
 					success: true,
+					runId,
+					filters,
 					queued,
-					hasMore: listed.truncated,
-					message: listed.truncated
+					hasMore,
+					message: hasMore
 						? `Queued ${queued} files. Pagination will continue automatically.`
 						: `Queued ${queued} files. Ingestion complete.`,
 				}),
@@ -242,6 +298,261 @@ export async function handleHttp(request: Request, env: Env): Promise<Response>
 		}
 	}
 
+	if (url.pathname.startsWith('/ingest/runs/') && request.method === 'GET') {
+		// Validate authentication
+		if (!(await validateAuth(request, env))) {
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		}
+
+		const runId = decodePathSegment(url.pathname.substring('/ingest/runs/'.length));
+
+		try {
+			const run = runId ? await getIngestRun(env.DB, runId) : null;
+			if (!run) {
+				return new Response(JSON.stringify({ error: 'Ingest run not found' }), {
+					status: 404,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+
+			return new Response(JSON.stringify(run), {
+				status: 200,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		} catch (error) {
+			console.error('Ingest run fetch error:', error);
+			return new Response(
+				JSON.stringify({
+					error: 'Failed to fetch ingest run',
+					details: error instanceof Error ? error.message : String(error),
+				}),
+				{
+					status: 500,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				}
+			);
+		}
+	}
+
+	// Failure routes must be matched before the /ingest/{objectKey} catch-all below
+	if (url.pathname === '/ingest/failures' && request.method === 'GET') {
+		// Validate authentication
+		if (!(await validateAuth(request, env))) {
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		}
+
+		try {
+			const limitParam = url.searchParams.get('limit');
+			const limit = limitParam ? Number.parseInt(limitParam, 10) : undefined;
+			if (limit !== undefined && Number.isNaN(limit)) {
+				return new Response(JSON.stringify({ error: 'limit must be an integer' }), {
+					status: 400,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+
+			const failures = await listIngestFailures(env.DB, limit);
+
+			return new Response(JSON.stringify({ failures, count: failures.length }), {
+				status: 200,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		} catch (error) {
+			console.error('Ingest failure listing error:', error);
+			return new Response(
+				JSON.stringify({
+					error: 'Failed to list ingest failures',
+					details: error instanceof Error ? error.message : String(error),
+				}),
+				{
+					status: 500,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				}
+			);
+		}
+	}
+
+	if (url.pathname === '/ingest/failures/retry' && request.method === 'POST') {
+		// Validate authentication
+		if (!(await validateAuth(request, env))) {
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		}
+
+		// Optional body: {objectKeys: [...]} to replay a subset; replays everything otherwise
+		let objectKeys: string[] | undefined;
+		const body = await request.text();
+		if (body.trim() !== '') {
+			let parsed: unknown;
+			try {
+				parsed = JSON.parse(body);
+			} catch {
+				return new Response(JSON.stringify({ error: 'Invalid JSON in request body' }), {
+					status: 400,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+
+			const keys = (parsed as { objectKeys?: unknown })?.objectKeys;
+			if (keys !== undefined && (!Array.isArray(keys) || !keys.every((key) => typeof key === 'string'))) {
+				return new Response(JSON.stringify({ error: 'objectKeys must be an array of strings' }), {
+					status: 400,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+			objectKeys = keys;
+		}
+
+		try {
+			const queued = await replayIngestFailures(env, objectKeys);
+
+			return new Response(
+				JSON.stringify({
+					success: true,
+					queued: queued.length,
+					objectKeys: queued,
+					message: `Queued ${queued.length} failed files for ingestion`,
+				}),
+				{
+					status: 200,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				}
+			);
+		} catch (error) {
+			console.error('Ingest failure replay error:', error);
+			return new Response(
+				JSON.stringify({
+					error: 'Failed to replay ingest failures',
+					details: error instanceof Error ? error.message : String(error),
+				}),
+				{
+					status: 500,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				}
+			);
+		}
+	}
+
+	if (url.pathname === '/backfill/environment' && request.method === 'POST') {
+		// Validate authentication
+		if (!(await validateAuth(request, env))) {
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		}
+
+		try {
+			// runId resumes a run whose page chain stopped; otherwise type starts a new run
+			const resumeId = url.searchParams.get('runId');
+			if (resumeId) {
+				const run = await getBackfillRun(env.DB, resumeId);
+				if (!run) {
+					return new Response(JSON.stringify({ error: 'Backfill run not found' }), {
+						status: 404,
+						headers: { 'content-type': 'application/json; charset=utf-8' },
+					});
+				}
+				if (run.status === 'completed') {
+					return new Response(JSON.stringify({ error: 'Backfill run already completed', run }), {
+						status: 409,
+						headers: { 'content-type': 'application/json; charset=utf-8' },
+					});
+				}
+
+				await queueBackfillPage(env, run.id);
+				return new Response(JSON.stringify({ success: true, resumed: true, run }), {
+					status: 202,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+
+			const type = url.searchParams.get('type');
+			if (!type || !(BACKFILL_CONTENT_TYPES as readonly string[]).includes(type)) {
+				return new Response(JSON.stringify({ error: `type must be one of: ${BACKFILL_CONTENT_TYPES.join(', ')}` }), {
+					status: 400,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+
+			const perMinuteParam = url.searchParams.get('perMinute');
+			const perMinute = perMinuteParam ? Number(perMinuteParam) : DEFAULT_BACKFILL_PER_MINUTE;
+			if (!Number.isInteger(perMinute) || perMinute < 1 || perMinute > MAX_BACKFILL_PER_MINUTE) {
+				return new Response(JSON.stringify({ error: `perMinute must be an integer from 1 to ${MAX_BACKFILL_PER_MINUTE}` }), {
+					status: 400,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+
+			const runId = await createBackfillRun(env.DB, type as BackfillContentType, perMinute);
+			await queueBackfillPage(env, runId);
+
+			return new Response(JSON.stringify({ success: true, runId, type, perMinute }), {
+				status: 202,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		} catch (error) {
+			console.error('Environment backfill error:', error);
+			return new Response(
+				JSON.stringify({
+					error: 'Failed to start environment backfill',
+					details: error instanceof Error ? error.message : String(error),
+				}),
+				{
+					status: 500,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				}
+			);
+		}
+	}
+
+	if (url.pathname.startsWith('/backfill/environment/') && request.method === 'GET') {
+		// Validate authentication
+		if (!(await validateAuth(request, env))) {
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		}
+
+		const runId = decodePathSegment(url.pathname.substring('/backfill/environment/'.length));
+
+		try {
+			const run = runId ? await getBackfillRun(env.DB, runId) : null;
+			if (!run) {
+				return new Response(JSON.stringify({ error: 'Backfill run not found' }), {
+					status: 404,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				});
+			}
+
+			return new Response(JSON.stringify(run), {
+				status: 200,
+				headers: { 'content-type': 'application/json; charset=utf-8' },
+			});
+		} catch (error) {
+			console.error('Backfill run fetch error:', error);
+			return new Response(
+				JSON.stringify({
+					error: 'Failed to fetch backfill run',
+					details: error instanceof Error ? error.message : String(error),
+				}),
+				{
+					status: 500,
+					headers: { 'content-type': 'application/json; charset=utf-8' },
+				}
+			);
+		}
+	}
+
 	if (url.pathname.startsWith('/ingest/') && request.method === 'POST') {
 		// Validate authentication
 		if (!(await validateAuth(request, env))) {
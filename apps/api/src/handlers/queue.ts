@@ -1,5 +1,31 @@
 import type { Env } from '../types/env';
 import { processJsonFromR2 } from '../services/json-processor';
+import { typeAliases } from '../services/type-resolver';
+import { clearIngestFailure, recordIngestFailure } from '../services/ingest-failures';
+import { failIngestRun, fileOutcome, recordFileOutcome } from '../services/ingest-runs';
+import { queueListingPage, type IngestFilters } from '../services/bulk-ingest';
+import { failBackfillRun, processBackfillPage, type BackfillMessageBody } from '../services/environment-backfill';
+import { failChatterEnrichment, processChatterEnrichment, type ChatterEnrichmentMessageBody } from '../services/chatter-enrichment';
+
+/**
+ * Attempts allowed for transient failures before the object is recorded in ingest_failures
+ * Matches max_retries on the queue consumer in wrangler.jsonc (first delivery + retries)
+ */
+export const MAX_INGEST_ATTEMPTS = 6;
+
+/**
+ * Retry backoff: 30s, 60s, 120s, ... capped at 15 minutes
+ */
+const RETRY_BASE_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 900;
+
+/**
+ * Delay before the next delivery of a message that failed transiently
+ * @param attempts - Deliveries so far (1 on the first delivery)
+ */
+export function retryDelaySeconds(attempts: number): number {
+	return Math.min(RETRY_BASE_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+}
 
 /**
  * Message body structure expected from the queue
@@ -7,11 +33,23 @@ import { processJsonFromR2 } from '../services/json-processor';
 export type QueueMessageBody =
 	| {
 			objectKey: string;
+			/** Ingest run the file belongs to (absent for single-file ingests and replays) */
+			runId?: string;
 	  }
-	| {
-			type: 'pagination';
-			cursor: string;
-	  };
+	| PaginationMessageBody
+	| BackfillMessageBody
+	| ChatterEnrichmentMessageBody;
+
+/**
+ * Pagination message: list the page of SR_JSON after `cursor`
+ */
+interface PaginationMessageBody {
+	type: 'pagination';
+	cursor: string;
+	runId?: string;
+	/** Filters from the original /ingest/all call */
+	filters?: IngestFilters;
+}
 
 /**
  * Handles queue message batches
@@ -33,23 +71,19 @@ export async function handleQueue(batch: MessageBatch<unknown>, env: Env): Promi
 			// Check if this is a pagination message
 			if ('type' in body && body.type === 'pagination') {
 				console.log(`Processing pagination message ${message.id} with cursor`);
+				await continueListing(message, body, env);
+				continue;
+			}
 
-				// Get auth token to call our own endpoint
-				const authToken = await env.AUTH_TOKEN.get();
-
-				// Trigger next page of ingestion
-				const response = await fetch(`https://api.missionfocus.workers.dev/ingest/all?cursor=${body.cursor}`, {
-					method: 'POST',
-					headers: {
-						Authorization: `Bearer ${authToken}`,
-					},
-				});
-
-				if (!response.ok) {
-					console.error(`Pagination request failed: ${response.status} ${await response.text()}`);
-				} else {
-					console.log(`Pagination request successful`);
-				}
+			if ('type' in body && body.type === 'environment-backfill') {
+				console.log(`Processing environment backfill message ${message.id} for run ${body.runId}`);
+				await continueBackfill(message, body, env);
+				continue;
+			}
+
+			if ('type' in body && body.type === 'chatter-enrichment') {
+				console.log(`Processing chatter enrichment message ${message.id} for ${body.id}`);
+				await enrichChatter(message, body, env);
 				continue;
 			}
 
@@ -60,18 +94,168 @@ export async function handleQueue(batch: MessageBatch<unknown>, env: Env): Promi
 			}
 
 			const { objectKey } = body;
+			const runId = typeof body.runId === 'string' ? body.runId : undefined;
 			console.log(`Processing message ${message.id} for object: ${objectKey}`);
 
-			// Process the JSON file from R2 and record to database
-			const result = await processJsonFromR2(objectKey, env.SR_JSON, env.DB);
-
-			console.log(`Successfully processed ${objectKey}:`, result);
+			await ingestObject(message, objectKey, runId, env);
 		} catch (error) {
 			console.error(`Error processing message ${message.id}:`, error);
-			// In production, you might want to track failed messages
-			// For now, we continue processing other messages in the batch
+			// File messages settle themselves in ingestObject; anything else is logged
+			// and we continue processing other messages in the batch
 		}
 	}
 
 	console.log(`Finished processing batch of ${batch.messages.length} messages`);
 }
+
+/**
+ * List and queue the next page of a bulk ingestion run
+ * Listing errors are retried with the same backoff as file ingestion; once attempts run out
+ * the run is recorded as failed, with the cursor to resume it from.
+ */
+async function continueListing(message: Message<unknown>, body: PaginationMessageBody, env: Env): Promise<void> {
+	const runId = typeof body.runId === 'string' ? body.runId : undefined;
+
+	try {
+		const { queued, hasMore } = await queueListingPage(env, {
+			cursor: body.cursor,
+			runId,
+			filters: body.filters && typeof body.filters === 'object' ? body.filters : undefined,
+		});
+		console.log(`Queued ${queued} files from next page${hasMore ? '; more pages follow' : '; listing complete'}`);
+		message.ack();
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+
+		if (message.attempts < MAX_INGEST_ATTEMPTS) {
+			const delaySeconds = retryDelaySeconds(message.attempts);
+			console.warn(`Retrying pagination in ${delaySeconds}s (attempt ${message.attempts}): ${reason}`);
+			message.retry({ delaySeconds });
+			return;
+		}
+
+		console.error(`Giving up on pagination at cursor ${body.cursor} after ${message.attempts} attempts: ${reason}`);
+		try {
+			if (runId) {
+				await failIngestRun(env.DB, runId, `Listing failed at cursor ${body.cursor}: ${reason}`);
+			}
+			message.ack();
+		} catch (recordError) {
+			console.error(`Could not record failed listing of run ${runId}:`, recordError);
+			message.retry({ delaySeconds: MAX_RETRY_DELAY_SECONDS });
+		}
+	}
+}
+
+/**
+ * Enrich the next page of an environment backfill run
+ * Rows that fail are counted by the run; errors reading or updating the run itself are
+ * retried, and the saved cursor keeps a retried page from enriching rows twice. Once
+ * attempts run out the run is recorded as failed, to be resumed by hand.
+ */
+async function continueBackfill(message: Message<unknown>, body: BackfillMessageBody, env: Env): Promise<void> {
+	try {
+		const { processed, hasMore } = await processBackfillPage(env, body.runId);
+		console.log(`Backfilled ${processed} rows${hasMore ? '; next page queued' : '; run complete'}`);
+		message.ack();
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+
+		if (message.attempts < MAX_INGEST_ATTEMPTS) {
+			const delaySeconds = retryDelaySeconds(message.attempts);
+			console.warn(`Retrying backfill run ${body.runId} in ${delaySeconds}s (attempt ${message.attempts}): ${reason}`);
+			message.retry({ delaySeconds });
+			return;
+		}
+
+		console.error(`Giving up on backfill run ${body.runId} after ${message.attempts} attempts: ${reason}`);
+		try {
+			await failBackfillRun(env.DB, body.runId, reason);
+			message.ack();
+		} catch (recordError) {
+			console.error(`Could not record failed backfill run ${body.runId}:`, recordError);
+			message.retry({ delaySeconds: MAX_RETRY_DELAY_SECONDS });
+		}
+	}
+}
+
+/**
+ * Enrich a chatter posted with ?enrich=async and settle its message
+ * Failures are retried with the same backoff as file ingestion; once attempts run out the
+ * enrichment is recorded as failed and the chatter stays as stored.
+ */
+async function enrichChatter(message: Message<unknown>, body: ChatterEnrichmentMessageBody, env: Env): Promise<void> {
+	try {
+		const enrichment = await processChatterEnrichment(env, body.id);
+		console.log(`Enrichment of ${body.id}: ${enrichment ? enrichment.status : 'not found'}`);
+		message.ack();
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+
+		if (message.attempts < MAX_INGEST_ATTEMPTS) {
+			const delaySeconds = retryDelaySeconds(message.attempts);
+			console.warn(`Retrying enrichment of ${body.id} in ${delaySeconds}s (attempt ${message.attempts}): ${reason}`);
+			message.retry({ delaySeconds });
+			return;
+		}
+
+		console.error(`Giving up on enrichment of ${body.id} after ${message.attempts} attempts: ${reason}`);
+		try {
+			await failChatterEnrichment(env, body.id, reason);
+			message.ack();
+		} catch (recordError) {
+			console.error(`Could not record failed enrichment of ${body.id}:`, recordError);
+			message.retry({ delaySeconds: MAX_RETRY_DELAY_SECONDS });
+		}
+	}
+}
+
+/**
+ * Ingest one object and settle its message
+ * - Success: ack, and clear any failure recorded by an earlier attempt
+ * - Validation failure (permanent): record in ingest_failures and ack
+ * - Storage failure (transient): retry with backoff; record and ack once attempts run out
+ * Files that belong to an ingest run are counted once they are settled, not on each retry.
+ */
+async function ingestObject(message: Message<unknown>, objectKey: string, runId: string | undefined, env: Env): Promise<void> {
+	try {
+		// Process the JSON file from R2 and record to database
+		const result = await processJsonFromR2(objectKey, env.SR_JSON, env.DB, { typeAliases: typeAliases(env) });
+
+		if (result.valid) {
+			await clearIngestFailure(env.DB, objectKey);
+			console.log(`Successfully processed ${objectKey}:`, result.lines ? `${result.lines.length} lines` : result.outcome);
+		} else {
+			await recordIngestFailure(env.DB, { objectKey, error: result.error ?? 'Unknown error', kind: 'permanent', attempts: message.attempts });
+			console.error(`Failed to process ${objectKey}: ${result.error}`);
+		}
+
+		if (runId) {
+			await recordFileOutcome(env.DB, runId, result.valid ? fileOutcome(result) : 'failed');
+		}
+		message.ack();
+	} catch (error) {
+		// processJsonFromR2 only throws TransientIngestError; D1 errors while recording land here too
+		const reason = error instanceof Error ? error.message : String(error);
+
+		if (message.attempts < MAX_INGEST_ATTEMPTS) {
+			const delaySeconds = retryDelaySeconds(message.attempts);
+			console.warn(`Retrying ${objectKey} in ${delaySeconds}s (attempt ${message.attempts}): ${reason}`);
+			message.retry({ delaySeconds });
+			return;
+		}
+
+		console.error(`Giving up on ${objectKey} after ${message.attempts} attempts: ${reason}`);
+		try {
+			await recordIngestFailure(env.DB, { objectKey, error: reason, kind: 'transient', attempts: message.attempts });
+			if (runId) {
+				await recordFileOutcome(env.DB, runId, 'failed');
+			}
+			message.ack();
+		} catch (recordError) {
+			// D1 is unavailable too; leave the message to the platform's own retry limit
+			console.error(`Could not record failure for ${objectKey}:`, recordError);
+			message.retry({ delaySeconds: MAX_RETRY_DELAY_SECONDS });
+		}
+	}
+}
@@ -0,0 +1,38 @@
+import type { Env } from '../types/env';
+import { publishDueChatters } from '../services/chatter-service';
+import { pruneSnapshotCache } from '../services/environment/snapshot-cache';
+import { requeueStaleEnrichments } from '../services/chatter-enrichment';
+
+/**
+ * Handles cron triggers (see triggers.crons in wrangler.jsonc)
+ * Publishes scheduled chatters whose publish_at has passed, drops expired environment snapshots
+ * and queues again chatter enrichments whose message was never sent or was lost. Each step is
+ * logged and skipped on failure so one broken step does not hold back the others.
+ */
+export async function handleScheduled(controller: ScheduledController, env: Env): Promise<void> {
+	const now = new Date(controller.scheduledTime);
+
+	try {
+		const published = await publishDueChatters(env, now);
+		if (published.length > 0) {
+			console.log(`Published ${published.length} scheduled chatters:`, published);
+		}
+	} catch (error) {
+		console.error('Publishing scheduled chatters failed:', error);
+	}
+
+	try {
+		await pruneSnapshotCache(env.DB, now);
+	} catch (error) {
+		console.error('Pruning environment snapshots failed:', error);
+	}
+
+	try {
+		const requeued = await requeueStaleEnrichments(env, now);
+		if (requeued.length > 0) {
+			console.log(`Queued ${requeued.length} stale chatter enrichments again:`, requeued);
+		}
+	} catch (error) {
+		console.error('Queueing stale chatter enrichments failed:', error);
+	}
+}
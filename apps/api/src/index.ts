@@ -1,12 +1,13 @@
 import type { Env } from './types/env';
 import { handleHttp } from './handlers/http';
 import { handleQueue } from './handlers/queue';
+import { handleScheduled } from './handlers/scheduled';
 import { createRouter } from './router';
 import { getPwaHtml } from './routes/pwa';
 
 /**
  * Cloudflare Worker entry point
- * Exports handlers for HTTP requests and queue message processing
+ * Exports handlers for HTTP requests, queue message processing and cron triggers
  */
 export default {
 	/**
@@ -25,7 +26,13 @@ export default {
 		}
 
 		// Route API paths through chanfana/hono
-		if (url.pathname.startsWith('/api/chatters') || url.pathname === '/openapi.json' || url.pathname === '/docs') {
+		if (
+			url.pathname.startsWith('/api/chatters') ||
+			url.pathname.startsWith('/api/tags') ||
+			url.pathname.startsWith('/api/places') ||
+			url.pathname === '/openapi.json' ||
+			url.pathname === '/docs'
+		) {
 			const router = createRouter();
 			return router.fetch(request, env, ctx);
 		}
@@ -41,4 +48,12 @@ export default {
 	async queue(batch: MessageBatch, env: Env): Promise<void> {
 		await handleQueue(batch, env);
 	},
+
+	/**
+	 * Cron trigger handler
+	 * Runs on the schedules in triggers.crons (wrangler.jsonc)
+	 */
+	async scheduled(controller: ScheduledController, env: Env): Promise<void> {
+		await handleScheduled(controller, env);
+	},
 } satisfies ExportedHandler<Env>;
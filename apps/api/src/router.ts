@@ -5,7 +5,17 @@
 
 import { Hono } from 'hono';
 import { fromHono } from 'chanfana';
-import { ChatterCreate } from './routes/chatters';
+import {
+	ChatterCreate,
+	ChatterDelete,
+	ChatterEnrichmentStatus,
+	ChatterFetch,
+	ChatterHistory,
+	ChatterList,
+	ChatterUpdate,
+} from './routes/chatters';
+import { PlacesNearby, PlacesReverse } from './routes/places';
+import { TagFetch, TagList } from './routes/tags';
 import type { Env } from './types/env';
 
 /**
@@ -32,8 +42,22 @@ export function createRouter() {
 		},
 	});
 
-	// Register POST /api/chatters endpoint
+	// Register chatter endpoints
 	openapi.post('/api/chatters', ChatterCreate);
+	openapi.get('/api/chatters', ChatterList);
+	openapi.get('/api/chatters/:id', ChatterFetch);
+	openapi.patch('/api/chatters/:id', ChatterUpdate);
+	openapi.delete('/api/chatters/:id', ChatterDelete);
+	openapi.get('/api/chatters/:id/history', ChatterHistory);
+	openapi.get('/api/chatters/:id/enrichment', ChatterEnrichmentStatus);
+
+	// Register tag endpoints
+	openapi.get('/api/tags', TagList);
+	openapi.get('/api/tags/:name', TagFetch);
+
+	// Register place lookup endpoints (server-side Google proxy)
+	openapi.get('/api/places/nearby', PlacesNearby);
+	openapi.get('/api/places/reverse', PlacesReverse);
 
 	return openapi;
 }
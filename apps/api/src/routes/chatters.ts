@@ -1,21 +1,44 @@
 /**
- * POST /chatters endpoint
- * Create a new chatter with environmental enrichment
+ * Chatter endpoints
+ * POST /api/chatters creates a new chatter with environmental enrichment
+ * GET /api/chatters lists chatter hot rows from D1
+ * GET /api/chatters/{id} returns the full enriched document from R2
+ * PATCH /api/chatters/{id} edits a chatter by storing a new version
+ * DELETE /api/chatters/{id} tombstones a chatter
+ * GET /api/chatters/{id}/history walks the version chain
+ * GET /api/chatters/{id}/enrichment reports the enrichment of a chatter posted with ?enrich=async
  */
 
 import { type Context } from 'hono';
-import { OpenAPIRoute, Str } from 'chanfana';
+import { Arr, Bool, DateTime, Enumeration, Int, OpenAPIRoute, Obj, Str } from 'chanfana';
 import type { Env } from '../types/env';
-import type { CreateChatterRequest } from '../types/chatter';
-import { createAndStoreChatter } from '../services/chatter-service';
+import type { CreateChatterRequest, UpdateChatterRequest } from '../types/chatter';
+import {
+	ChatterNotFoundError,
+	ChatterValidationError,
+	createAndStoreChatter,
+	deleteChatter,
+	getChatterHistory,
+	updateChatter,
+} from '../services/chatter-service';
+import {
+	createAndQueueChatter,
+	ENRICHMENT_MODES,
+	enrichmentStatusPath,
+	getChatterEnrichment,
+	type EnrichmentMode,
+} from '../services/chatter-enrichment';
+import { CHATTER_STATUSES, getChatterDocument, getChatterRow, InvalidCursorError, listChatters, MAX_PAGE_SIZE } from '../services/chatter-query';
+import { validateJsonSchema } from '../services/json-schema';
 import CreateChatterRequestSchema from '../schemas/create-chatter-request.schema.json';
+import UpdateChatterRequestSchema from '../schemas/update-chatter-request.schema.json';
 
 export type AppContext = Context<{ Bindings: Env }>;
 
 /**
  * Validate authentication token from request headers
  */
-async function validateAuth(c: AppContext): Promise<boolean> {
+export async function validateAuth(c: AppContext): Promise<boolean> {
 	const authHeader = c.req.header('Authorization');
 	const token = authHeader?.replace('Bearer ', '');
 
@@ -32,8 +55,15 @@ export class ChatterCreate extends OpenAPIRoute {
 		tags: ['Chatters'],
 		summary: 'Create a new chatter',
 		description:
-			'Create a new chatter. The client sends the basic data (kind = chatter, content, date_posted, optional place). The server enriches the chatter with environmental data and returns the enriched document.',
+			'Create a new chatter. The client sends the basic data (kind = chatter, content, date_posted, optional place). The server enriches the chatter with environmental data and returns the enriched document. With ?enrich=async the chatter is stored without waiting for enrichment and the endpoint returns 202; enrichment then stores a new version, and GET /api/chatters/{id}/enrichment reports when it has completed.',
 		request: {
+			query: Obj({
+				enrich: Enumeration({
+					values: [...ENRICHMENT_MODES],
+					required: false,
+					description: 'sync (default) enriches before responding; async stores the chatter at once and enriches it from the queue',
+				}),
+			}),
 			body: {
 				content: {
 					'application/json': {
@@ -61,8 +91,14 @@ export class ChatterCreate extends OpenAPIRoute {
 										date_posted: { type: 'string', format: 'date-time' },
 										title: { type: 'string' },
 										tags: { type: 'array', items: { type: 'string' } },
-										images: { type: 'array', items: { type: 'string' } },
+										images: {
+											type: 'array',
+											description: 'URIs, and references to uploaded images (artifact_key, photograph_id, content_type, caption)',
+											items: { anyOf: [{ type: 'string' }, { type: 'object' }] },
+										},
 										publish: { type: 'boolean' },
+										status: { type: 'string', enum: ['draft', 'scheduled', 'published'] },
+										publish_at: { type: 'string', format: 'date-time' },
 										location_hint: {
 											type: 'object',
 											properties: {
@@ -93,6 +129,19 @@ export class ChatterCreate extends OpenAPIRoute {
 					},
 				},
 			},
+			'202': {
+				description: 'Chatter stored without an environment; enrichment is queued (?enrich=async)',
+				content: {
+					'application/json': {
+						schema: Obj({
+							id: Str({ description: 'Id of the stored chatter' }),
+							status: Str({ description: 'Enrichment status: pending' }),
+							status_url: Str({ description: 'Enrichment status endpoint' }),
+							chatter: Obj({}, { description: 'The stored chatter, without an environment' }),
+						}),
+					},
+				},
+			},
 			'400': {
 				description: 'Invalid request payload',
 				content: {
@@ -101,6 +150,17 @@ export class ChatterCreate extends OpenAPIRoute {
 							type: 'object',
 							properties: {
 								error: Str({ description: 'Error message' }),
+								errors: {
+									type: 'array',
+									description: 'Field-level schema violations',
+									items: {
+										type: 'object',
+										properties: {
+											path: Str({ description: 'Dotted path to the field, e.g. place.location.lat' }),
+											message: Str({ description: 'What is wrong with it' }),
+										},
+									},
+								},
 							},
 						},
 					},
@@ -153,17 +213,48 @@ export class ChatterCreate extends OpenAPIRoute {
 				);
 			}
 
+			const enrich = c.req.query('enrich') ?? 'sync';
+			if (!ENRICHMENT_MODES.includes(enrich as EnrichmentMode)) {
+				return c.json({ error: `enrich must be one of: ${ENRICHMENT_MODES.join(', ')}` }, { status: 400 });
+			}
+
 			// Get request body
-			const body = await c.req.json<CreateChatterRequest>();
+			let body: unknown;
+			try {
+				body = await c.req.json();
+			} catch {
+				return c.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+			}
+
+			// Enforce the request schema before anything is enriched or stored
+			const errors = validateJsonSchema(CreateChatterRequestSchema, body);
+			if (errors.length > 0) {
+				return c.json({ error: 'Invalid request payload', errors }, { status: 400 });
+			}
+
+			// Store the chatter now and leave enrichment to the queue
+			if (enrich === 'async') {
+				const chatter = await createAndQueueChatter(body as CreateChatterRequest, c.env);
+				return c.json(
+					{ id: chatter.id, status: 'pending', status_url: enrichmentStatusPath(chatter.id), chatter },
+					{
+						status: 202,
+					}
+				);
+			}
 
 			// Create and store chatter with environmental enrichment
-			const chatter = await createAndStoreChatter(body, c.env);
+			const chatter = await createAndStoreChatter(body as CreateChatterRequest, c.env);
 
 			// Return enriched chatter
 			return c.json(chatter, {
 				status: 201,
 			});
 		} catch (error) {
+			if (error instanceof ChatterValidationError) {
+				return c.json({ error: 'Invalid request payload', errors: error.errors }, { status: 400 });
+			}
+
 			console.error('Chatter creation error:', error);
 
 			return c.json(
@@ -178,3 +269,533 @@ export class ChatterCreate extends OpenAPIRoute {
 		}
 	}
 }
+
+/**
+ * Error response body shared by the read endpoints
+ */
+const ErrorResponse = {
+	'application/json': {
+		schema: Obj({
+			error: Str({ description: 'Error message' }),
+		}),
+	},
+};
+
+export class ChatterList extends OpenAPIRoute {
+	schema = {
+		tags: ['Chatters'],
+		summary: 'List chatters',
+		description:
+			'List chatter metadata from D1, newest first. Unauthenticated callers only see published chatters; authenticated callers also see drafts and scheduled chatters and may filter on status or the publish flag. Use next_cursor to fetch the following page.',
+		request: {
+			query: Obj({
+				year: Int({ required: false, description: 'Filter by year posted' }),
+				month: Str({ required: false, description: 'Filter by month posted (YYYY-MM)', example: '2025-11' }),
+				tag: Str({ required: false, description: 'Filter by tag name' }),
+				publish: Bool({ required: false, description: 'Filter by publish flag (authenticated callers only)' }),
+				status: Enumeration({
+					values: [...CHATTER_STATUSES],
+					required: false,
+					description: 'Filter by status: draft, scheduled or published (authenticated callers only)',
+				}),
+				from: DateTime({ required: false, description: 'Only chatters posted at or after this time' }),
+				to: DateTime({ required: false, description: 'Only chatters posted at or before this time' }),
+				cursor: Str({ required: false, description: 'Cursor returned as next_cursor by the previous page' }),
+				limit: Int({ required: false, description: `Page size (max ${MAX_PAGE_SIZE})` }),
+			}),
+		},
+		responses: {
+			'200': {
+				description: 'One page of chatters',
+				content: {
+					'application/json': {
+						schema: Obj({
+							items: Arr(
+								Obj({
+									id: Str(),
+									date_posted: DateTime(),
+									year: Int(),
+									month: Str(),
+									slug: Str(),
+									publish: Bool(),
+									status: Str({ example: 'published' }),
+									publish_at: DateTime({ required: false, description: 'When a scheduled chatter goes live; null otherwise' }),
+									r2_key: Str(),
+								})
+							),
+							next_cursor: Str({ required: false, description: 'Cursor for the next page; null on the last page' }),
+						}),
+					},
+				},
+			},
+			'400': {
+				description: 'Invalid query parameters',
+				content: ErrorResponse,
+			},
+			'500': {
+				description: 'Server error',
+				content: ErrorResponse,
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		try {
+			const { query = {} } = await this.getValidatedData<typeof this.schema>();
+			const isAuthorized = await validateAuth(c);
+
+			const page = await listChatters(c.env.DB, {
+				year: query.year ?? undefined,
+				month: query.month ?? undefined,
+				tag: query.tag ?? undefined,
+				// Drafts and scheduled chatters are only visible to authenticated callers
+				publish: isAuthorized ? (query.publish ?? undefined) : undefined,
+				status: isAuthorized ? (query.status ?? undefined) : 'published',
+				from: query.from ? new Date(query.from) : undefined,
+				to: query.to ? new Date(query.to) : undefined,
+				cursor: query.cursor ?? undefined,
+				limit: query.limit ?? undefined,
+			});
+
+			return c.json(page, { status: 200 });
+		} catch (error) {
+			if (error instanceof InvalidCursorError) {
+				return c.json({ error: error.message }, { status: 400 });
+			}
+
+			console.error('Chatter list error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to list chatters',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 500,
+				}
+			);
+		}
+	}
+}
+
+export class ChatterFetch extends OpenAPIRoute {
+	schema = {
+		tags: ['Chatters'],
+		summary: 'Get a chatter',
+		description:
+			'Fetch the full enriched chatter document from R2. Drafts and scheduled chatters are only returned to authenticated callers.',
+		request: {
+			params: Obj({
+				id: Str({ description: 'Chatter id (sha256:...)', example: 'sha256:ffea612adc0d60c0ca8bc548966b947c93b35eb2f0efd22d2f3061535df8d6c8' }),
+			}),
+		},
+		responses: {
+			'200': {
+				description: 'The enriched chatter document',
+				content: {
+					'application/json': {
+						schema: Obj({
+							type: Str({ example: 'chatter' }),
+							id: Str({ description: 'SHA256-based content ID' }),
+							schema_version: Str(),
+							data: Obj({}, { description: 'Chatter data including environment snapshots' }),
+						}),
+					},
+				},
+			},
+			'404': {
+				description: 'Chatter not found',
+				content: ErrorResponse,
+			},
+			'500': {
+				description: 'Server error',
+				content: ErrorResponse,
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		try {
+			const { params = {} } = await this.getValidatedData<typeof this.schema>();
+
+			const row = await getChatterRow(c.env.DB, params.id);
+			if (!row || (row.status !== 'published' && !(await validateAuth(c)))) {
+				return c.json({ error: 'Chatter not found' }, { status: 404 });
+			}
+
+			const document = await getChatterDocument(c.env, row.r2Key);
+			if (!document) {
+				return c.json({ error: 'Chatter data not found in storage' }, { status: 404 });
+			}
+
+			return c.json(document, { status: 200 });
+		} catch (error) {
+			console.error('Chatter fetch error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to fetch chatter',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 500,
+				}
+			);
+		}
+	}
+}
+
+/**
+ * Field-level validation errors, as returned for invalid request bodies
+ */
+const ValidationErrorResponse = {
+	'application/json': {
+		schema: Obj({
+			error: Str({ description: 'Error message' }),
+			errors: Arr(
+				Obj({
+					path: Str({ description: 'Dotted path to the field, e.g. tags.0' }),
+					message: Str({ description: 'What is wrong with it' }),
+				}),
+				{ required: false, description: 'Field-level schema violations' }
+			),
+		}),
+	},
+};
+
+export class ChatterUpdate extends OpenAPIRoute {
+	schema = {
+		tags: ['Chatters'],
+		summary: 'Edit a chatter',
+		description:
+			'Edit the content, title, tags, images or status of a chatter. Because ids are content hashes, the edit is stored as a new version whose data records `supersedes: <old id>`; the date, slug, place and environment snapshot of the original post are kept. The D1 hot row moves to the new version, so the old id no longer resolves.',
+		request: {
+			params: Obj({
+				id: Str({ description: 'Chatter id (sha256:...)', example: 'sha256:ffea612adc0d60c0ca8bc548966b947c93b35eb2f0efd22d2f3061535df8d6c8' }),
+			}),
+			body: {
+				content: {
+					'application/json': {
+						schema: Obj({
+							content: Str({ required: false }),
+							title: Str({ required: false }),
+							tags: Arr(Str(), { required: false }),
+							images: Arr(Str({ description: 'Image URI, or artifact key (<sha256>.<ext>) returned by POST /images' }), {
+								required: false,
+								description: 'Replaces the images, as on create',
+							}),
+							publish: Bool({ required: false }),
+							status: Enumeration({ values: [...CHATTER_STATUSES], required: false }),
+							publish_at: DateTime({ required: false, description: 'Required when status is scheduled' }),
+						}),
+					},
+				},
+			},
+		},
+		responses: {
+			'200': {
+				description: 'The new version of the chatter',
+				content: {
+					'application/json': {
+						schema: Obj({
+							type: Str({ example: 'chatter' }),
+							id: Str({ description: 'SHA256-based content ID of the new version' }),
+							schema_version: Str(),
+							data: Obj({}, { description: 'Chatter data, including supersedes and the original environment snapshots' }),
+						}),
+					},
+				},
+			},
+			'400': {
+				description: 'Invalid request payload',
+				content: ValidationErrorResponse,
+			},
+			'401': {
+				description: 'Unauthorized - invalid or missing auth token',
+				content: ErrorResponse,
+			},
+			'404': {
+				description: 'Chatter not found (or not the current version)',
+				content: ErrorResponse,
+			},
+			'500': {
+				description: 'Server error',
+				content: ErrorResponse,
+			},
+		},
+		security: [
+			{
+				bearerAuth: [],
+			},
+		],
+	};
+
+	async handle(c: AppContext) {
+		try {
+			if (!(await validateAuth(c))) {
+				return c.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+
+			let body: unknown;
+			try {
+				body = await c.req.json();
+			} catch {
+				return c.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+			}
+
+			const errors = validateJsonSchema(UpdateChatterRequestSchema, body);
+			if (errors.length > 0) {
+				return c.json({ error: 'Invalid request payload', errors }, { status: 400 });
+			}
+			if (Object.keys(body as object).length === 0) {
+				return c.json({ error: 'No fields to update' }, { status: 400 });
+			}
+
+			const { params = {} } = await this.getValidatedData<typeof this.schema>();
+			const chatter = await updateChatter(params.id, body as UpdateChatterRequest, c.env);
+
+			return c.json(chatter, { status: 200 });
+		} catch (error) {
+			if (error instanceof ChatterNotFoundError) {
+				return c.json({ error: 'Chatter not found' }, { status: 404 });
+			}
+			if (error instanceof ChatterValidationError) {
+				return c.json({ error: 'Invalid request payload', errors: error.errors }, { status: 400 });
+			}
+
+			console.error('Chatter update error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to update chatter',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 500,
+				}
+			);
+		}
+	}
+}
+
+export class ChatterDelete extends OpenAPIRoute {
+	schema = {
+		tags: ['Chatters'],
+		summary: 'Delete a chatter',
+		description:
+			'Tombstone a chatter. The R2 document is kept (marked deleted) so its history can still be read by authenticated callers; the D1 hot row and tag links are removed.',
+		request: {
+			params: Obj({
+				id: Str({ description: 'Chatter id (sha256:...)', example: 'sha256:ffea612adc0d60c0ca8bc548966b947c93b35eb2f0efd22d2f3061535df8d6c8' }),
+			}),
+		},
+		responses: {
+			'200': {
+				description: 'Chatter deleted',
+				content: {
+					'application/json': {
+						schema: Obj({
+							id: Str(),
+							deleted_at: DateTime(),
+						}),
+					},
+				},
+			},
+			'401': {
+				description: 'Unauthorized - invalid or missing auth token',
+				content: ErrorResponse,
+			},
+			'404': {
+				description: 'Chatter not found (or not the current version)',
+				content: ErrorResponse,
+			},
+			'500': {
+				description: 'Server error',
+				content: ErrorResponse,
+			},
+		},
+		security: [
+			{
+				bearerAuth: [],
+			},
+		],
+	};
+
+	async handle(c: AppContext) {
+		try {
+			if (!(await validateAuth(c))) {
+				return c.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+
+			const { params = {} } = await this.getValidatedData<typeof this.schema>();
+			const result = await deleteChatter(params.id, c.env);
+
+			return c.json(result, { status: 200 });
+		} catch (error) {
+			if (error instanceof ChatterNotFoundError) {
+				return c.json({ error: 'Chatter not found' }, { status: 404 });
+			}
+
+			console.error('Chatter delete error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to delete chatter',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 500,
+				}
+			);
+		}
+	}
+}
+
+export class ChatterHistory extends OpenAPIRoute {
+	schema = {
+		tags: ['Chatters'],
+		summary: 'Get the version history of a chatter',
+		description:
+			'Walk the version chain of a chatter from any of its ids, newest version first. Unauthenticated callers only see the history of published chatters that have not been deleted.',
+		request: {
+			params: Obj({
+				id: Str({ description: 'Chatter id (sha256:...)', example: 'sha256:ffea612adc0d60c0ca8bc548966b947c93b35eb2f0efd22d2f3061535df8d6c8' }),
+			}),
+		},
+		responses: {
+			'200': {
+				description: 'Versions of the chatter, newest first',
+				content: {
+					'application/json': {
+						schema: Obj({
+							versions: Arr(
+								Obj({
+									id: Str(),
+									r2_key: Str(),
+									superseded_by: Str({ required: false, description: 'Id of the version that replaced this one; null for the latest' }),
+									deleted_at: DateTime({ required: false, description: 'When the chatter was deleted; null unless deleted' }),
+									document: Obj({}, { description: 'The stored chatter document' }),
+								})
+							),
+						}),
+					},
+				},
+			},
+			'404': {
+				description: 'Chatter not found',
+				content: ErrorResponse,
+			},
+			'500': {
+				description: 'Server error',
+				content: ErrorResponse,
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		try {
+			const { params = {} } = await this.getValidatedData<typeof this.schema>();
+
+			const versions = await getChatterHistory(params.id, c.env);
+			const [latest] = versions ?? [];
+
+			// Deleted chatters have no hot row; the row also tells whether a scheduled chatter has gone live
+			const row = latest && !latest.deleted_at ? await getChatterRow(c.env.DB, latest.id) : null;
+			if (!latest || (row?.status !== 'published' && !(await validateAuth(c)))) {
+				return c.json({ error: 'Chatter not found' }, { status: 404 });
+			}
+
+			return c.json({ versions }, { status: 200 });
+		} catch (error) {
+			console.error('Chatter history error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to fetch chatter history',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 500,
+				}
+			);
+		}
+	}
+}
+
+export class ChatterEnrichmentStatus extends OpenAPIRoute {
+	schema = {
+		tags: ['Chatters'],
+		summary: 'Get the enrichment status of a chatter',
+		description:
+			'Report the enrichment of a chatter posted with ?enrich=async, by the id the post returned or the id of the enriched version. Once completed, version_id is the version carrying the environment.',
+		request: {
+			params: Obj({
+				id: Str({ description: 'Chatter id (sha256:...)', example: 'sha256:ffea612adc0d60c0ca8bc548966b947c93b35eb2f0efd22d2f3061535df8d6c8' }),
+			}),
+		},
+		responses: {
+			'200': {
+				description: 'The enrichment',
+				content: {
+					'application/json': {
+						schema: Obj({
+							id: Str({ description: 'Id of the chatter as first stored' }),
+							status: Enumeration({ values: ['pending', 'completed', 'failed'] }),
+							version_id: Str({ required: false, description: 'Version carrying the environment; null until completed' }),
+							error: Str({ required: false, description: 'Why enrichment failed' }),
+							attempts: Int(),
+							requested_at: DateTime(),
+							updated_at: DateTime(),
+							completed_at: DateTime({ required: false }),
+						}),
+					},
+				},
+			},
+			'401': {
+				description: 'Unauthorized - invalid or missing auth token',
+				content: ErrorResponse,
+			},
+			'404': {
+				description: 'No enrichment for this id',
+				content: ErrorResponse,
+			},
+			'500': {
+				description: 'Server error',
+				content: ErrorResponse,
+			},
+		},
+		security: [
+			{
+				bearerAuth: [],
+			},
+		],
+	};
+
+	async handle(c: AppContext) {
+		try {
+			if (!(await validateAuth(c))) {
+				return c.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+
+			const { params = {} } = await this.getValidatedData<typeof this.schema>();
+			const enrichment = await getChatterEnrichment(c.env.DB, params.id);
+			if (!enrichment) {
+				return c.json({ error: 'Enrichment not found' }, { status: 404 });
+			}
+
+			return c.json(enrichment, { status: 200 });
+		} catch (error) {
+			console.error('Chatter enrichment status error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to fetch enrichment status',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 500,
+				}
+			);
+		}
+	}
+}
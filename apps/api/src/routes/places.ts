@@ -0,0 +1,200 @@
+/**
+ * Place endpoints
+ * Proxy Google Places and Geocoding so the API key stays on the server
+ * GET /api/places/nearby lists places around a point
+ * GET /api/places/reverse reverse geocodes a point
+ */
+
+import { Arr, Num, OpenAPIRoute, Obj, Str } from 'chanfana';
+import { type AppContext, validateAuth } from './chatters';
+import { DEFAULT_NEARBY_RADIUS_M, MAX_NEARBY_RADIUS_M, reverseGeocode, searchNearbyPlaces } from '../services/environment/google-places';
+
+const ErrorResponse = {
+	'application/json': {
+		schema: Obj({
+			error: Str({ description: 'Error message' }),
+		}),
+	},
+};
+
+/**
+ * Query parameters locating the point to look up
+ */
+const Coordinates = {
+	lat: Num({ description: 'Latitude', example: 37.7749 }),
+	lng: Num({ description: 'Longitude', example: -122.4194 }),
+};
+
+/**
+ * Whether lat/lng are on the globe
+ */
+function isValidCoordinate(lat: number, lng: number): boolean {
+	return lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
+
+export class PlacesNearby extends OpenAPIRoute {
+	schema = {
+		tags: ['Places'],
+		summary: 'List nearby places',
+		description: 'Search Google Places around a point and return normalized place summaries, nearest match first as ranked by Google.',
+		request: {
+			query: Obj({
+				...Coordinates,
+				radius: Num({
+					required: false,
+					description: `Search radius in meters (default ${DEFAULT_NEARBY_RADIUS_M}, max ${MAX_NEARBY_RADIUS_M})`,
+				}),
+			}),
+		},
+		responses: {
+			'200': {
+				description: 'Nearby places',
+				content: {
+					'application/json': {
+						schema: Obj({
+							places: Arr(
+								Obj({
+									name: Str(),
+									formatted_address: Str(),
+									short_address: Str({ required: false }),
+									lat: Num(),
+									lng: Num(),
+									place_id: Str({ required: false }),
+									maps_url: Str({ required: false }),
+									types: Arr(Str(), { required: false }),
+								})
+							),
+						}),
+					},
+				},
+			},
+			'400': {
+				description: 'Coordinates out of range',
+				content: ErrorResponse,
+			},
+			'401': {
+				description: 'Unauthorized - invalid or missing auth token',
+				content: ErrorResponse,
+			},
+			'502': {
+				description: 'Google Places request failed',
+				content: ErrorResponse,
+			},
+		},
+		security: [
+			{
+				bearerAuth: [],
+			},
+		],
+	};
+
+	async handle(c: AppContext) {
+		// Validated outside the try so chanfana answers missing or non-numeric parameters with 400
+		const { query } = await this.getValidatedData<typeof this.schema>();
+
+		try {
+			if (!(await validateAuth(c))) {
+				return c.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+
+			if (!isValidCoordinate(query.lat, query.lng)) {
+				return c.json({ error: 'lat must be within [-90, 90] and lng within [-180, 180]' }, { status: 400 });
+			}
+
+			const radius = Math.min(Math.max(query.radius ?? DEFAULT_NEARBY_RADIUS_M, 1), MAX_NEARBY_RADIUS_M);
+			const places = await searchNearbyPlaces(query.lat, query.lng, c.env, false, radius);
+
+			return c.json({ places }, { status: 200 });
+		} catch (error) {
+			console.error('Nearby places error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to search nearby places',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 502,
+				}
+			);
+		}
+	}
+}
+
+export class PlacesReverse extends OpenAPIRoute {
+	schema = {
+		tags: ['Places'],
+		summary: 'Reverse geocode a point',
+		description: 'Look up the address of a point with the Google Geocoding API and return a normalized geocoding summary.',
+		request: {
+			query: Obj(Coordinates),
+		},
+		responses: {
+			'200': {
+				description: 'Address of the point',
+				content: {
+					'application/json': {
+						schema: Obj({
+							lat: Num(),
+							lng: Num(),
+							formatted_address: Str(),
+							country_code: Str({ required: false }),
+							region_code: Str({ required: false }),
+							region_name: Str({ required: false }),
+							locality: Str({ required: false }),
+							postal_code: Str({ required: false }),
+						}),
+					},
+				},
+			},
+			'400': {
+				description: 'Coordinates out of range',
+				content: ErrorResponse,
+			},
+			'401': {
+				description: 'Unauthorized - invalid or missing auth token',
+				content: ErrorResponse,
+			},
+			'502': {
+				description: 'Geocoding request failed or found no address',
+				content: ErrorResponse,
+			},
+		},
+		security: [
+			{
+				bearerAuth: [],
+			},
+		],
+	};
+
+	async handle(c: AppContext) {
+		// Validated outside the try so chanfana answers missing or non-numeric parameters with 400
+		const { query } = await this.getValidatedData<typeof this.schema>();
+
+		try {
+			if (!(await validateAuth(c))) {
+				return c.json({ error: 'Unauthorized' }, { status: 401 });
+			}
+
+			if (!isValidCoordinate(query.lat, query.lng)) {
+				return c.json({ error: 'lat must be within [-90, 90] and lng within [-180, 180]' }, { status: 400 });
+			}
+
+			const geocoding = await reverseGeocode(query.lat, query.lng, c.env);
+
+			return c.json(geocoding.summary, { status: 200 });
+		} catch (error) {
+			console.error('Reverse geocode error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to reverse geocode',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 502,
+				}
+			);
+		}
+	}
+}
@@ -69,7 +69,7 @@ const PWA_STYLES = `
     margin-top: 4px;
   }
 
-  input, textarea {
+  input, textarea, select {
     font-size: 18px;
     padding: 12px;
     width: 100%;
@@ -112,7 +112,6 @@ const PWA_STYLES = `
 
 const PWA_SCRIPT = `
 let authToken = null;
-let googleApiKey = null;
 let selectedPlace = null;
 let userCoords = null;
 
@@ -123,7 +122,6 @@ async function init() {
     if (!response.ok) throw new Error('Auth failed');
     const data = await response.json();
     authToken = data.authToken;
-    googleApiKey = data.googlePlacesApiKey;
 
     // Check for lat/lon in URL
     const params = new URLSearchParams(window.location.search);
@@ -177,34 +175,24 @@ async function requestLocation() {
   }
 }
 
-// Load nearby places from Google Places API
+// GET one of our API endpoints with the auth token
+function apiGet(path) {
+  return fetch(path, {
+    headers: { 'Authorization': 'Bearer ' + authToken }
+  });
+}
+
+// Load nearby places through the server-side Places proxy
 async function loadPlaces(lat, lon) {
   document.getElementById('status').textContent = 'Finding nearby places...';
 
   try {
-    const url = 'https://places.googleapis.com/v1/places:searchNearby';
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': googleApiKey,
-        'X-Goog-FieldMask': 'places.displayName,places.formattedAddress,places.location'
-      },
-      body: JSON.stringify({
-        locationRestriction: {
-          circle: {
-            center: { latitude: lat, longitude: lon },
-            radius: 500
-          }
-        },
-        maxResultCount: 10
-      })
-    });
+    const response = await apiGet(\`/api/places/nearby?lat=\${lat}&lng=\${lon}&radius=500\`);
 
     if (!response.ok) throw new Error('Places API failed');
 
     const data = await response.json();
-    const places = data.places || [];
+    const places = (data.places || []).slice(0, 10);
 
     await displayPlaces(places, lat, lon);
     document.getElementById('status').classList.add('hidden');
@@ -216,28 +204,12 @@ async function loadPlaces(lat, lon) {
 // Reverse geocode to get city and state
 async function getCityState(lat, lon) {
   try {
-    const url = \`https://maps.googleapis.com/maps/api/geocode/json?latlng=\${lat},\${lon}&key=\${googleApiKey}\`;
-    const response = await fetch(url);
+    const response = await apiGet(\`/api/places/reverse?lat=\${lat}&lng=\${lon}\`);
     if (!response.ok) return 'City, State';
 
     const data = await response.json();
-    if (data.error_message) return 'City, State';
-    if (!data.results || data.results.length === 0) return 'City, State';
-
-    const components = data.results[0].address_components;
-    let city = '';
-    let state = '';
-
-    for (const component of components) {
-      if (component.types.includes('locality')) {
-        city = component.long_name;
-      } else if (component.types.includes('sublocality') && !city) {
-        city = component.long_name;
-      }
-      if (component.types.includes('administrative_area_level_1')) {
-        state = component.short_name;
-      }
-    }
+    const city = data.locality || data.neighborhood || '';
+    const state = data.region_code || '';
 
     if (city && state) {
       return \`\${city}, \${state}\`;
@@ -258,8 +230,8 @@ async function displayPlaces(places, lat, lon) {
     const button = document.createElement('button');
     button.className = 'place-option';
     button.innerHTML = \`
-      <div class="place-name">\${place.displayName?.text || 'Unknown'}</div>
-      <div class="place-address">\${place.formattedAddress || ''}</div>
+      <div class="place-name">\${place.name}</div>
+      <div class="place-address">\${place.formatted_address || ''}</div>
     \`;
     button.onclick = () => selectPlace(place, button);
     container.appendChild(button);
@@ -298,11 +270,11 @@ function selectPlace(place, button) {
 
   selectedPlace = {
     type: 'place',
-    name: place.displayName?.text || 'Unknown',
-    address: place.formattedAddress || '',
+    name: place.name,
+    address: place.formatted_address || '',
     location: {
-      lat: place.location?.latitude || 0,
-      lon: place.location?.longitude || 0
+      lat: place.lat,
+      lon: place.lng
     }
   };
 }
@@ -326,18 +298,31 @@ function selectNoLocation(button) {
   selectedPlace = null;
 }
 
+// Show the publish time only for scheduled posts
+function togglePublishAt() {
+  const scheduled = document.getElementById('post-status').value === 'scheduled';
+  document.getElementById('publish-at-field').classList.toggle('hidden', !scheduled);
+}
+
 // Submit form
 async function submitForm(e) {
   e.preventDefault();
 
   const title = document.getElementById('title').value.trim();
   const content = document.getElementById('content').value.trim();
+  const status = document.getElementById('post-status').value;
+  const publishAt = document.getElementById('publish-at').value;
 
   if (!content) {
     showError('Content is required');
     return;
   }
 
+  if (status === 'scheduled' && !publishAt) {
+    showError('Choose when to publish');
+    return;
+  }
+
   document.getElementById('status').textContent = 'Creating post...';
   document.getElementById('status').classList.remove('hidden');
 
@@ -346,10 +331,12 @@ async function submitForm(e) {
       kind: 'chatter',
       content,
       date_posted: new Date().toISOString(),
-      publish: true
+      status
     };
 
     if (title) payload.title = title;
+    // datetime-local is in the device's time zone
+    if (status === 'scheduled') payload.publish_at = new Date(publishAt).toISOString();
 
     if (selectedPlace) {
       payload.location_hint = {
@@ -382,9 +369,13 @@ async function submitForm(e) {
 
     if (!response.ok) throw new Error('Post creation failed');
 
-    document.getElementById('status').textContent = 'Post created!';
+    document.getElementById('status').textContent =
+      status === 'draft' ? 'Draft saved!' : status === 'scheduled' ? 'Post scheduled!' : 'Post created!';
     document.getElementById('title').value = '';
     document.getElementById('content').value = '';
+    document.getElementById('post-status').value = 'published';
+    document.getElementById('publish-at').value = '';
+    togglePublishAt();
 
     setTimeout(() => {
       document.getElementById('status').classList.add('hidden');
@@ -0,0 +1,153 @@
+/**
+ * Tag endpoints
+ * GET /api/tags lists tags with counts per content type
+ * GET /api/tags/{name} lists content of every type carrying a tag
+ */
+
+import { Arr, DateTime, Int, OpenAPIRoute, Obj, Str } from 'chanfana';
+import { type AppContext, validateAuth } from './chatters';
+import { listTagCounts, listTaggedItems } from '../services/tags';
+
+/**
+ * Default and maximum number of items returned for a tag
+ */
+const DEFAULT_TAG_ITEMS = 100;
+const MAX_TAG_ITEMS = 500;
+
+const ErrorResponse = {
+	'application/json': {
+		schema: Obj({
+			error: Str({ description: 'Error message' }),
+		}),
+	},
+};
+
+const TypeCounts = Obj({
+	chatter: Int(),
+	quotes: Int(),
+	photographs: Int(),
+	memes: Int(),
+	bookmarks: Int(),
+});
+
+export class TagList extends OpenAPIRoute {
+	schema = {
+		tags: ['Tags'],
+		summary: 'List tags',
+		description:
+			'List every tag in use with the number of tagged items per content type, most used first. Unpublished content is only counted for authenticated callers.',
+		responses: {
+			'200': {
+				description: 'Tags with counts',
+				content: {
+					'application/json': {
+						schema: Obj({
+							tags: Arr(
+								Obj({
+									name: Str({ example: 'twitter' }),
+									total: Int(),
+									counts: TypeCounts,
+								})
+							),
+						}),
+					},
+				},
+			},
+			'500': {
+				description: 'Server error',
+				content: ErrorResponse,
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		try {
+			const tags = await listTagCounts(c.env.DB, await validateAuth(c));
+			return c.json({ tags }, { status: 200 });
+		} catch (error) {
+			console.error('Tag list error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to list tags',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 500,
+				}
+			);
+		}
+	}
+}
+
+export class TagFetch extends OpenAPIRoute {
+	schema = {
+		tags: ['Tags'],
+		summary: 'List items for a tag',
+		description:
+			'List chatter, quotes, photographs, memes and bookmarks carrying a tag, newest first. Unpublished content is only returned to authenticated callers.',
+		request: {
+			params: Obj({
+				name: Str({ description: 'Tag name', example: 'twitter' }),
+			}),
+			query: Obj({
+				limit: Int({ required: false, description: `Maximum number of items (default ${DEFAULT_TAG_ITEMS}, max ${MAX_TAG_ITEMS})` }),
+			}),
+		},
+		responses: {
+			'200': {
+				description: 'Items carrying the tag',
+				content: {
+					'application/json': {
+						schema: Obj({
+							name: Str(),
+							items: Arr(
+								Obj({
+									type: Str({ example: 'chatter' }),
+									id: Str(),
+									date: DateTime(),
+									slug: Str({ required: false }),
+									r2_key: Str(),
+								})
+							),
+						}),
+					},
+				},
+			},
+			'404': {
+				description: 'No items carry this tag',
+				content: ErrorResponse,
+			},
+			'500': {
+				description: 'Server error',
+				content: ErrorResponse,
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		try {
+			const { params = {}, query = {} } = await this.getValidatedData<typeof this.schema>();
+			const limit = Math.min(Math.max(query.limit ?? DEFAULT_TAG_ITEMS, 1), MAX_TAG_ITEMS);
+
+			const items = await listTaggedItems(c.env.DB, params.name, await validateAuth(c), limit);
+			if (items.length === 0) {
+				return c.json({ error: 'Tag not found' }, { status: 404 });
+			}
+
+			return c.json({ name: params.name, items }, { status: 200 });
+		} catch (error) {
+			console.error('Tag fetch error:', error);
+
+			return c.json(
+				{
+					error: 'Failed to fetch tag',
+					details: error instanceof Error ? error.message : String(error),
+				},
+				{
+					status: 500,
+				}
+			);
+		}
+	}
+}
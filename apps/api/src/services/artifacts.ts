@@ -0,0 +1,50 @@
+/**
+ * Artifact keys
+ * Uploaded images are stored in SR_ARTIFACT under `<sha256>.<ext>`, the hash of the file content.
+ * The photograph recorded for an upload has the id `sha256:<sha256>`.
+ */
+
+/**
+ * File extension per allowed image MIME type
+ */
+export const ARTIFACT_EXTENSIONS: Readonly<Record<string, string>> = {
+	'image/jpeg': 'jpg',
+	'image/png': 'png',
+	'image/gif': 'gif',
+	'image/webp': 'webp',
+};
+
+/**
+ * `<sha256>.<ext>` for one of the allowed image types
+ */
+export const ARTIFACT_KEY_PATTERN = new RegExp(`^([0-9a-f]{64})\\.(${Object.values(ARTIFACT_EXTENSIONS).join('|')})$`);
+
+/**
+ * Check whether a value is an artifact key
+ */
+export function isArtifactKey(value: string): boolean {
+	return ARTIFACT_KEY_PATTERN.test(value);
+}
+
+/**
+ * Artifact key for an image's content hash and MIME type
+ */
+export function artifactKey(hash: string, mimeType: string): string {
+	return `${hash}.${ARTIFACT_EXTENSIONS[mimeType] || 'bin'}`;
+}
+
+/**
+ * Id of the photograph recorded for an artifact
+ * e.g. "ab12...ef.jpg" -> "sha256:ab12...ef"
+ */
+export function artifactPhotographId(key: string): string {
+	return `sha256:${key.slice(0, key.lastIndexOf('.'))}`;
+}
+
+/**
+ * MIME type of an artifact, from its extension
+ */
+export function artifactContentType(key: string): string | undefined {
+	const extension = key.slice(key.lastIndexOf('.') + 1);
+	return Object.keys(ARTIFACT_EXTENSIONS).find((mimeType) => ARTIFACT_EXTENSIONS[mimeType] === extension);
+}
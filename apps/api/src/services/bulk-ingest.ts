@@ -0,0 +1,213 @@
+/**
+ * Bulk ingestion listing
+ * Lists one page of SR_JSON and queues its objects for ingestion. Shared by
+ * POST /ingest/all (first page) and the queue consumer (pagination messages).
+ */
+
+import type { Env } from '../types/env';
+import { INGEST_CONTENT_TYPES, processJsonFromR2, TransientIngestError, type ValidationResult } from './json-processor';
+import { recordListedPage } from './ingest-runs';
+import { DEFAULT_TYPE_ALIASES, keyPrefix, resolveAlias, typeAliases } from './type-resolver';
+
+/**
+ * R2 list limit per page
+ */
+export const R2_LIST_LIMIT = 1000;
+
+/**
+ * Objects validated per dry-run page
+ * Each object costs an R2 read and a D1 lookup, so dry runs use smaller pages
+ */
+export const DRY_RUN_LIST_LIMIT = 100;
+
+/**
+ * Queue sendBatch limit
+ */
+const QUEUE_BATCH_LIMIT = 100;
+
+/**
+ * Filters narrowing which objects a bulk ingestion picks up
+ * Carried unchanged on every pagination message of a run.
+ */
+export interface IngestFilters {
+	/** R2 key prefix passed to the list call, e.g. "films/" */
+	prefix?: string;
+	/** Content type, matched against the key's folder after aliasing (shakespert/ is shakespeare) */
+	type?: string;
+	/** ISO timestamp; only objects uploaded at or after it are picked up */
+	modifiedSince?: string;
+}
+
+/**
+ * Options for listing one page
+ */
+export interface ListingPageOptions {
+	/** R2 list cursor from the previous page */
+	cursor?: string;
+	/** Ingest run the page belongs to */
+	runId?: string;
+	/** Objects per page (defaults to R2_LIST_LIMIT) */
+	limit?: number;
+	filters?: IngestFilters;
+}
+
+/**
+ * Result of queueing one page
+ */
+export interface ListingPage {
+	queued: number;
+	hasMore: boolean;
+}
+
+/**
+ * Result of validating one page without writing
+ */
+export interface DryRunPage {
+	checked: number;
+	hasMore: boolean;
+	/** Cursor for the next page, when there is one */
+	cursor?: string;
+	results: ValidationResult[];
+}
+
+/**
+ * Read bulk ingestion filters from query parameters
+ * @param params - Query parameters
+ * @param aliases - Type alias map for the type filter (see typeAliases)
+ * @returns The filters, or an error message for a 400 response
+ */
+export function parseIngestFilters(
+	params: URLSearchParams,
+	aliases: Readonly<Record<string, string>> = DEFAULT_TYPE_ALIASES
+): { ok: true; filters: IngestFilters } | { ok: false; error: string } {
+	const filters: IngestFilters = {};
+
+	const prefix = params.get('prefix');
+	if (prefix) {
+		filters.prefix = prefix;
+	}
+
+	const type = params.get('type');
+	if (type) {
+		const resolved = resolveAlias(type, aliases);
+		if (!INGEST_CONTENT_TYPES.includes(resolved)) {
+			return { ok: false, error: `type must be one of: ${INGEST_CONTENT_TYPES.join(', ')}` };
+		}
+		filters.type = resolved;
+	}
+
+	const modifiedSince = params.get('modifiedSince');
+	if (modifiedSince) {
+		const timestamp = Date.parse(modifiedSince);
+		if (Number.isNaN(timestamp)) {
+			return { ok: false, error: 'modifiedSince must be an ISO 8601 timestamp' };
+		}
+		filters.modifiedSince = new Date(timestamp).toISOString();
+	}
+
+	return { ok: true, filters };
+}
+
+/**
+ * Whether a listed object passes the type and modifiedSince filters
+ * The prefix filter is applied by R2 itself.
+ */
+function matchesFilters(object: R2Object, filters: IngestFilters, aliases: Readonly<Record<string, string>>): boolean {
+	if (filters.type) {
+		const folder = keyPrefix(object.key);
+		if (!folder || resolveAlias(folder, aliases) !== filters.type) {
+			return false;
+		}
+	}
+
+	if (filters.modifiedSince && object.uploaded.getTime() < Date.parse(filters.modifiedSince)) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * List one page of SR_JSON and keep the objects that pass the filters
+ */
+async function listPage(env: Env, cursor: string | undefined, limit: number, filters: IngestFilters) {
+	const listed = await env.SR_JSON.list({ cursor, limit, prefix: filters.prefix });
+	const hasMore = listed.truncated && !!listed.cursor;
+	const aliases = typeAliases(env);
+
+	return {
+		keys: listed.objects.filter((object) => matchesFilters(object, filters, aliases)).map((object) => object.key),
+		hasMore,
+		cursor: hasMore ? listed.cursor : undefined,
+	};
+}
+
+/**
+ * List one page of SR_JSON and queue every matching object on it
+ * If more pages exist, a pagination message carrying the next cursor and the filters is
+ * queued so the consumer continues the listing without a client round-trip.
+ *
+ * @param env - Environment bindings
+ * @param options - Cursor, run id, page size and filters
+ */
+export async function queueListingPage(env: Env, options: ListingPageOptions = {}): Promise<ListingPage> {
+	const { cursor, runId, limit = R2_LIST_LIMIT, filters = {} } = options;
+
+	const page = await listPage(env, cursor, limit, filters);
+
+	// Send in batches of 100 (queue batch limit)
+	const allMessages = page.keys.map((objectKey) => ({
+		body: { objectKey, runId },
+	}));
+
+	let queued = 0;
+	for (let i = 0; i < allMessages.length; i += QUEUE_BATCH_LIMIT) {
+		const batch = allMessages.slice(i, i + QUEUE_BATCH_LIMIT);
+		await env.JSON_QUEUE.sendBatch(batch);
+		queued += batch.length;
+	}
+
+	// If more pages exist, send pagination message to trigger next page
+	if (page.hasMore) {
+		await env.JSON_QUEUE.send({
+			type: 'pagination',
+			cursor: page.cursor,
+			runId,
+			filters,
+		});
+	}
+
+	// Counted after sending so the run never expects files that were not queued
+	if (runId) {
+		await recordListedPage(env.DB, runId, queued, !page.hasMore);
+	}
+
+	return { queued, hasMore: page.hasMore };
+}
+
+/**
+ * List one page of SR_JSON and validate every matching object without writing to D1
+ * Results carry the outcome each object would have had (inserted, updated or unchanged).
+ * Nothing is queued; the caller pages on with the returned cursor.
+ *
+ * @param env - Environment bindings
+ * @param options - Cursor, page size (defaults to DRY_RUN_LIST_LIMIT) and filters
+ */
+export async function dryRunListingPage(env: Env, options: ListingPageOptions = {}): Promise<DryRunPage> {
+	const { cursor, limit = DRY_RUN_LIST_LIMIT, filters = {} } = options;
+
+	const page = await listPage(env, cursor, limit, filters);
+
+	const results: ValidationResult[] = [];
+	for (const objectKey of page.keys) {
+		try {
+			results.push(await processJsonFromR2(objectKey, env.SR_JSON, env.DB, { dryRun: true, typeAliases: typeAliases(env) }));
+		} catch (error) {
+			// A storage error only affects this object's report
+			if (!(error instanceof TransientIngestError)) throw error;
+			results.push({ valid: false, objectKey, error: error.message });
+		}
+	}
+
+	return { checked: results.length, hasMore: page.hasMore, cursor: page.cursor, results };
+}
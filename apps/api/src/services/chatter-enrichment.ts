@@ -0,0 +1,248 @@
+/**
+ * Asynchronous chatter enrichment
+ * POST /api/chatters?enrich=async stores the chatter without an environment and answers at once;
+ * a queue message then enriches it and stores the enriched document as a new version that
+ * `supersedes` the raw one, as an edit would. The chatter_enrichments row, keyed by the id the
+ * post was answered with, tracks the enrichment for the status endpoint.
+ *
+ * Enrichment applies to the latest version of the chatter, so an edit made before the message is
+ * delivered is kept. A chatter deleted in the meantime is not enriched.
+ *
+ * A message that could not be sent is made up for by the cron trigger, which queues pending
+ * enrichments again once they have been left alone for STALE_ENRICHMENT_MS.
+ */
+
+import { and, eq, lte, or, sql } from 'drizzle-orm';
+import type { Env } from '../types/env';
+import type { Chatter, ChatterData, CreateChatterRequest } from '../types/chatter';
+import { connectD1, schema } from '../db/client';
+import {
+	buildSlug,
+	createRawChatter,
+	getChatterHistory,
+	replaceChatterVersion,
+	reserveSlug,
+	storeNewChatter,
+	withRowPublication,
+} from './chatter-service';
+import { getChatterRow } from './chatter-query';
+import { enrichChatter as enrichWithEnvironment } from './environment/enrichment';
+
+/**
+ * Enrichment modes of POST /api/chatters
+ * - sync: the chatter is enriched before it is stored (the default)
+ * - async: the chatter is stored at once and enriched from the queue
+ */
+export const ENRICHMENT_MODES = ['sync', 'async'] as const;
+
+export type EnrichmentMode = (typeof ENRICHMENT_MODES)[number];
+
+/**
+ * How long a pending enrichment may go untouched before the cron trigger queues it again
+ * Longer than the queue's retries take in total (see retryDelaySeconds), so messages still
+ * being retried are left alone.
+ */
+export const STALE_ENRICHMENT_MS = 30 * 60 * 1000;
+
+/**
+ * Most stale enrichments queued again per cron run
+ */
+const REQUEUE_BATCH_SIZE = 100;
+
+/**
+ * Queue message enriching a chatter posted with ?enrich=async
+ */
+export interface ChatterEnrichmentMessageBody {
+	type: 'chatter-enrichment';
+	/** Id of the chatter as first stored */
+	id: string;
+}
+
+/**
+ * Enrichment as exposed by the status endpoint
+ */
+export interface ChatterEnrichmentItem {
+	/** Id of the chatter as first stored, without an environment */
+	id: string;
+	status: 'pending' | 'completed' | 'failed';
+	/** Version carrying the environment; the current version when there was nothing to enrich; null until completed */
+	version_id: string | null;
+	error: string | null;
+	attempts: number;
+	requested_at: string;
+	updated_at: string;
+	completed_at: string | null;
+}
+
+/**
+ * Path of the status endpoint for an enrichment
+ */
+export function enrichmentStatusPath(id: string): string {
+	return `/api/chatters/${id}/enrichment`;
+}
+
+/**
+ * Store a chatter without an environment and queue its enrichment
+ * @param request - Client request
+ * @param env - Environment bindings
+ * @returns The stored chatter with storage metadata
+ */
+export async function createAndQueueChatter(request: CreateChatterRequest, env: Env): Promise<Chatter & { _meta: { objectKey: string } }> {
+	const slug = await reserveSlug(env.DB, buildSlug(request), request);
+	const { chatter, objectKey } = await storeNewChatter(await createRawChatter(request, env, slug), request, env);
+
+	const orm = connectD1(env.DB);
+	await orm.insert(schema.chatterEnrichments).values({ id: chatter.id }).onConflictDoNothing();
+
+	// The chatter is stored either way; a message that was not sent is queued again by the cron trigger
+	try {
+		await queueChatterEnrichment(env, chatter.id);
+	} catch (error) {
+		console.error(`Queueing the enrichment of ${chatter.id} failed:`, error);
+	}
+
+	return {
+		...chatter,
+		_meta: {
+			objectKey,
+		},
+	};
+}
+
+/**
+ * Queue the enrichment of a chatter
+ */
+export async function queueChatterEnrichment(env: Env, id: string): Promise<void> {
+	const body: ChatterEnrichmentMessageBody = { type: 'chatter-enrichment', id };
+	await env.JSON_QUEUE.send(body);
+}
+
+/**
+ * Queue again the pending enrichments that have not been touched for STALE_ENRICHMENT_MS
+ * Covers messages that were never sent or were lost. Each one is touched once queued, so it is
+ * not queued again before another STALE_ENRICHMENT_MS has passed.
+ * @param env - Environment bindings
+ * @param now - Time of the cron run
+ * @returns Ids of the enrichments queued again
+ */
+export async function requeueStaleEnrichments(env: Env, now: Date): Promise<string[]> {
+	const orm = connectD1(env.DB);
+	const { chatterEnrichments: enrichments } = schema;
+	const stale = await orm
+		.select({ id: enrichments.id })
+		.from(enrichments)
+		.where(and(eq(enrichments.status, 'pending'), lte(enrichments.updatedAt, new Date(now.getTime() - STALE_ENRICHMENT_MS))))
+		.orderBy(enrichments.updatedAt)
+		.limit(REQUEUE_BATCH_SIZE);
+
+	const requeued: string[] = [];
+	for (const { id } of stale) {
+		await queueChatterEnrichment(env, id);
+		await orm.update(enrichments).set({ updatedAt: now }).where(eq(enrichments.id, id));
+		requeued.push(id);
+	}
+
+	return requeued;
+}
+
+/**
+ * Load an enrichment by the id the post was answered with, or by the enriched version's id
+ */
+export async function getChatterEnrichment(db: D1Database, id: string): Promise<ChatterEnrichmentItem | null> {
+	const orm = connectD1(db);
+	const { chatterEnrichments: enrichments } = schema;
+	const [row] = await orm
+		.select()
+		.from(enrichments)
+		.where(or(eq(enrichments.id, id), eq(enrichments.versionId, id)))
+		.limit(1);
+	if (!row) {
+		return null;
+	}
+
+	return {
+		id: row.id,
+		status: row.status,
+		version_id: row.versionId,
+		error: row.error,
+		attempts: row.attempts,
+		requested_at: row.requestedAt.toISOString(),
+		updated_at: row.updatedAt.toISOString(),
+		completed_at: row.completedAt ? row.completedAt.toISOString() : null,
+	};
+}
+
+/**
+ * Enrich the latest version of a chatter and complete its enrichment
+ * A delivery of an enrichment that is no longer pending does nothing, and a version that already
+ * has an environment (e.g. from a delivery that failed after storing it) is not enriched again.
+ * @param id - Id of the chatter as first stored
+ * @returns The enrichment after processing, or null if there is none for the id
+ * @throws Error when reading or storing the chatter fails; the message should be retried
+ */
+export async function processChatterEnrichment(env: Env, id: string): Promise<ChatterEnrichmentItem | null> {
+	const orm = connectD1(env.DB);
+	const { chatterEnrichments: enrichments } = schema;
+
+	const [enrichment] = await orm.select().from(enrichments).where(eq(enrichments.id, id)).limit(1);
+	if (!enrichment || enrichment.status !== 'pending') {
+		return getChatterEnrichment(env.DB, id);
+	}
+
+	await orm
+		.update(enrichments)
+		.set({ attempts: sql`${enrichments.attempts} + 1`, updatedAt: sql`(unixepoch())` })
+		.where(eq(enrichments.id, id));
+
+	const [latest] = (await getChatterHistory(id, env)) ?? [];
+	if (!latest || latest.deleted_at) {
+		await failChatterEnrichment(env, id, 'Chatter was deleted before it was enriched');
+		return getChatterEnrichment(env.DB, id);
+	}
+
+	const previous = latest.document;
+	if (previous.data.environment) {
+		await completeChatterEnrichment(env, id, previous.id);
+		return getChatterEnrichment(env.DB, id);
+	}
+
+	const row = await getChatterRow(env.DB, previous.id);
+	if (!row) {
+		throw new Error(`Chatter ${previous.id} has no hot row`);
+	}
+
+	// Chatters without a location_hint or place come back without an environment
+	const { environment } = await enrichWithEnvironment(previous.data as unknown as CreateChatterRequest, env);
+	if (!environment) {
+		await completeChatterEnrichment(env, id, previous.id);
+		return getChatterEnrichment(env.DB, id);
+	}
+
+	// The row may have been published by the cron trigger since the document was stored
+	const data: ChatterData = { ...withRowPublication(previous.data, row), environment, supersedes: previous.id };
+	const version = await replaceChatterVersion(row, previous, data, env);
+
+	await completeChatterEnrichment(env, id, version.id);
+	return getChatterEnrichment(env.DB, id);
+}
+
+/**
+ * Give up on an enrichment; the chatter stays as stored, without an environment
+ */
+export async function failChatterEnrichment(env: Env, id: string, error: string): Promise<void> {
+	const orm = connectD1(env.DB);
+	const { chatterEnrichments: enrichments } = schema;
+	await orm
+		.update(enrichments)
+		.set({ status: 'failed', error, updatedAt: sql`(unixepoch())`, completedAt: sql`(unixepoch())` })
+		.where(eq(enrichments.id, id));
+}
+
+async function completeChatterEnrichment(env: Env, id: string, versionId: string): Promise<void> {
+	const orm = connectD1(env.DB);
+	const { chatterEnrichments: enrichments } = schema;
+	await orm
+		.update(enrichments)
+		.set({ status: 'completed', versionId, error: null, updatedAt: sql`(unixepoch())`, completedAt: sql`(unixepoch())` })
+		.where(eq(enrichments.id, id));
+}
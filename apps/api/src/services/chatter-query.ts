@@ -0,0 +1,226 @@
+/**
+ * Chatter query service
+ * Reads chatter hot rows from D1 and full documents from R2
+ */
+
+import { and, desc, eq, gte, inArray, lt, lte, or, type SQL } from 'drizzle-orm';
+import type { Env } from '../types/env';
+import type { Chatter, ChatterData, ChatterStatus } from '../types/chatter';
+import { connectD1, schema } from '../db/client';
+import { normalizeTag } from './tags';
+
+/**
+ * R2 custom metadata set on a scheduled version once the cron trigger published it (value: ISO timestamp)
+ * Documents are content-addressed, so the status they record cannot be rewritten in place.
+ */
+export const PUBLISHED_AT_METADATA = 'published-at';
+
+/**
+ * Default and maximum page sizes for list queries
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * Publication states a chatter can be in
+ */
+export const CHATTER_STATUSES: readonly ChatterStatus[] = schema.chatter.status.enumValues;
+
+/**
+ * Filters accepted by the chatter list query
+ */
+export interface ChatterListFilters {
+	year?: number;
+	month?: string;
+	tag?: string;
+	publish?: boolean;
+	status?: ChatterStatus;
+	from?: Date;
+	to?: Date;
+	cursor?: string;
+	limit?: number;
+}
+
+/**
+ * Chatter hot row as exposed by the read API
+ */
+export interface ChatterListItem {
+	id: string;
+	date_posted: string;
+	year: number;
+	month: string;
+	slug: string;
+	publish: boolean;
+	status: ChatterStatus;
+	publish_at: string | null;
+	r2_key: string;
+}
+
+/**
+ * One page of chatter list results
+ */
+export interface ChatterListPage {
+	items: ChatterListItem[];
+	next_cursor: string | null;
+}
+
+/**
+ * Error thrown when a pagination cursor cannot be decoded
+ */
+export class InvalidCursorError extends Error {
+	constructor(message = 'Invalid cursor') {
+		super(message);
+		this.name = 'InvalidCursorError';
+	}
+}
+
+/**
+ * Encode the position of the last row of a page as an opaque cursor
+ * Rows are ordered by (date_posted DESC, id DESC), so both values are needed
+ */
+function encodeCursor(datePosted: Date, id: string): string {
+	return btoa(JSON.stringify([datePosted.getTime(), id]));
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+function decodeCursor(cursor: string): { datePosted: Date; id: string } {
+	try {
+		const [time, id] = JSON.parse(atob(cursor));
+		if (typeof time !== 'number' || typeof id !== 'string') {
+			throw new Error('Malformed cursor');
+		}
+		return { datePosted: new Date(time), id };
+	} catch {
+		throw new InvalidCursorError();
+	}
+}
+
+/**
+ * Map a D1 chatter row to the API representation
+ */
+function toListItem(row: schema.Chatter): ChatterListItem {
+	return {
+		id: row.id,
+		date_posted: row.datePosted.toISOString(),
+		year: row.year,
+		month: row.month,
+		slug: row.slug,
+		publish: row.publish,
+		status: row.status,
+		publish_at: row.publishAt ? row.publishAt.toISOString() : null,
+		r2_key: row.r2Key,
+	};
+}
+
+/**
+ * List chatter hot rows with filtering and cursor-based pagination
+ * @param db - D1 database binding
+ * @param filters - Query filters
+ * @returns One page of results and the cursor for the next page (null when exhausted)
+ */
+export async function listChatters(db: D1Database, filters: ChatterListFilters): Promise<ChatterListPage> {
+	const orm = connectD1(db);
+	const { chatter, chatterTags, tags } = schema;
+	const limit = Math.min(Math.max(filters.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+	const conditions: SQL[] = [];
+
+	if (filters.year !== undefined) {
+		conditions.push(eq(chatter.year, filters.year));
+	}
+
+	if (filters.month !== undefined) {
+		conditions.push(eq(chatter.month, filters.month));
+	}
+
+	if (filters.publish !== undefined) {
+		conditions.push(eq(chatter.publish, filters.publish));
+	}
+
+	if (filters.status !== undefined) {
+		conditions.push(eq(chatter.status, filters.status));
+	}
+
+	if (filters.from) {
+		conditions.push(gte(chatter.datePosted, filters.from));
+	}
+
+	if (filters.to) {
+		conditions.push(lte(chatter.datePosted, filters.to));
+	}
+
+	if (filters.tag) {
+		const tagged = orm
+			.select({ id: chatterTags.chatterId })
+			.from(chatterTags)
+			.innerJoin(tags, eq(tags.id, chatterTags.tagId))
+			.where(eq(tags.name, normalizeTag(filters.tag)));
+		conditions.push(inArray(chatter.id, tagged));
+	}
+
+	if (filters.cursor) {
+		const position = decodeCursor(filters.cursor);
+		conditions.push(
+			or(lt(chatter.datePosted, position.datePosted), and(eq(chatter.datePosted, position.datePosted), lt(chatter.id, position.id)))!
+		);
+	}
+
+	// Fetch one extra row to find out whether another page exists
+	const rows = await orm
+		.select()
+		.from(chatter)
+		.where(and(...conditions))
+		.orderBy(desc(chatter.datePosted), desc(chatter.id))
+		.limit(limit + 1);
+
+	const hasMore = rows.length > limit;
+	const page = hasMore ? rows.slice(0, limit) : rows;
+	const last = page[page.length - 1];
+
+	return {
+		items: page.map(toListItem),
+		next_cursor: hasMore && last ? encodeCursor(last.datePosted, last.id) : null,
+	};
+}
+
+/**
+ * Load a chatter hot row by id
+ */
+export async function getChatterRow(db: D1Database, id: string): Promise<schema.Chatter | null> {
+	const orm = connectD1(db);
+	const rows = await orm.select().from(schema.chatter).where(eq(schema.chatter.id, id)).limit(1);
+	return rows[0] ?? null;
+}
+
+/**
+ * Load the full enriched chatter document from R2
+ * @param env - Environment bindings
+ * @param r2Key - Object key recorded on the hot row
+ * @returns The stored document, or null if the object is missing
+ */
+export async function getChatterDocument(env: Env, r2Key: string): Promise<Chatter | null> {
+	const object = await env.SR_JSON.get(r2Key);
+	if (!object) {
+		return null;
+	}
+
+	const document = await object.json<Chatter>();
+	return { ...document, data: withPublishedMark(document.data, object.customMetadata) };
+}
+
+/**
+ * Apply the published-at mark of a stored version to its data
+ * A scheduled chatter published by the cron trigger then reads as published, as its hot row does.
+ * @param data - Data of the stored version
+ * @param customMetadata - Custom metadata of its R2 object
+ */
+export function withPublishedMark(data: ChatterData, customMetadata: Record<string, string> | undefined): ChatterData {
+	if (data.status !== 'scheduled' || customMetadata?.[PUBLISHED_AT_METADATA] === undefined) {
+		return data;
+	}
+
+	const { publish_at: _publishAt, ...rest } = data;
+	return { ...rest, status: 'published', publish: true };
+}
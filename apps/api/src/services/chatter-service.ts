@@ -1,11 +1,157 @@
 /**
  * Chatter service
- * Handles chatter creation, enrichment, and storage
+ * Handles chatter creation, enrichment, storage, editing and deletion
+ *
+ * Chatter ids are content hashes, so an edit stores a new version whose data records
+ * `supersedes: <previous id>`. Replaced and deleted versions stay in R2 for history and are
+ * marked with custom metadata; only the current version has a D1 hot row.
  */
 
+import { and, eq, inArray, lte, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
 import type { Env } from '../types/env';
-import type { CreateChatterRequest, Chatter } from '../types/chatter';
-import { enrichChatter as enrichWithEnvironment } from './environment/enrichment';
+import type { CreateChatterRequest, Chatter, ChatterData, ChatterStatus, UpdateChatterRequest } from '../types/chatter';
+import { connectD1, schema } from '../db/client';
+import { buildChatterData, enrichChatter as enrichWithEnvironment } from './environment/enrichment';
+import { getChatterDocument, getChatterRow, PUBLISHED_AT_METADATA, withPublishedMark } from './chatter-query';
+import type { JsonSchemaError } from './json-schema';
+import { buildTagStatements, normalizeTags } from './tags';
+import { buildPhotographLinkStatements, referencedPhotographIds, resolveImageReferences } from './photographs';
+
+/**
+ * Maximum length of the text portion of a generated slug
+ */
+const MAX_SLUG_TEXT_LENGTH = 60;
+
+/**
+ * Number of numbered suffixes tried after the hash suffix before giving up
+ */
+const MAX_SLUG_ATTEMPTS = 20;
+
+/**
+ * Number of times a new chatter is stored again under another slug after a concurrent post took its slug
+ */
+const MAX_SLUG_RACE_RETRIES = 3;
+
+/**
+ * Maximum number of versions returned by getChatterHistory
+ */
+export const MAX_HISTORY_LENGTH = 100;
+
+/**
+ * R2 custom metadata set on a version once an edit replaced it (value: the new id)
+ */
+export const SUPERSEDED_BY_METADATA = 'superseded-by';
+
+/**
+ * R2 custom metadata set on a version when the chatter was deleted (value: ISO timestamp)
+ */
+export const DELETED_AT_METADATA = 'deleted-at';
+
+/**
+ * Error thrown when an edit or delete targets a chatter without a current hot row
+ */
+export class ChatterNotFoundError extends Error {
+	constructor(id: string) {
+		super(`Chatter not found: ${id}`);
+		this.name = 'ChatterNotFoundError';
+	}
+}
+
+/**
+ * Error thrown when the slug of a new chatter was taken after reserveSlug found it free
+ */
+export class SlugConflictError extends Error {
+	constructor(slug: string) {
+		super(`Slug already taken: ${slug}`);
+		this.name = 'SlugConflictError';
+	}
+}
+
+/**
+ * Error thrown when a chatter request breaks a rule its JSON schema cannot express
+ * Carries field-level errors in the same shape as validateJsonSchema
+ */
+export class ChatterValidationError extends Error {
+	constructor(public readonly errors: JsonSchemaError[]) {
+		super(errors.map((error) => `${error.path} ${error.message}`).join(', '));
+		this.name = 'ChatterValidationError';
+	}
+}
+
+/**
+ * Publication fields recorded on a chatter document
+ */
+type Publication = Pick<ChatterData, 'status' | 'publish' | 'publish_at'>;
+
+type Orm = ReturnType<typeof connectD1>;
+
+/**
+ * Resolve the publication state of a chatter
+ * status takes precedence; older clients only send publish (false = draft).
+ * publish always mirrors status === 'published' so publish-based filters keep working,
+ * and publish_at is only kept for scheduled chatters.
+ * @throws ChatterValidationError if a scheduled chatter has no publish_at
+ */
+export function resolvePublication(status: ChatterStatus | undefined, publish: boolean | undefined, publishAt: string | undefined): Publication {
+	const resolved = status ?? (publish === false ? 'draft' : 'published');
+
+	if (resolved !== 'scheduled') {
+		return { status: resolved, publish: resolved === 'published' };
+	}
+
+	if (!publishAt) {
+		throw new ChatterValidationError([{ path: 'publish_at', message: 'is required when status is scheduled' }]);
+	}
+	return { status: resolved, publish: false, publish_at: publishAt };
+}
+
+/**
+ * Replace the publication fields of chatter data
+ */
+function withPublication(data: ChatterData, publication: Publication): ChatterData {
+	const { status: _status, publish: _publish, publish_at: _publishAt, ...rest } = data;
+	return { ...rest, ...publication };
+}
+
+/**
+ * Replace the publication fields of chatter data with those of its hot row
+ * The row is authoritative: the cron trigger publishes scheduled chatters in D1 only, so a
+ * stored document may still say "scheduled". New versions must carry the row's state forward.
+ */
+export function withRowPublication(data: ChatterData, row: schema.Chatter): ChatterData {
+	const publication: Publication =
+		row.status === 'scheduled' && row.publishAt
+			? { status: 'scheduled', publish: false, publish_at: row.publishAt.toISOString() }
+			: { status: row.status, publish: row.status === 'published' };
+	return withPublication(data, publication);
+}
+
+/**
+ * One version of a chatter, newest first in getChatterHistory
+ */
+export interface ChatterVersion {
+	id: string;
+	r2_key: string;
+	superseded_by: string | null;
+	deleted_at: string | null;
+	document: Chatter;
+}
+
+/**
+ * R2 key a chatter version is stored under
+ */
+export function chatterObjectKey(id: string): string {
+	return `chatter/sha256_${id.replace('sha256:', '')}.json`;
+}
+
+/**
+ * Whether a stored version was replaced (by an edit or the environment backfill) or deleted
+ * Retired versions must not be re-ingested into D1
+ */
+export function isRetiredVersion(customMetadata: Record<string, string> | undefined): boolean {
+	return customMetadata?.[SUPERSEDED_BY_METADATA] !== undefined || customMetadata?.[DELETED_AT_METADATA] !== undefined;
+}
 
 /**
  * Serialize object to canonical JSON with stable key ordering
@@ -19,7 +165,10 @@ function canonicalJSON(obj: any): string {
 		return '[' + obj.map((item) => canonicalJSON(item)).join(',') + ']';
 	}
 
-	const keys = Object.keys(obj).sort();
+	// Undefined values are left out, as JSON.stringify leaves them out of the stored document
+	const keys = Object.keys(obj)
+		.filter((key) => obj[key] !== undefined)
+		.sort();
 	const pairs = keys.map((key) => `"${key}":${canonicalJSON(obj[key])}`);
 	return '{' + pairs.join(',') + '}';
 }
@@ -27,7 +176,7 @@ function canonicalJSON(obj: any): string {
 /**
  * Compute SHA-256 hash of JSON data
  */
-async function hashJSON(data: Record<string, any>): Promise<string> {
+export async function hashJSON(data: Record<string, any>): Promise<string> {
 	const canonical = canonicalJSON(data);
 	const encoder = new TextEncoder();
 	const buffer = encoder.encode(canonical);
@@ -36,30 +185,132 @@ async function hashJSON(data: Record<string, any>): Promise<string> {
 	return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
 
+/**
+ * Convert free text into a URL-safe slug fragment
+ */
+function slugify(text: string): string {
+	return text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, MAX_SLUG_TEXT_LENGTH)
+		.replace(/-+$/g, '');
+}
+
+/**
+ * Build the base slug for a chatter: date prefix plus slugified title or content
+ * e.g. "2010-12-03-traffic-sucks-this-week"
+ */
+export function buildSlug(request: CreateChatterRequest): string {
+	const datePrefix = new Date(request.date_posted).toISOString().slice(0, 10);
+	const text = slugify(request.title || request.content) || 'chatter';
+	return `${datePrefix}-${text}`;
+}
+
+/**
+ * Find a slug that does not collide with the chatter_slug_unique index
+ * Tries the base slug, then the base slug with a short content hash, then numbered variants
+ * @param db - D1 database binding
+ * @param baseSlug - Slug built from the request
+ * @param request - Client request (used to derive the hash suffix)
+ * @returns A slug not currently used by any chatter row
+ */
+export async function reserveSlug(db: D1Database, baseSlug: string, request: CreateChatterRequest): Promise<string> {
+	const orm = connectD1(db);
+	const shortHash = (await hashJSON(request)).slice(0, 7);
+
+	const candidates = [baseSlug, `${baseSlug}-${shortHash}`];
+	for (let i = 2; i < MAX_SLUG_ATTEMPTS; i++) {
+		candidates.push(`${baseSlug}-${shortHash}-${i}`);
+	}
+
+	for (const candidate of candidates) {
+		const existing = await orm
+			.select({ id: schema.chatter.id })
+			.from(schema.chatter)
+			.where(eq(schema.chatter.slug, candidate))
+			.limit(1);
+		if (existing.length === 0) {
+			return candidate;
+		}
+	}
+
+	throw new Error(`Unable to find an unused slug for ${baseSlug}`);
+}
+
 /**
  * Create and enrich a chatter
  * @param request - Client request
  * @param env - Environment bindings
  * @param useMock - Use mock data for testing
+ * @param slug - Slug to record on the chatter (defaults to the base slug)
  * @returns Complete Chatter object with ID
  */
 export async function createChatter(
 	request: CreateChatterRequest,
 	env: Env,
-	useMock = false
+	useMock = false,
+	slug = buildSlug(request)
 ): Promise<Chatter> {
+	// Reject an unschedulable request or an unknown image before calling any provider
+	const publication = resolvePublication(request.status, request.publish, request.publish_at);
+	const images = await resolveImages(request.images, env);
+
 	// Enrich chatter with environmental data
-	const enrichedData = await enrichWithEnvironment(request, env, useMock);
+	const data = await enrichWithEnvironment(request, env, useMock);
+	return toChatter(request, { ...data, images }, publication, slug);
+}
 
-	// Compute SHA256 hash of enriched chatter data
-	const hash = await hashJSON(enrichedData);
+/**
+ * Create a chatter without environmental data, to be enriched later as a new version
+ * (see chatter-enrichment.ts)
+ * @param request - Client request
+ * @param env - Environment bindings
+ * @param slug - Slug to record on the chatter (defaults to the base slug)
+ * @returns Complete Chatter object with ID
+ */
+export async function createRawChatter(request: CreateChatterRequest, env: Env, slug = buildSlug(request)): Promise<Chatter> {
+	const publication = resolvePublication(request.status, request.publish, request.publish_at);
+	const images = await resolveImages(request.images, env);
+	return toChatter(request, { ...buildChatterData(request), images }, publication, slug);
+}
+
+/**
+ * Resolve the artifact keys among a request's images into photograph references
+ * @throws ChatterValidationError if a key is not an uploaded image
+ */
+async function resolveImages(images: string[] | undefined, env: Env): Promise<ChatterData['images']> {
+	const resolved = await resolveImageReferences(images ?? [], env.DB);
+	if (resolved.errors.length > 0) {
+		throw new ChatterValidationError(resolved.errors);
+	}
+	return resolved.images;
+}
+
+/**
+ * Build the envelope of a new chatter from its data
+ */
+async function toChatter(request: CreateChatterRequest, data: ChatterData, publication: Publication, slug: string): Promise<Chatter> {
+	const chatterData = withPublication(data, publication);
+
+	// Record the queryable fields the D1 hot row is built from,
+	// so re-ingesting the R2 document produces the same row
+	const datePosted = new Date(request.date_posted);
+	chatterData.year = datePosted.getUTCFullYear();
+	chatterData.month = datePosted.toISOString().slice(0, 7);
+	chatterData.slug = slug;
+
+	// Compute SHA256 hash of chatter data
+	const hash = await hashJSON(chatterData);
 
 	// Build final Chatter envelope
 	const chatter: Chatter = {
 		type: 'chatter',
 		id: `sha256:${hash}`,
 		schema_version: '1.1.0',
-		data: enrichedData,
+		data: chatterData,
 	};
 
 	return chatter;
@@ -76,7 +327,7 @@ export async function storeChatter(
 	env: Env
 ): Promise<{ objectKey: string; id: string }> {
 	const hash = chatter.id.replace('sha256:', '');
-	const objectKey = `chatter/sha256_${hash}.json`;
+	const objectKey = chatterObjectKey(chatter.id);
 
 	try {
 		await env.SR_JSON.put(objectKey, JSON.stringify(chatter, null, 2), {
@@ -101,8 +352,318 @@ export async function storeChatter(
 	};
 }
 
+/**
+ * Build the chatter hot row for a stored chatter
+ * @param chatter - Complete Chatter object (must carry year, month and slug)
+ * @param objectKey - R2 key the chatter was stored under
+ */
+function toChatterRow(chatter: Chatter, objectKey: string): schema.NewChatter {
+	const { data } = chatter;
+	if (data.year === undefined || data.month === undefined || data.slug === undefined) {
+		throw new Error('Chatter is missing year, month or slug');
+	}
+
+	return {
+		id: chatter.id,
+		datePosted: new Date(data.date_posted),
+		year: data.year,
+		month: data.month,
+		slug: data.slug,
+		publish: data.publish !== undefined ? data.publish : true,
+		status: data.status ?? (data.publish === false ? 'draft' : 'published'),
+		publishAt: data.publish_at ? new Date(data.publish_at) : null,
+		r2Key: objectKey,
+	};
+}
+
+/**
+ * Insert the chatter hot row, its tag links and its photograph links into D1
+ * @param chatter - Complete Chatter object (must carry year, month and slug)
+ * @param objectKey - R2 key the chatter was stored under
+ * @param env - Environment bindings
+ * @throws SlugConflictError if another chatter row holds the slug
+ */
+export async function recordChatter(chatter: Chatter, objectKey: string, env: Env): Promise<void> {
+	const row = toChatterRow(chatter, objectKey);
+	const orm = connectD1(env.DB);
+
+	try {
+		await orm.batch([
+			orm.insert(schema.chatter).values(row).onConflictDoNothing({ target: schema.chatter.id }),
+			...buildTagStatements(orm, 'chatter', chatter.id, normalizeTags(chatter.data.tags)),
+			...buildPhotographLinkStatements(orm, chatter.id, referencedPhotographIds(chatter.data.images)),
+		]);
+	} catch (error) {
+		if (isSlugConflict(error)) {
+			throw new SlugConflictError(row.slug);
+		}
+		throw new Error(`D1 insert failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+}
+
+/**
+ * Whether a D1 error is a violation of the chatter_slug_unique index
+ * drizzle wraps the D1 error, so its cause is checked too.
+ */
+function isSlugConflict(error: unknown): boolean {
+	let current = error;
+	while (current instanceof Error) {
+		if (/UNIQUE constraint failed: chatter\.slug/.test(current.message)) {
+			return true;
+		}
+		current = (current as Error & { cause?: unknown }).cause;
+	}
+	return false;
+}
+
+/**
+ * Store a new chatter in R2 and index it in D1
+ * reserveSlug only checks the slug, so a concurrent post can take it before the row is
+ * inserted. The object stored under the lost slug is then deleted, and the chatter is
+ * stored again under the next free slug, which gives it a new id.
+ * @param chatter - Complete Chatter object, built with a slug from reserveSlug
+ * @param request - Client request the chatter was built from (used to pick another slug)
+ * @param env - Environment bindings
+ * @returns The chatter as stored, and its object key
+ */
+export async function storeNewChatter(
+	chatter: Chatter,
+	request: CreateChatterRequest,
+	env: Env
+): Promise<{ chatter: Chatter; objectKey: string }> {
+	for (let retry = 0; ; retry++) {
+		const { objectKey } = await storeChatter(chatter, env);
+		try {
+			await recordChatter(chatter, objectKey, env);
+			return { chatter, objectKey };
+		} catch (error) {
+			if (!(error instanceof SlugConflictError) || retry >= MAX_SLUG_RACE_RETRIES) {
+				throw error;
+			}
+
+			await env.SR_JSON.delete(objectKey);
+			const slug = await reserveSlug(env.DB, buildSlug(request), request);
+			const data: ChatterData = { ...chatter.data, slug };
+			chatter = { ...chatter, id: `sha256:${await hashJSON(data)}`, data };
+		}
+	}
+}
+
+/**
+ * Add custom metadata to a stored object (e.g. a retired chatter version)
+ * R2 cannot update metadata in place, so the object is rewritten with its own body
+ */
+export async function markStoredObject(env: Env, objectKey: string, metadata: Record<string, string>): Promise<void> {
+	const object = await env.SR_JSON.get(objectKey);
+	if (!object) {
+		throw new Error(`Object not found in storage: ${objectKey}`);
+	}
+
+	await env.SR_JSON.put(objectKey, await object.text(), {
+		httpMetadata: object.httpMetadata,
+		customMetadata: { ...object.customMetadata, ...metadata },
+	});
+}
+
+
+/**
+ * Edit a chatter by storing a new version that supersedes the current one
+ * The date, slug, place and environment snapshot of the original post are kept.
+ * @param id - Id of the current version
+ * @param patch - Fields to change
+ * @param env - Environment bindings
+ * @returns The new version with storage metadata
+ * @throws ChatterNotFoundError if the id is not a current chatter
+ * @throws ChatterValidationError if the patch cannot be applied (e.g. an image that was never uploaded)
+ */
+export async function updateChatter(
+	id: string,
+	patch: UpdateChatterRequest,
+	env: Env
+): Promise<Chatter & { _meta: { objectKey: string } }> {
+	const row = await getChatterRow(env.DB, id);
+	if (!row) {
+		throw new ChatterNotFoundError(id);
+	}
+
+	const previous = await getChatterDocument(env, row.r2Key);
+	if (!previous) {
+		throw new Error(`Chatter data not found in storage: ${row.r2Key}`);
+	}
+
+	// Documents written before year/month/slug were recorded take them from the hot row,
+	// and the publication state always comes from the row (see withRowPublication)
+	const merged: ChatterData = {
+		year: row.year,
+		month: row.month,
+		slug: row.slug,
+		...withRowPublication(previous.data, row),
+		...patch,
+		...(patch.images ? { images: await resolveImages(patch.images, env) } : {}),
+		supersedes: previous.id,
+	};
+
+	// A patch carrying only publish replaces the previous status
+	const status = patch.status ?? (patch.publish === undefined ? merged.status : undefined);
+	const data = withPublication(merged, resolvePublication(status, merged.publish, merged.publish_at));
+
+	return replaceChatterVersion(row, previous, data, env);
+}
+
+/**
+ * Record that one record of a JSONL object was replaced, so re-ingesting the object skips it
+ * Recording it again (a later replacement of the same record) keeps the newest replacement.
+ */
+export function buildSupersededRecordStatement(orm: Orm, id: string, objectKey: string, supersededBy: string): BatchItem<'sqlite'> {
+	return orm
+		.insert(schema.supersededRecords)
+		.values({ id, objectKey, supersededBy })
+		.onConflictDoUpdate({ target: schema.supersededRecords.id, set: { supersededBy } });
+}
+
+/**
+ * Store data as the next version of a chatter and move the hot row to it
+ * R2 is written first (new version, then the old one marked superseded) so that
+ * re-ingesting the bucket always rebuilds the hot row from the latest version.
+ * @param row - Hot row of the current version
+ * @param previous - Current version's document
+ * @param data - Data of the new version (should record `supersedes: previous.id`)
+ * @param env - Environment bindings
+ * @param options.shared - The current version is one record of a JSONL object: the object stays
+ *   live for the others, so the replacement is recorded in superseded_records instead
+ * @returns The new version with storage metadata
+ */
+export async function replaceChatterVersion(
+	row: schema.Chatter,
+	previous: Chatter,
+	data: ChatterData,
+	env: Env,
+	options: { shared?: boolean } = {}
+): Promise<Chatter & { _meta: { objectKey: string } }> {
+	const chatter: Chatter = {
+		type: 'chatter',
+		id: `sha256:${await hashJSON(data)}`,
+		schema_version: previous.schema_version || '1.1.0',
+		data,
+	};
+
+	const { objectKey } = await storeChatter(chatter, env);
+	if (!options.shared) {
+		await markStoredObject(env, row.r2Key, { [SUPERSEDED_BY_METADATA]: chatter.id });
+	}
+
+	// Move the hot row (and its slug) to the new version in one batch
+	const orm = connectD1(env.DB);
+	try {
+		await orm.batch([
+			orm.delete(schema.chatter).where(eq(schema.chatter.id, row.id)),
+			...(options.shared ? [buildSupersededRecordStatement(orm, row.id, row.r2Key, chatter.id)] : []),
+			...buildTagStatements(orm, 'chatter', row.id, []),
+			...buildPhotographLinkStatements(orm, row.id, []),
+			orm.insert(schema.chatter).values(toChatterRow(chatter, objectKey)),
+			...buildTagStatements(orm, 'chatter', chatter.id, normalizeTags(data.tags)),
+			...buildPhotographLinkStatements(orm, chatter.id, referencedPhotographIds(data.images)),
+		]);
+	} catch (error) {
+		throw new Error(`D1 update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+
+	return {
+		...chatter,
+		_meta: {
+			objectKey,
+		},
+	};
+}
+
+/**
+ * Delete a chatter
+ * The current version is tombstoned in R2 (kept for history) and its hot row removed.
+ * @param id - Id of the current version
+ * @param env - Environment bindings
+ * @returns The deletion time
+ * @throws ChatterNotFoundError if the id is not a current chatter
+ */
+export async function deleteChatter(id: string, env: Env): Promise<{ id: string; deleted_at: string }> {
+	const row = await getChatterRow(env.DB, id);
+	if (!row) {
+		throw new ChatterNotFoundError(id);
+	}
+
+	const deletedAt = new Date().toISOString();
+	await markStoredObject(env, row.r2Key, { [DELETED_AT_METADATA]: deletedAt });
+
+	const orm = connectD1(env.DB);
+	try {
+		await orm.batch([
+			orm.delete(schema.chatter).where(eq(schema.chatter.id, row.id)),
+			...buildTagStatements(orm, 'chatter', row.id, []),
+			...buildPhotographLinkStatements(orm, row.id, []),
+		]);
+	} catch (error) {
+		throw new Error(`D1 delete failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+
+	return { id: row.id, deleted_at: deletedAt };
+}
+
+/**
+ * Load one stored chatter version with its retirement metadata
+ */
+async function getChatterVersion(env: Env, id: string): Promise<ChatterVersion | null> {
+	const r2Key = chatterObjectKey(id);
+	const object = await env.SR_JSON.get(r2Key);
+	if (!object) {
+		return null;
+	}
+
+	const document = await object.json<Chatter>();
+	return {
+		id,
+		r2_key: r2Key,
+		superseded_by: object.customMetadata?.[SUPERSEDED_BY_METADATA] ?? null,
+		deleted_at: object.customMetadata?.[DELETED_AT_METADATA] ?? null,
+		document: { ...document, data: withPublishedMark(document.data, object.customMetadata) },
+	};
+}
+
+/**
+ * Walk the version chain of a chatter
+ * Starting from any version, follows superseded-by forward to the latest version, then
+ * supersedes back to the original post.
+ * @param id - Id of any version
+ * @param env - Environment bindings
+ * @returns Versions newest first, or null if the id was never stored
+ */
+export async function getChatterHistory(id: string, env: Env): Promise<ChatterVersion[] | null> {
+	let latest = await getChatterVersion(env, id);
+	if (!latest) {
+		return null;
+	}
+
+	const seen = new Set([latest.id]);
+	while (latest.superseded_by && !seen.has(latest.superseded_by) && seen.size < MAX_HISTORY_LENGTH) {
+		const next = await getChatterVersion(env, latest.superseded_by);
+		if (!next) break;
+		seen.add(next.id);
+		latest = next;
+	}
+
+	const versions = [latest];
+	let previousId = latest.document.data.supersedes;
+	while (previousId && versions.length < MAX_HISTORY_LENGTH && !versions.some((version) => version.id === previousId)) {
+		const previous = await getChatterVersion(env, previousId);
+		if (!previous) break;
+		versions.push(previous);
+		previousId = previous.document.data.supersedes;
+	}
+
+	return versions;
+}
+
 /**
  * Create and store a chatter (complete operation)
+ * Writes the document to R2 and the hot row to D1
  * @param request - Client request
  * @param env - Environment bindings
  * @param useMock - Use mock data for testing
@@ -113,17 +674,57 @@ export async function createAndStoreChatter(
 	env: Env,
 	useMock = false
 ): Promise<Chatter & { _meta: { objectKey: string } }> {
+	// Pick a slug that is free in D1 before the id is derived from the content
+	const slug = await reserveSlug(env.DB, buildSlug(request), request);
+
 	// Create enriched chatter
-	const chatter = await createChatter(request, env, useMock);
+	const created = await createChatter(request, env, useMock, slug);
 
-	// Store in R2
-	const { objectKey } = await storeChatter(chatter, env);
+	// Store in R2 and index in D1 so the chatter is immediately readable
+	const stored = await storeNewChatter(created, request, env);
 
 	// Return chatter with metadata
 	return {
-		...chatter,
+		...stored.chatter,
 		_meta: {
-			objectKey,
+			objectKey: stored.objectKey,
 		},
 	};
 }
+
+/**
+ * Publish scheduled chatters whose publish_at has passed
+ * The stored version of each one is marked published-at first, so that reading it or
+ * re-ingesting it agrees with the hot row (see withPublishedMark). Called by the scheduled
+ * (cron) handler.
+ * @param env - Environment bindings
+ * @param now - Current time
+ * @returns Ids of the chatters that were published
+ */
+export async function publishDueChatters(env: Env, now = new Date()): Promise<string[]> {
+	const orm = connectD1(env.DB);
+	const { chatter } = schema;
+	const isDue = and(eq(chatter.status, 'scheduled'), lte(chatter.publishAt, now));
+
+	const due = await orm.select({ id: chatter.id, r2Key: chatter.r2Key }).from(chatter).where(isDue);
+	if (due.length === 0) {
+		return [];
+	}
+
+	// A document that cannot be marked is still published; only a re-ingest would undo it
+	for (const row of due) {
+		try {
+			await markStoredObject(env, row.r2Key, { [PUBLISHED_AT_METADATA]: now.toISOString() });
+		} catch (error) {
+			console.error(`Marking ${row.r2Key} published failed:`, error);
+		}
+	}
+
+	const published = await orm
+		.update(chatter)
+		.set({ status: 'published', publish: true, updatedAt: sql`(unixepoch())` })
+		.where(and(isDue, inArray(chatter.id, due.map((row) => row.id))))
+		.returning({ id: chatter.id });
+
+	return published.map((row) => row.id);
+}
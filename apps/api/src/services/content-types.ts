@@ -0,0 +1,356 @@
+/**
+ * Content type registry
+ * Declares, for every content type the ingestion pipeline accepts, its hot table and how
+ * JSON fields map to columns. Validation, D1 mapping and error messages all come from
+ * these declarations, so a new type only needs a new entry in CONTENT_TYPES.
+ */
+
+import { audio, bookmarks, chatter, checkins, films, memes, photographs, quotes, shakespeare, topten, videos } from '../db/schema';
+
+/**
+ * How a JSON value is checked and coerced
+ * - string, number, boolean: the JSON type, passed through
+ * - date: ISO 8601 string, coerced to a Date
+ * - timestamp: ISO 8601 string or unix seconds, coerced to a Date
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'timestamp';
+
+/**
+ * Declaration of one mapped column
+ */
+export interface FieldDefinition {
+	type: FieldType;
+	/** Reject the record when the field is missing or invalid */
+	required?: boolean;
+	/** JSON keys to read, first present wins (defaults to the column name in snake_case) */
+	from?: readonly string[];
+	/** Value used when the field is missing: a constant, or derived from the whole document */
+	default?: string | number | boolean | ((data: Record<string, unknown>) => unknown);
+	/** Treat an empty string as missing */
+	nonEmpty?: boolean;
+	/** Allowed values; anything else is treated as missing */
+	values?: readonly unknown[];
+}
+
+/**
+ * Hot tables written by the ingestion pipeline
+ */
+export type ContentTable =
+	| typeof chatter
+	| typeof checkins
+	| typeof films
+	| typeof quotes
+	| typeof shakespeare
+	| typeof topten
+	| typeof photographs
+	| typeof videos
+	| typeof memes
+	| typeof audio
+	| typeof bookmarks;
+
+/**
+ * Mapped hot row for any content table
+ */
+export type ContentRecord = ContentTable['$inferInsert'];
+
+/**
+ * Columns filled the same way for every content type (id, r2Key) or left to D1 (bookmark row timestamps)
+ */
+type ManagedColumn = 'id' | 'r2Key' | 'dbCreatedAt' | 'dbUpdatedAt';
+
+/**
+ * Declaration of one content type
+ */
+export interface ContentTypeDefinition<T extends ContentTable = ContentTable> {
+	table: T;
+	/** Mapped columns, keyed by drizzle column name */
+	fields: { [C in Exclude<keyof T['$inferInsert'], ManagedColumn>]?: FieldDefinition };
+	/** JSON keys holding the record id, after the envelope id (defaults to ["id"]) */
+	idFrom?: readonly string[];
+	/** Accept numeric ids (stored as text) */
+	numericId?: boolean;
+	/** Column stamped when the row is updated (defaults to updatedAt) */
+	rowUpdatedAt?: string;
+}
+
+/**
+ * Declare a content type, checking its field names against the table
+ */
+function defineContentType<T extends ContentTable>(definition: ContentTypeDefinition<T>): ContentTypeDefinition {
+	return definition as unknown as ContentTypeDefinition;
+}
+
+/** Every content type defaults publish to true */
+const publish: FieldDefinition = { type: 'boolean', default: true };
+
+/**
+ * Registry of ingestible content types, keyed by category (the envelope type or aliased key prefix)
+ */
+export const CONTENT_TYPES: Readonly<Record<string, ContentTypeDefinition>> = {
+	chatter: defineContentType({
+		table: chatter,
+		fields: {
+			datePosted: { type: 'date', required: true },
+			year: { type: 'number', required: true },
+			month: { type: 'string', required: true },
+			slug: { type: 'string', required: true },
+			publish,
+			// Documents written before status existed only carry publish
+			status: {
+				type: 'string',
+				values: chatter.status.enumValues,
+				default: (data) => (data.publish === false ? 'draft' : 'published'),
+			},
+			publishAt: { type: 'date' },
+		},
+	}),
+
+	checkins: defineContentType({
+		table: checkins,
+		fields: {
+			venueId: { type: 'string', required: true },
+			latitude: { type: 'number', required: true },
+			longitude: { type: 'number', required: true },
+			datetime: { type: 'date', required: true },
+			year: { type: 'number', required: true },
+			month: { type: 'string', required: true },
+			slug: { type: 'string', required: true },
+			publish,
+		},
+	}),
+
+	films: defineContentType({
+		table: films,
+		fields: {
+			yearWatched: { type: 'number', required: true },
+			dateWatched: { type: 'date', required: true },
+			month: { type: 'string', required: true },
+			slug: { type: 'string', required: true },
+			rewatch: { type: 'boolean', default: false },
+			publish,
+			tmdbId: { type: 'string' },
+			letterboxdId: { type: 'string' },
+		},
+	}),
+
+	quotes: defineContentType({
+		table: quotes,
+		fields: {
+			author: { type: 'string', required: true },
+			dateAdded: { type: 'date', required: true },
+			year: { type: 'number', required: true },
+			month: { type: 'string', required: true },
+			slug: { type: 'string', required: true },
+			publish,
+		},
+	}),
+
+	shakespeare: defineContentType({
+		table: shakespeare,
+		fields: {
+			workId: { type: 'string', required: true },
+			act: { type: 'number', required: true },
+			scene: { type: 'number', required: true },
+			characterId: { type: 'string', required: true },
+			wordCount: { type: 'number', required: true },
+			timestamp: { type: 'timestamp', required: true },
+		},
+	}),
+
+	topten: defineContentType({
+		table: topten,
+		fields: {
+			show: { type: 'string', required: true },
+			date: { type: 'string', required: true },
+			timestamp: { type: 'timestamp', required: true },
+			year: { type: 'number', required: true },
+			month: { type: 'string', required: true },
+			slug: { type: 'string', required: true },
+		},
+	}),
+
+	photographs: defineContentType({
+		table: photographs,
+		fields: {
+			originalName: { type: 'string', required: true },
+			cfImageId: { type: 'string', required: true },
+			dateTaken: { type: 'date', required: true },
+			caption: { type: 'string' },
+			latitude: { type: 'number', from: ['lat', 'latitude'] },
+			longitude: { type: 'number', from: ['lon', 'longitude'] },
+			publish,
+		},
+	}),
+
+	videos: defineContentType({
+		table: videos,
+		fields: {
+			originalName: { type: 'string', required: true },
+			cfStreamId: { type: 'string', required: true },
+			title: { type: 'string', required: true },
+			description: { type: 'string' },
+			dateRecorded: { type: 'date', required: true },
+			duration: { type: 'number', required: true },
+			publish,
+		},
+	}),
+
+	memes: defineContentType({
+		table: memes,
+		fields: {
+			originalName: { type: 'string', required: true },
+			cfImageId: { type: 'string', required: true },
+			title: { type: 'string', required: true },
+			dateSaved: { type: 'date', required: true },
+			sourceUrl: { type: 'string' },
+			publish,
+		},
+	}),
+
+	audio: defineContentType({
+		table: audio,
+		fields: {
+			originalName: { type: 'string', required: true },
+			description: { type: 'string' },
+			dateRecorded: { type: 'date', required: true },
+			duration: { type: 'number', required: true },
+			artifactKey: { type: 'string', required: true },
+			publish,
+		},
+	}),
+
+	// Raindrop.io objects: the API returns a numeric `_id` and created/lastUpdate, exports use
+	// id and created_at/updated_at. createdAt/updatedAt are Raindrop's own timestamps; the row's
+	// bookkeeping timestamps are dbCreatedAt/dbUpdatedAt.
+	bookmarks: defineContentType({
+		table: bookmarks,
+		idFrom: ['id', '_id'],
+		numericId: true,
+		rowUpdatedAt: 'dbUpdatedAt',
+		fields: {
+			link: { type: 'string', required: true },
+			title: { type: 'string', required: true },
+			excerpt: { type: 'string', nonEmpty: true },
+			domain: { type: 'string', required: true, default: (data) => hostname(data.link) },
+			createdAt: { type: 'date', required: true, from: ['created_at', 'created'] },
+			updatedAt: { type: 'date', required: true, from: ['updated_at', 'lastUpdate', 'created_at', 'created'] },
+		},
+	}),
+};
+
+/**
+ * Host of a URL, or undefined when it does not parse
+ */
+function hostname(link: unknown): string | undefined {
+	if (typeof link !== 'string') return undefined;
+	try {
+		return new URL(link).hostname;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Look up a content type by category
+ */
+export function getContentType(category: string): ContentTypeDefinition | undefined {
+	return Object.prototype.hasOwnProperty.call(CONTENT_TYPES, category) ? CONTENT_TYPES[category] : undefined;
+}
+
+/**
+ * camelCase column name to its snake_case JSON key, e.g. datePosted -> date_posted
+ */
+function snakeCase(column: string): string {
+	return column.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+/**
+ * Check and coerce one JSON value; undefined when it does not fit the type
+ */
+function coerce(value: unknown, type: FieldType): unknown {
+	switch (type) {
+		case 'string':
+			return typeof value === 'string' ? value : undefined;
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+		case 'boolean':
+			return typeof value === 'boolean' ? value : undefined;
+		case 'timestamp':
+			return typeof value === 'number' && Number.isFinite(value) ? new Date(value * 1000) : coerce(value, 'date');
+		case 'date': {
+			if (typeof value !== 'string') return undefined;
+			const date = new Date(value);
+			return Number.isNaN(date.getTime()) ? undefined : date;
+		}
+	}
+}
+
+/**
+ * Error thrown when a document does not match its content type
+ * Lists every missing or invalid field by its JSON key.
+ */
+export class ContentValidationError extends Error {
+	constructor(public readonly fields: string[]) {
+		super(fields.length === 1 ? `Missing or invalid field: ${fields[0]}` : `Missing or invalid fields: ${fields.join(', ')}`);
+		this.name = 'ContentValidationError';
+	}
+}
+
+/**
+ * Validate a document against its content type and map it to a hot row
+ * Optional fields of the wrong type are treated as missing.
+ *
+ * @param definition - Content type declaration
+ * @param data - Document fields (the envelope's data, or the bare record)
+ * @param objectKey - R2 key, stored as r2Key
+ * @param recordId - Envelope id, which takes precedence over ids in the data
+ * @throws ContentValidationError listing every failing field
+ */
+export function mapContentRecord(
+	definition: ContentTypeDefinition,
+	data: Record<string, unknown>,
+	objectKey: string,
+	recordId?: string
+): ContentRecord {
+	const invalid: string[] = [];
+
+	let id = recordId;
+	for (const key of definition.idFrom ?? ['id']) {
+		if (id) break;
+		const value = data[key];
+		if (typeof value === 'string' && value !== '') id = value;
+		else if (definition.numericId && typeof value === 'number' && Number.isFinite(value)) id = String(value);
+	}
+	if (!id) invalid.push('id');
+
+	const record: Record<string, unknown> = { id, r2Key: objectKey };
+
+	for (const [column, field] of Object.entries(definition.fields) as Array<[string, FieldDefinition]>) {
+		const keys = field.from ?? [snakeCase(column)];
+
+		let value: unknown;
+		for (const key of keys) {
+			const raw = data[key];
+			if (raw === undefined || raw === null || (field.nonEmpty && raw === '')) continue;
+			value = coerce(raw, field.type);
+			if (field.values && !field.values.includes(value)) value = undefined;
+			break;
+		}
+
+		if (value === undefined && field.default !== undefined) {
+			value = typeof field.default === 'function' ? field.default(data) : field.default;
+		}
+
+		if (value === undefined && field.required) {
+			invalid.push(keys[0]);
+			continue;
+		}
+		record[column] = value;
+	}
+
+	if (invalid.length > 0) {
+		throw new ContentValidationError(invalid);
+	}
+
+	return record as ContentRecord;
+}
@@ -0,0 +1,345 @@
+/**
+ * Environment backfill
+ * Adds the environment block to checkins and chatters stored before enrichment existed.
+ * A run walks one content type's hot rows oldest first, a page per queue message, and each
+ * page queues the next with a delay, which is what limits the rate of provider calls.
+ * The cursor is saved after every row, so a resumed run picks up where it stopped.
+ *
+ * Each enriched record is written to R2 as a new document (new content hash) that
+ * `supersedes` the old one, and the hot row moves to it, as when a chatter is edited.
+ */
+
+import { and, asc, eq, gt, or, sql } from 'drizzle-orm';
+import type { Env } from '../types/env';
+import type { Chatter, ChatterData, CreateChatterRequest } from '../types/chatter';
+import { connectD1, schema } from '../db/client';
+import {
+	buildSupersededRecordStatement,
+	hashJSON,
+	markStoredObject,
+	replaceChatterVersion,
+	SUPERSEDED_BY_METADATA,
+	withRowPublication,
+} from './chatter-service';
+import { enrichHistorical, extractCoordinates } from './environment/enrichment';
+import { keyPrefix, resolveContentType } from './type-resolver';
+
+/**
+ * Content types the backfill can enrich
+ */
+export const BACKFILL_CONTENT_TYPES = ['checkins', 'chatter'] as const;
+
+export type BackfillContentType = (typeof BACKFILL_CONTENT_TYPES)[number];
+
+/**
+ * Rows enriched per queue message
+ */
+export const BACKFILL_PAGE_SIZE = 10;
+
+/**
+ * Default and maximum rows enriched per minute
+ */
+export const DEFAULT_BACKFILL_PER_MINUTE = 30;
+export const MAX_BACKFILL_PER_MINUTE = 600;
+
+/**
+ * What the backfill did with one row
+ * - enriched: a new document with an environment replaced the row's document
+ * - skipped: the document already has an environment, or a chatter has no location
+ * - failed: reading, enriching or writing failed; a later run will try the row again
+ */
+export type BackfillOutcome = 'enriched' | 'skipped' | 'failed';
+
+/**
+ * Queue message processing the next page of a backfill run
+ */
+export interface BackfillMessageBody {
+	type: 'environment-backfill';
+	runId: string;
+}
+
+/**
+ * Backfill run as exposed by the backfill API
+ */
+export interface EnvironmentBackfillRunItem {
+	id: string;
+	content_type: BackfillContentType;
+	per_minute: number;
+	status: 'running' | 'completed' | 'failed';
+	processed: number;
+	enriched: number;
+	skipped: number;
+	failed: number;
+	/** Why the run stopped, when a page still failed on the queue's last attempt */
+	error: string | null;
+	/** Last row handled, in (date, slug) order; null before the first row */
+	cursor: { date: string; slug: string } | null;
+	started_at: string;
+	updated_at: string;
+	completed_at: string | null;
+}
+
+/**
+ * Hot row columns the backfill reads, per content type
+ */
+const BACKFILL_TABLES = {
+	checkins: { table: schema.checkins, date: schema.checkins.datetime, slug: schema.checkins.slug },
+	chatter: { table: schema.chatter, date: schema.chatter.datePosted, slug: schema.chatter.slug },
+} as const;
+
+/**
+ * Delay between pages that keeps a run at perMinute rows per minute
+ */
+export function backfillDelaySeconds(perMinute: number): number {
+	return Math.ceil((BACKFILL_PAGE_SIZE * 60) / perMinute);
+}
+
+/**
+ * Create a run and return its id
+ */
+export async function createBackfillRun(db: D1Database, contentType: BackfillContentType, perMinute: number): Promise<string> {
+	const orm = connectD1(db);
+	const id = crypto.randomUUID();
+	await orm.insert(schema.environmentBackfillRuns).values({ id, contentType, perMinute });
+	return id;
+}
+
+/**
+ * Load a run by id
+ */
+export async function getBackfillRun(db: D1Database, id: string): Promise<EnvironmentBackfillRunItem | null> {
+	const orm = connectD1(db);
+	const [row] = await orm.select().from(schema.environmentBackfillRuns).where(eq(schema.environmentBackfillRuns.id, id)).limit(1);
+	if (!row) {
+		return null;
+	}
+
+	return {
+		id: row.id,
+		content_type: row.contentType,
+		per_minute: row.perMinute,
+		status: row.completedAt ? 'completed' : row.error ? 'failed' : 'running',
+		processed: row.processed,
+		enriched: row.enriched,
+		skipped: row.skipped,
+		failed: row.failed,
+		error: row.error,
+		cursor: row.cursorDate && row.cursorSlug ? { date: row.cursorDate.toISOString(), slug: row.cursorSlug } : null,
+		started_at: row.startedAt.toISOString(),
+		updated_at: row.updatedAt.toISOString(),
+		completed_at: row.completedAt ? row.completedAt.toISOString() : null,
+	};
+}
+
+/**
+ * Record that a page of a run still failed on the queue's last attempt
+ * Resuming the run clears the error once a page goes through.
+ */
+export async function failBackfillRun(db: D1Database, runId: string, error: string): Promise<void> {
+	const orm = connectD1(db);
+	const { environmentBackfillRuns: runs } = schema;
+
+	await orm.update(runs).set({ error, updatedAt: sql`(unixepoch())` }).where(eq(runs.id, runId));
+}
+
+/**
+ * Queue the next page of a run
+ * @param delaySeconds - Delivery delay (0 for the first page of a run or a resume)
+ */
+export async function queueBackfillPage(env: Env, runId: string, delaySeconds = 0): Promise<void> {
+	const body: BackfillMessageBody = { type: 'environment-backfill', runId };
+	await env.JSON_QUEUE.send(body, { delaySeconds });
+}
+
+/**
+ * Enrich the next page of a run and queue the page after it
+ * Rows are counted and the cursor advanced one at a time; the run is completed once a
+ * page comes back short.
+ * @returns Rows handled, and whether another page was queued
+ */
+export async function processBackfillPage(env: Env, runId: string): Promise<{ processed: number; hasMore: boolean }> {
+	const orm = connectD1(env.DB);
+	const { environmentBackfillRuns: runs } = schema;
+
+	const [run] = await orm.select().from(runs).where(eq(runs.id, runId)).limit(1);
+	if (!run || run.completedAt) {
+		return { processed: 0, hasMore: false };
+	}
+
+	const { table, date, slug } = BACKFILL_TABLES[run.contentType];
+	const after =
+		run.cursorDate && run.cursorSlug ? or(gt(date, run.cursorDate), and(eq(date, run.cursorDate), gt(slug, run.cursorSlug))) : undefined;
+
+	const rows = await orm.select().from(table).where(after).orderBy(asc(date), asc(slug)).limit(BACKFILL_PAGE_SIZE);
+	const objects: StoredObjects = new Map();
+
+	for (const row of rows) {
+		let outcome: BackfillOutcome;
+		try {
+			outcome =
+				run.contentType === 'checkins'
+					? await backfillCheckin(env, row as schema.Checkin, objects)
+					: await backfillChatter(env, row as schema.Chatter, objects);
+		} catch (error) {
+			console.error(`Environment backfill failed for ${row.id}:`, error);
+			outcome = 'failed';
+		}
+
+		const rowDate = 'datetime' in row ? row.datetime : row.datePosted;
+		await orm
+			.update(runs)
+			.set({
+				processed: sql`${runs.processed} + 1`,
+				[outcome]: sql`${runs[outcome]} + 1`,
+				cursorDate: rowDate,
+				cursorSlug: row.slug,
+				error: null,
+				updatedAt: sql`(unixepoch())`,
+			})
+			.where(eq(runs.id, runId));
+	}
+
+	const hasMore = rows.length === BACKFILL_PAGE_SIZE;
+	if (hasMore) {
+		await queueBackfillPage(env, runId, backfillDelaySeconds(run.perMinute));
+	} else {
+		await orm
+			.update(runs)
+			.set({ completedAt: sql`(unixepoch())`, error: null, updatedAt: sql`(unixepoch())` })
+			.where(eq(runs.id, runId));
+	}
+
+	return { processed: rows.length, hasMore };
+}
+
+/**
+ * A record read back from the R2 object a hot row points at
+ */
+interface StoredRecord {
+	/** The parsed document: a {type, id, data} envelope or a bare record */
+	document: Record<string, unknown>;
+	data: Record<string, unknown>;
+	wrapped: boolean;
+	/** Whether the object holds only this record (JSONL objects can hold many) */
+	alone: boolean;
+}
+
+/**
+ * Non-blank lines of the objects read while handling one page, by R2 key
+ * Rows imported from one JSONL object share it, so it is downloaded and split once per page.
+ */
+type StoredObjects = Map<string, Promise<string[]>>;
+
+/**
+ * Read the lines of a stored object
+ * @throws Error when the object is missing
+ */
+async function readStoredLines(env: Env, objectKey: string): Promise<string[]> {
+	const object = await env.SR_JSON.get(objectKey);
+	if (!object) {
+		throw new Error(`Object not found in storage: ${objectKey}`);
+	}
+
+	return (await object.text()).split('\n').filter((line) => line.trim() !== '');
+}
+
+/**
+ * Read the record with the given id from a stored object
+ * Only lines that contain the id are parsed.
+ * @param objects - Objects already read for this page
+ * @throws Error when the object or the record is missing
+ */
+async function readStoredRecord(env: Env, objectKey: string, id: string, objects: StoredObjects): Promise<StoredRecord> {
+	let read = objects.get(objectKey);
+	if (!read) {
+		read = readStoredLines(env, objectKey);
+		objects.set(objectKey, read);
+	}
+
+	const lines = await read;
+	for (const line of lines) {
+		if (!line.includes(id)) continue;
+
+		const document = JSON.parse(line);
+		const resolution = resolveContentType(document, objectKey);
+		if (!resolution.ok) continue;
+
+		const { data, recordId, source } = resolution.resolved;
+		if ((recordId ?? data.id) === id) {
+			return { document, data, wrapped: source === 'envelope', alone: lines.length === 1 };
+		}
+	}
+
+	throw new Error(`Record ${id} not found in ${objectKey}`);
+}
+
+/**
+ * Enrich one checkin
+ * The enriched copy is a bare record like the imported ones, under the same folder,
+ * with a new id hashed from its content.
+ */
+async function backfillCheckin(env: Env, row: schema.Checkin, objects: StoredObjects): Promise<BackfillOutcome> {
+	const stored = await readStoredRecord(env, row.r2Key, row.id, objects);
+	if (stored.data.environment) {
+		return 'skipped';
+	}
+
+	const environment = await enrichHistorical(row.latitude, row.longitude, row.datetime, env);
+
+	const { id: _id, ...data } = stored.wrapped ? stored.data : stored.document;
+	const enriched = { ...data, environment, supersedes: row.id };
+	const hash = await hashJSON(enriched);
+	const id = `sha256:${hash}`;
+	const document = stored.wrapped ? { ...stored.document, id, data: enriched } : { id, ...enriched };
+
+	const objectKey = `${keyPrefix(row.r2Key) ?? 'checkins'}/sha256_${hash}.json`;
+	await env.SR_JSON.put(objectKey, JSON.stringify(document, null, 2), {
+		httpMetadata: { contentType: 'application/json' },
+		customMetadata: { 'sha256-hex': hash, type: 'checkins' },
+	});
+
+	// A JSONL object holding other records stays live; superseded_records tells re-ingestion
+	// to skip the old record, whose slug the enriched copy's row now holds
+	if (stored.alone) {
+		await markStoredObject(env, row.r2Key, { [SUPERSEDED_BY_METADATA]: id });
+	}
+
+	const orm = connectD1(env.DB);
+	await orm.batch([
+		orm.delete(schema.checkins).where(eq(schema.checkins.id, row.id)),
+		...(stored.alone ? [] : [buildSupersededRecordStatement(orm, row.id, row.r2Key, id)]),
+		orm.insert(schema.checkins).values({ ...row, id, r2Key: objectKey, updatedAt: new Date() }),
+	]);
+
+	return 'enriched';
+}
+
+/**
+ * Enrich one chatter by storing a new version, as an edit would
+ * Chatters without a location_hint or place have nothing to enrich and are skipped.
+ */
+async function backfillChatter(env: Env, row: schema.Chatter, objects: StoredObjects): Promise<BackfillOutcome> {
+	const stored = await readStoredRecord(env, row.r2Key, row.id, objects);
+	const coords = extractCoordinates(stored.data as unknown as CreateChatterRequest);
+	if (stored.data.environment || !coords) {
+		return 'skipped';
+	}
+
+	// Imported chatters are bare records; give them an envelope like posts created through the API
+	const previous: Chatter = stored.wrapped
+		? (stored.document as unknown as Chatter)
+		: { type: 'chatter', id: row.id, data: stored.data as unknown as ChatterData };
+
+	const { id: _id, ...previousData } = previous.data as ChatterData & { id?: string };
+	const data: ChatterData = {
+		year: row.year,
+		month: row.month,
+		slug: row.slug,
+		...withRowPublication(previousData, row),
+		environment: await enrichHistorical(coords.lat, coords.lng, row.datePosted, env),
+		supersedes: previous.id,
+	};
+
+	await replaceChatterVersion(row, previous, data, env, { shared: !stored.alone });
+	return 'enriched';
+}
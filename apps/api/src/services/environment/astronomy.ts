@@ -0,0 +1,183 @@
+/**
+ * Offline astronomy
+ * Sun and moon positions from lat/lng and a time, with no network call. Formulas follow
+ * the low-precision solar and lunar models used by SunCalc (after Astronomy Answers,
+ * aa.quae.nl): sun event times are good to about a minute away from the poles.
+ */
+
+import type { ApiSnapshot_Astronomy, AstronomySummary } from '../../types/chatter';
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86_400_000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+
+/** Obliquity of the Earth's axis */
+const OBLIQUITY = RAD * 23.4397;
+
+/** Correction for the Julian cycle when finding solar transit */
+const J0 = 0.0009;
+
+/** Sun elevations that define the events we report */
+const SUNRISE_ELEVATION = -0.833; // Upper limb on the horizon, with refraction
+const CIVIL_TWILIGHT_ELEVATION = -6;
+
+const MOON_PHASE_NAMES = [
+	'New Moon',
+	'Waxing Crescent',
+	'First Quarter',
+	'Waxing Gibbous',
+	'Full Moon',
+	'Waning Gibbous',
+	'Last Quarter',
+	'Waning Crescent',
+];
+
+/**
+ * Days since J2000 (fractional)
+ */
+function toDays(date: Date): number {
+	return date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+function fromJulian(julian: number): Date {
+	return new Date((julian + 0.5 - J1970) * DAY_MS);
+}
+
+function rightAscension(longitude: number, latitude: number): number {
+	return Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY), Math.cos(longitude));
+}
+
+function declination(longitude: number, latitude: number): number {
+	return Math.asin(Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude));
+}
+
+function solarMeanAnomaly(days: number): number {
+	return RAD * (357.5291 + 0.98560028 * days);
+}
+
+function eclipticLongitude(meanAnomaly: number): number {
+	const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+	const perihelion = RAD * 102.9372;
+	return meanAnomaly + center + perihelion + Math.PI;
+}
+
+function sunCoordinates(days: number): { dec: number; ra: number } {
+	const longitude = eclipticLongitude(solarMeanAnomaly(days));
+	return { dec: declination(longitude, 0), ra: rightAscension(longitude, 0) };
+}
+
+function moonCoordinates(days: number): { dec: number; ra: number; distance: number } {
+	const meanLongitude = RAD * (218.316 + 13.176396 * days);
+	const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+	const argumentOfLatitude = RAD * (93.272 + 13.22935 * days);
+
+	const longitude = meanLongitude + RAD * 6.289 * Math.sin(meanAnomaly);
+	const latitude = RAD * 5.128 * Math.sin(argumentOfLatitude);
+	const distance = 385001 - 20905 * Math.cos(meanAnomaly); // km
+
+	return { dec: declination(longitude, latitude), ra: rightAscension(longitude, latitude), distance };
+}
+
+/**
+ * Sun elevation above the horizon in degrees
+ */
+function solarElevation(date: Date, lat: number, lng: number): number {
+	const days = toDays(date);
+	const { dec, ra } = sunCoordinates(days);
+	const phi = RAD * lat;
+	const hourAngle = RAD * (280.16 + 360.9856235 * days) + RAD * lng - ra;
+
+	return Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle)) / RAD;
+}
+
+/**
+ * Solar noon nearest the date, and the times the sun crosses each elevation either side of it
+ */
+function sunTimes(date: Date, lat: number, lng: number) {
+	const lw = RAD * -lng;
+	const phi = RAD * lat;
+	const days = toDays(date);
+
+	const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+	const approxTransit = J0 + lw / (2 * Math.PI) + cycle;
+	const meanAnomaly = solarMeanAnomaly(approxTransit);
+	const longitude = eclipticLongitude(meanAnomaly);
+	const dec = declination(longitude, 0);
+	const noon = J2000 + approxTransit + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+
+	/** Rising and setting times for an elevation, or null when the sun never crosses it */
+	const crossing = (elevation: number): [Date, Date] | null => {
+		const cosHourAngle = (Math.sin(RAD * elevation) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+		if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+
+		const hourAngle = Math.acos(cosHourAngle);
+		const set = J2000 + J0 + (hourAngle + lw) / (2 * Math.PI) + cycle + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+		return [fromJulian(noon - (set - noon)), fromJulian(set)];
+	};
+
+	return { noon: fromJulian(noon), sunrise: crossing(SUNRISE_ELEVATION), civil: crossing(CIVIL_TWILIGHT_ELEVATION) };
+}
+
+/**
+ * Moon phase (0 new → 0.5 full → 1) and illuminated fraction
+ */
+function moonIllumination(date: Date): { phase: number; fraction: number } {
+	const days = toDays(date);
+	const sun = sunCoordinates(days);
+	const moon = moonCoordinates(days);
+	const sunDistance = 149598000; // km
+
+	const elongation = Math.acos(
+		Math.sin(sun.dec) * Math.sin(moon.dec) + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra),
+	);
+	const phaseAngle = Math.atan2(sunDistance * Math.sin(elongation), moon.distance - sunDistance * Math.cos(elongation));
+	const angle = Math.atan2(
+		Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+		Math.sin(sun.dec) * Math.cos(moon.dec) - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra),
+	);
+
+	return {
+		phase: 0.5 + (0.5 * phaseAngle * (angle < 0 ? -1 : 1)) / Math.PI,
+		fraction: (1 + Math.cos(phaseAngle)) / 2,
+	};
+}
+
+function round(value: number, digits: number): number {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compute the astronomy snapshot for a place and time
+ * @param lat - Latitude in degrees
+ * @param lng - Longitude in degrees
+ * @param date - The moment of the post (date_posted)
+ * @returns Snapshot with sun events for the day around `date`, solar elevation and moon phase
+ */
+export function computeAstronomy(lat: number, lng: number, date: Date): ApiSnapshot_Astronomy {
+	const { noon, sunrise, civil } = sunTimes(date, lat, lng);
+	const moon = moonIllumination(date);
+
+	const summary: AstronomySummary = {
+		sunrise: sunrise?.[0].toISOString() ?? null,
+		sunset: sunrise?.[1].toISOString() ?? null,
+		civil_dawn: civil?.[0].toISOString() ?? null,
+		civil_dusk: civil?.[1].toISOString() ?? null,
+		solar_noon: noon.toISOString(),
+		solar_elevation_deg: round(solarElevation(date, lat, lng), 1),
+		moon_phase: round(moon.phase, 3),
+		moon_phase_name: MOON_PHASE_NAMES[Math.round(moon.phase * 8) % 8],
+		moon_illumination_pct: Math.round(moon.fraction * 100),
+	};
+
+	return {
+		captured_at: new Date().toISOString(),
+		provider: {
+			name: 'offline',
+			product: 'astronomy',
+			version: 'v1',
+		},
+		summary,
+	};
+}
@@ -0,0 +1,83 @@
+/**
+ * Provider circuit breaker
+ * A provider that fails several calls in a row is skipped for a cooldown instead of costing
+ * every post a timeout. State lives in D1 (environment_circuits), one row per product and provider,
+ * so it is shared by every isolate. Once the cooldown ends the next call goes through: a success
+ * closes the circuit, a failure opens it for another cooldown.
+ */
+
+import { eq, sql } from 'drizzle-orm';
+import type { Env } from '../../types/env';
+import { connectD1, schema } from '../../db/client';
+
+/**
+ * Consecutive failures that open a circuit
+ */
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+
+/**
+ * How long an open circuit skips its provider
+ */
+export const CIRCUIT_COOLDOWN_SECONDS = 5 * 60;
+
+/**
+ * Circuit key for a provider of a product, e.g. weather:google
+ */
+export function circuitKey(product: string, provider: string): string {
+	return `${product}:${provider}`;
+}
+
+/**
+ * Load a circuit's state
+ * @returns The row, or null when the provider has not failed since its last success
+ */
+export async function getCircuit(env: Env, key: string): Promise<schema.EnvironmentCircuit | null> {
+	const orm = connectD1(env.DB);
+	const { environmentCircuits } = schema;
+	const row = await orm.select().from(environmentCircuits).where(eq(environmentCircuits.key, key)).get();
+	return row ?? null;
+}
+
+/**
+ * Whether a circuit is skipping its provider at `now`
+ */
+export function isCircuitOpen(circuit: schema.EnvironmentCircuit | null, now = new Date()): boolean {
+	return circuit?.openUntil != null && circuit.openUntil > now;
+}
+
+/**
+ * Count a failed call, opening the circuit once failures reach the threshold
+ */
+export async function recordProviderFailure(env: Env, key: string, error: string, now = new Date()): Promise<void> {
+	const orm = connectD1(env.DB);
+	const { environmentCircuits: circuits } = schema;
+	const openUntil = Math.floor(now.getTime() / 1000) + CIRCUIT_COOLDOWN_SECONDS;
+
+	await orm
+		.insert(circuits)
+		.values({
+			key,
+			failures: 1,
+			openUntil: CIRCUIT_FAILURE_THRESHOLD <= 1 ? new Date(openUntil * 1000) : null,
+			lastError: error,
+			updatedAt: now,
+		})
+		.onConflictDoUpdate({
+			target: circuits.key,
+			set: {
+				failures: sql`${circuits.failures} + 1`,
+				openUntil: sql`CASE WHEN ${circuits.failures} + 1 >= ${CIRCUIT_FAILURE_THRESHOLD} THEN ${openUntil} ELSE ${circuits.openUntil} END`,
+				lastError: error,
+				updatedAt: now,
+			},
+		});
+}
+
+/**
+ * Close a circuit after a successful call
+ */
+export async function recordProviderSuccess(env: Env, key: string): Promise<void> {
+	const orm = connectD1(env.DB);
+	const { environmentCircuits } = schema;
+	await orm.delete(environmentCircuits).where(eq(environmentCircuits.key, key));
+}
@@ -4,12 +4,39 @@
  */
 
 import type { Env } from '../../types/env';
-import type { CreateChatterRequest, Chatter, ChatterData, Environment } from '../../types/chatter';
-import { fetchPlaceDetails, reverseGeocode } from './google-places';
-import { fetchWeather } from './google-weather';
-import { fetchAirQuality } from './google-air-quality';
-import { fetchPollen } from './google-pollen';
-import { fetchElevation } from './google-elevation';
+import type {
+	ApiSnapshot_Place,
+	CreateChatterRequest,
+	Chatter,
+	ChatterData,
+	Environment,
+	EnvironmentErrors,
+	ProviderSnapshotName,
+} from '../../types/chatter';
+import { fetchPlaceDetails } from './google-places';
+import { getProvider, providerName, type EnvironmentProduct, type ProductSnapshot } from './providers';
+import { withSnapshotCache } from './snapshot-cache';
+import { circuitKey } from './circuit-breaker';
+import { callProvider, enrichmentLimits, environmentError, guardProvider, withTimeout } from './provider-guard';
+import { computeAstronomy } from './astronomy';
+import { computeTimezone } from './timezone';
+
+/**
+ * Chatter data for a request, before any environmental data is added
+ */
+export function buildChatterData(request: CreateChatterRequest): ChatterData {
+	return {
+		kind: request.kind,
+		content: request.content,
+		date_posted: request.date_posted,
+		title: request.title,
+		tags: request.tags || [],
+		images: request.images || [],
+		publish: request.publish !== undefined ? request.publish : true,
+		location_hint: request.location_hint,
+		place: request.place,
+	};
+}
 
 /**
  * Enrich a chatter with environmental data
@@ -27,80 +54,102 @@ export async function enrichChatter(
 	const coords = extractCoordinates(request);
 
 	// Build base chatter data
-	const chatterData: ChatterData = {
-		kind: request.kind,
-		content: request.content,
-		date_posted: request.date_posted,
-		title: request.title,
-		tags: request.tags || [],
-		images: request.images || [],
-		publish: request.publish !== undefined ? request.publish : true,
-		location_hint: request.location_hint,
-		place: request.place,
-	};
+	const chatterData = buildChatterData(request);
 
 	// If no coordinates available, return chatter without environmental data
 	if (!coords) {
 		return chatterData;
 	}
 
+	// Each product comes from its configured provider, through its timeout and circuit breaker;
+	// mock data bypasses the cache and the limits. Place details run alongside the products.
+	const { lat, lng } = coords;
+	const limits = enrichmentLimits(env);
+	const deadline = Date.now() + limits.deadlineMs;
+	const snapshot = async <P extends EnvironmentProduct>(product: P): Promise<ProductSnapshot<P>> => {
+		const provider = getProvider(product, env);
+		if (useMock) {
+			return provider.fetch(lat, lng, env, true) as Promise<ProductSnapshot<P>>;
+		}
+		return withDeadline(withSnapshotCache(guardProvider(provider, limits), lat, lng, env), deadline) as Promise<ProductSnapshot<P>>;
+	};
+
+	const placeId = request.place?.provider_ids?.google_places;
+	const placeDetails = async (id: string): Promise<ApiSnapshot_Place> => {
+		if (useMock) {
+			return fetchPlaceDetails(id, env, true);
+		}
+		const call = () => fetchPlaceDetails(id, env);
+		return withDeadline(callProvider(circuitKey('place', 'google'), call, env, limits.providerTimeoutMs), deadline);
+	};
+
 	// Fetch all environmental data in parallel
 	// Use Promise.allSettled to handle partial failures gracefully
-	const [weatherResult, airQualityResult, pollenResult, elevationResult, geocodingResult] =
+	const [weatherResult, airQualityResult, pollenResult, elevationResult, geocodingResult, placeResult] =
 		await Promise.allSettled([
-			fetchWeather(coords.lat, coords.lng, env, useMock),
-			fetchAirQuality(coords.lat, coords.lng, env, useMock),
-			fetchPollen(coords.lat, coords.lng, env, useMock),
-			fetchElevation(coords.lat, coords.lng, env, useMock),
-			reverseGeocode(coords.lat, coords.lng, env, useMock),
+			snapshot('weather'),
+			snapshot('air_quality'),
+			snapshot('pollen'),
+			snapshot('elevation'),
+			snapshot('geocoding'),
+			placeId ? placeDetails(placeId) : Promise.resolve(undefined),
 		]);
 
-	// Build environment object with successful results
+	// Build environment object with successful results; skipped snapshots are recorded in errors
 	const environment: Environment = {};
+	const errors: EnvironmentErrors = {};
+	const skipped = (name: ProviderSnapshotName, label: string, provider: string, reason: unknown) => {
+		console.error(`${label} fetch failed:`, reason);
+		errors[name] = environmentError(provider, reason);
+	};
 
 	if (weatherResult.status === 'fulfilled') {
 		environment.weather = weatherResult.value;
 	} else {
-		console.error('Weather fetch failed:', weatherResult.reason);
+		skipped('weather', 'Weather', providerName('weather', env), weatherResult.reason);
 	}
 
 	if (airQualityResult.status === 'fulfilled') {
 		environment.air_quality = airQualityResult.value;
 	} else {
-		console.error('Air quality fetch failed:', airQualityResult.reason);
+		skipped('air_quality', 'Air quality', providerName('air_quality', env), airQualityResult.reason);
 	}
 
 	if (pollenResult.status === 'fulfilled') {
 		environment.pollen = pollenResult.value;
 	} else {
-		console.error('Pollen fetch failed:', pollenResult.reason);
+		skipped('pollen', 'Pollen', providerName('pollen', env), pollenResult.reason);
 	}
 
 	if (elevationResult.status === 'fulfilled') {
 		environment.elevation = elevationResult.value;
 	} else {
-		console.error('Elevation fetch failed:', elevationResult.reason);
+		skipped('elevation', 'Elevation', providerName('elevation', env), elevationResult.reason);
 	}
 
 	if (geocodingResult.status === 'fulfilled') {
 		environment.geocoding = geocodingResult.value;
 	} else {
-		console.error('Geocoding fetch failed:', geocodingResult.reason);
+		skipped('geocoding', 'Geocoding', providerName('geocoding', env), geocodingResult.reason);
 	}
 
-	// If place was provided, fetch full place details
-	if (request.place?.provider_ids?.google_places) {
-		try {
-			const placeSnapshot = await fetchPlaceDetails(
-				request.place.provider_ids.google_places,
-				env,
-				useMock
-			);
-			environment.place = placeSnapshot;
-		} catch (error) {
-			console.error('Place details fetch failed:', error);
-			// Continue without place details
-		}
+	if (placeResult.status === 'fulfilled') {
+		if (placeResult.value) environment.place = placeResult.value;
+	} else {
+		skipped('place', 'Place details', 'google', placeResult.reason);
+	}
+
+	// Astronomy and timezone are computed locally for the moment of the post
+	try {
+		const posted = new Date(request.date_posted);
+		environment.astronomy = computeAstronomy(lat, lng, posted);
+		environment.timezone = computeTimezone(lat, lng, posted);
+	} catch (error) {
+		console.error('Astronomy/timezone computation failed:', error);
+	}
+
+	if (Object.keys(errors).length > 0) {
+		environment.errors = errors;
 	}
 
 	// Add environment to chatter data
@@ -109,10 +158,94 @@ export async function enrichChatter(
 	return chatterData;
 }
 
+/**
+ * Build the environment of a past moment, for posts that were stored without one
+ * Elevation and geocoding do not change over time, so today's (cached) snapshots stand in.
+ * Weather is only included when the configured provider has historical data (fetchAt);
+ * air quality, pollen and place details are left out. Every snapshot records the moment
+ * it describes in observed_for, next to captured_at.
+ * @param lat - Latitude in degrees
+ * @param lng - Longitude in degrees
+ * @param at - Moment the post describes (date_posted, checkin time)
+ * @param env - Environment bindings
+ * @returns The environment; products that failed are logged and reported in errors
+ */
+export async function enrichHistorical(lat: number, lng: number, at: Date, env: Env): Promise<Environment> {
+	const limits = enrichmentLimits(env);
+	const deadline = Date.now() + limits.deadlineMs;
+
+	const timeInvariant = async <P extends 'elevation' | 'geocoding'>(product: P): Promise<ProductSnapshot<P>> =>
+		withDeadline(withSnapshotCache(guardProvider(getProvider(product, env), limits), lat, lng, env), deadline) as Promise<ProductSnapshot<P>>;
+
+	const historicalWeather = async (): Promise<ProductSnapshot<'weather'> | undefined> => {
+		const provider = guardProvider(getProvider('weather', env), limits);
+		return provider.fetchAt ? withDeadline(provider.fetchAt(lat, lng, at, env), deadline) : undefined;
+	};
+
+	const [elevationResult, geocodingResult, weatherResult] = await Promise.allSettled([
+		timeInvariant('elevation'),
+		timeInvariant('geocoding'),
+		historicalWeather(),
+	]);
+
+	const environment: Environment = {};
+	const errors: EnvironmentErrors = {};
+
+	if (elevationResult.status === 'fulfilled') {
+		environment.elevation = elevationResult.value;
+	} else {
+		console.error('Elevation fetch failed:', elevationResult.reason);
+		errors.elevation = environmentError(providerName('elevation', env), elevationResult.reason);
+	}
+
+	if (geocodingResult.status === 'fulfilled') {
+		environment.geocoding = geocodingResult.value;
+	} else {
+		console.error('Geocoding fetch failed:', geocodingResult.reason);
+		errors.geocoding = environmentError(providerName('geocoding', env), geocodingResult.reason);
+	}
+
+	if (weatherResult.status === 'fulfilled') {
+		if (weatherResult.value) environment.weather = weatherResult.value;
+	} else {
+		console.error('Historical weather fetch failed:', weatherResult.reason);
+		errors.weather = environmentError(providerName('weather', env), weatherResult.reason);
+	}
+
+	// A failure here must not throw away the snapshots fetched above
+	try {
+		environment.astronomy = computeAstronomy(lat, lng, at);
+		environment.timezone = computeTimezone(lat, lng, at);
+	} catch (error) {
+		console.error('Astronomy/timezone computation failed:', error);
+	}
+
+	if (!Number.isNaN(at.getTime())) {
+		const observedFor = at.toISOString();
+		for (const name of ['elevation', 'geocoding', 'weather', 'astronomy', 'timezone'] as const) {
+			const snapshot = environment[name];
+			if (snapshot) snapshot.observed_for = observedFor;
+		}
+	}
+
+	if (Object.keys(errors).length > 0) {
+		environment.errors = errors;
+	}
+
+	return environment;
+}
+
+/**
+ * Settle with the promise, or give up once the enrichment deadline has passed
+ */
+function withDeadline<T>(promise: Promise<T>, deadline: number): Promise<T> {
+	return withTimeout(promise, deadline - Date.now(), 'deadline', 'Enrichment deadline passed');
+}
+
 /**
  * Extract coordinates from request (location_hint or place)
  */
-function extractCoordinates(
+export function extractCoordinates(
 	request: CreateChatterRequest
 ): { lat: number; lng: number } | null {
 	if (request.location_hint) {
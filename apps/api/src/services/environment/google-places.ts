@@ -1,6 +1,6 @@
 /**
  * Google Places API service
- * Handles place details and reverse geocoding
+ * Handles place details, nearby search and reverse geocoding
  */
 
 import type { Env } from '../../types/env';
@@ -12,6 +12,90 @@ import type {
 } from '../../types/chatter';
 import mockPlace from '../../../test/fixtures/environment/mock-place.json';
 import mockGeocoding from '../../../test/fixtures/environment/mock-geocoding.json';
+import mockNearbyPlaces from '../../../test/fixtures/environment/mock-nearby-places.json';
+
+/**
+ * Place fields requested from the Places API (New), without the `places.` prefix used by search
+ */
+const PLACE_FIELDS = [
+	'id',
+	'displayName',
+	'formattedAddress',
+	'location',
+	'addressComponents',
+	'types',
+	'rating',
+	'userRatingCount',
+	'priceLevel',
+	'websiteUri',
+	'internationalPhoneNumber',
+];
+
+/**
+ * Price levels of the Places API (New), as the 0 to 4 scale of PlaceSummary.price_level
+ */
+const PRICE_LEVELS: Record<string, number> = {
+	PRICE_LEVEL_FREE: 0,
+	PRICE_LEVEL_INEXPENSIVE: 1,
+	PRICE_LEVEL_MODERATE: 2,
+	PRICE_LEVEL_EXPENSIVE: 3,
+	PRICE_LEVEL_VERY_EXPENSIVE: 4,
+};
+
+/**
+ * A place from the Places API (New), limited to PLACE_FIELDS
+ */
+interface GooglePlace {
+	id?: string;
+	displayName?: { text: string; languageCode?: string };
+	formattedAddress?: string;
+	location?: { latitude: number; longitude: number };
+	addressComponents?: { longText: string; shortText: string; types: string[]; languageCode?: string }[];
+	types?: string[];
+	rating?: number;
+	userRatingCount?: number;
+	priceLevel?: string;
+	websiteUri?: string;
+	internationalPhoneNumber?: string;
+}
+
+/**
+ * Response of places:searchNearby; an empty search returns {} rather than an empty list
+ */
+interface GoogleNearbySearchResponse {
+	places?: GooglePlace[];
+}
+
+/**
+ * Address component of a Geocoding API result
+ */
+interface GoogleAddressComponent {
+	long_name: string;
+	short_name: string;
+	types: string[];
+}
+
+/**
+ * Response of the Geocoding API, limited to the fields we read
+ */
+interface GoogleGeocodeResponse {
+	status: string;
+	results?: {
+		formatted_address?: string;
+		address_components?: GoogleAddressComponent[];
+	}[];
+}
+
+/**
+ * Default and maximum search radius for nearby places, in meters
+ */
+export const DEFAULT_NEARBY_RADIUS_M = 500;
+export const MAX_NEARBY_RADIUS_M = 50000;
+
+/**
+ * Maximum number of nearby places Google returns per search
+ */
+export const MAX_NEARBY_RESULTS = 20;
 
 /**
  * Fetch place details from Google Places API (New)
@@ -36,8 +120,7 @@ export async function fetchPlaceDetails(
 		method: 'GET',
 		headers: {
 			'X-Goog-Api-Key': apiKey,
-			'X-Goog-FieldMask':
-				'id,displayName,formattedAddress,location,addressComponents,types,rating,userRatingCount,priceLevel,websiteUri,internationalPhoneNumber',
+			'X-Goog-FieldMask': PLACE_FIELDS.join(','),
 		},
 	});
 
@@ -46,27 +129,10 @@ export async function fetchPlaceDetails(
 		throw new Error(`Google Places API error: ${response.status} - ${errorText}`);
 	}
 
-	const data = await response.json();
+	const data = await response.json<GooglePlace>();
 
 	// Transform to our normalized format
-	const summary: PlaceSummary = {
-		name: data.displayName?.text || 'Unknown Place',
-		formatted_address: data.formattedAddress || '',
-		short_address: extractShortAddress(data.formattedAddress || ''),
-		lat: data.location?.latitude || 0,
-		lng: data.location?.longitude || 0,
-		place_id: data.id || placeId,
-		maps_url: `https://www.google.com/maps/place/?q=place_id:${data.id || placeId}`,
-		website_url: data.websiteUri || null,
-		phone: data.internationalPhoneNumber || null,
-		types: data.types || [],
-		rating: data.rating || null,
-		user_rating_count: data.userRatingCount || null,
-		price_level: data.priceLevel || null,
-		provider_ids: {
-			google_places: data.id || placeId,
-		},
-	};
+	const summary = toPlaceSummary(data, placeId);
 
 	return {
 		captured_at: new Date().toISOString(),
@@ -80,6 +146,60 @@ export async function fetchPlaceDetails(
 	};
 }
 
+/**
+ * Search for places around a point with Google Places API (New) searchNearby
+ * @param lat - Latitude of the search center
+ * @param lng - Longitude of the search center
+ * @param env - Environment bindings
+ * @param useMock - Use mock data for testing
+ * @param radius - Search radius in meters
+ * @returns Normalized places, in Google's order
+ */
+export async function searchNearbyPlaces(
+	lat: number,
+	lng: number,
+	env: Env,
+	useMock = false,
+	radius = DEFAULT_NEARBY_RADIUS_M
+): Promise<PlaceSummary[]> {
+	if (useMock) {
+		return (mockNearbyPlaces.places as GooglePlace[]).map((place) => toPlaceSummary(place));
+	}
+
+	const apiKey = await env.GOOGLE_PLACES_API.get();
+	if (!apiKey) {
+		throw new Error('Google Places API key not configured');
+	}
+
+	const response = await fetch('https://places.googleapis.com/v1/places:searchNearby', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			'X-Goog-Api-Key': apiKey,
+			'X-Goog-FieldMask': PLACE_FIELDS.map((field) => `places.${field}`).join(','),
+		},
+		body: JSON.stringify({
+			locationRestriction: {
+				circle: {
+					center: { latitude: lat, longitude: lng },
+					radius,
+				},
+			},
+			maxResultCount: MAX_NEARBY_RESULTS,
+		}),
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`Google Places API error: ${response.status} - ${errorText}`);
+	}
+
+	const data = await response.json<GoogleNearbySearchResponse>();
+
+	// An empty search returns {} rather than an empty list
+	return (data.places || []).map((place) => toPlaceSummary(place));
+}
+
 /**
  * Reverse geocode coordinates to get address details
  */
@@ -107,7 +227,7 @@ export async function reverseGeocode(
 		throw new Error(`Google Geocoding API error: ${response.status} - ${errorText}`);
 	}
 
-	const data = await response.json();
+	const data = await response.json<GoogleGeocodeResponse>();
 
 	if (!data.results || data.results.length === 0) {
 		throw new Error('No geocoding results found');
@@ -145,6 +265,34 @@ export async function reverseGeocode(
 	};
 }
 
+/**
+ * Transform a Places API (New) place into our normalized format
+ * @param data - Place object from Google
+ * @param placeId - Id to fall back on when the response has none
+ */
+function toPlaceSummary(data: GooglePlace, placeId = ''): PlaceSummary {
+	const id = data.id || placeId;
+
+	return {
+		name: data.displayName?.text || 'Unknown Place',
+		formatted_address: data.formattedAddress || '',
+		short_address: extractShortAddress(data.formattedAddress || ''),
+		lat: data.location?.latitude || 0,
+		lng: data.location?.longitude || 0,
+		place_id: id,
+		maps_url: `https://www.google.com/maps/place/?q=place_id:${id}`,
+		website_url: data.websiteUri || null,
+		phone: data.internationalPhoneNumber || null,
+		types: data.types || [],
+		rating: data.rating || null,
+		user_rating_count: data.userRatingCount || null,
+		price_level: data.priceLevel ? (PRICE_LEVELS[data.priceLevel] ?? null) : null,
+		provider_ids: {
+			google_places: id,
+		},
+	};
+}
+
 /**
  * Extract short address from full formatted address
  * e.g. "66 Mint St, San Francisco, CA 94103, USA" -> "66 Mint St"
@@ -157,7 +305,7 @@ function extractShortAddress(formattedAddress: string): string {
 /**
  * Parse Google address components into normalized structure
  */
-function parseAddressComponents(components: any[]): {
+function parseAddressComponents(components: GoogleAddressComponent[]): {
 	country_code: string;
 	country_name: string;
 	region_code: string;
@@ -7,8 +7,49 @@ import type { Env } from '../../types/env';
 import type { ApiSnapshot_Weather, WeatherSummary } from '../../types/chatter';
 import mockWeather from '../../../test/fixtures/environment/mock-weather.json';
 
+const KM_PER_MILE = 1.609344;
+
+interface Temperature {
+	degrees?: number;
+	unit?: string;
+}
+
+interface Speed {
+	value?: number;
+	unit?: string;
+}
+
+interface Distance {
+	distance?: number;
+	unit?: string;
+}
+
+interface Quantity {
+	quantity?: number;
+	unit?: string;
+}
+
 /**
- * Fetch weather data from Google Weather API
+ * A currentConditions response, limited to the fields mapped into the summary
+ * Every measurement carries its unit (see toWeatherSummary)
+ */
+interface CurrentConditionsResponse {
+	currentTime?: string;
+	isDaytime?: boolean;
+	weatherCondition?: { type?: string; description?: { text?: string } };
+	temperature?: Temperature;
+	feelsLikeTemperature?: Temperature;
+	relativeHumidity?: number;
+	uvIndex?: number;
+	precipitation?: { probability?: { percent?: number }; qpf?: Quantity };
+	airPressure?: { meanSeaLevelMillibars?: number };
+	wind?: { direction?: { degrees?: number }; speed?: Speed; gust?: Speed };
+	visibility?: Distance;
+	cloudCover?: number;
+}
+
+/**
+ * Fetch current conditions from Google Weather API
  */
 export async function fetchWeather(
 	lat: number,
@@ -34,16 +75,7 @@ export async function fetchWeather(
 		throw new Error(`Google Weather API error: ${response.status} - ${errorText}`);
 	}
 
-	const data = await response.json();
-
-	// Transform to our normalized format (US units)
-	const summary: WeatherSummary = {
-		timestamp: new Date().toISOString(),
-		temp_f: data.temperature?.degrees || undefined,
-		condition_text: data.weatherCondition?.description?.text || undefined,
-		// Google Weather API returns limited fields; map what's available
-		// Many fields may not be present in the response
-	};
+	const data = await response.json<CurrentConditionsResponse>();
 
 	return {
 		captured_at: new Date().toISOString(),
@@ -52,7 +84,91 @@ export async function fetchWeather(
 			product: 'weather',
 			version: 'v1',
 		},
-		summary,
+		summary: toWeatherSummary(data),
 		full: data,
 	};
 }
+
+/**
+ * Map a currentConditions response to the summary in US units
+ * Google answers in metric unless unitsSystem=IMPERIAL was requested, and labels every
+ * measurement with its unit, so both are accepted; values in unknown units are left out.
+ */
+function toWeatherSummary(data: CurrentConditionsResponse): WeatherSummary {
+	return {
+		timestamp: data.currentTime ?? new Date().toISOString(),
+		temp_f: toFahrenheit(data.temperature),
+		temp_feels_f: toFahrenheit(data.feelsLikeTemperature),
+		condition_code: data.weatherCondition?.type?.toLowerCase(),
+		condition_text: data.weatherCondition?.description?.text,
+		is_daytime: data.isDaytime,
+		humidity_pct: data.relativeHumidity,
+		pressure_inhg: millibarsToInHg(data.airPressure?.meanSeaLevelMillibars),
+		wind_speed_mph: toMph(data.wind?.speed),
+		wind_gust_mph: toMph(data.wind?.gust),
+		wind_dir_deg: data.wind?.direction?.degrees,
+		// qpf in current conditions is the precipitation of the last hour
+		precip_in_last_1h: toInches(data.precipitation?.qpf),
+		precip_chance_pct: data.precipitation?.probability?.percent,
+		cloud_pct: data.cloudCover,
+		visibility_miles: toMiles(data.visibility),
+		uv_index: data.uvIndex,
+	};
+}
+
+function toFahrenheit(temperature: Temperature | undefined): number | undefined {
+	if (typeof temperature?.degrees !== 'number') return undefined;
+	switch (temperature.unit) {
+		case 'FAHRENHEIT':
+			return round(temperature.degrees, 1);
+		case 'CELSIUS':
+			return round((temperature.degrees * 9) / 5 + 32, 1);
+		default:
+			return undefined;
+	}
+}
+
+function toMph(speed: Speed | undefined): number | undefined {
+	if (typeof speed?.value !== 'number') return undefined;
+	switch (speed.unit) {
+		case 'MILES_PER_HOUR':
+			return round(speed.value, 1);
+		case 'KILOMETERS_PER_HOUR':
+			return round(speed.value / KM_PER_MILE, 1);
+		default:
+			return undefined;
+	}
+}
+
+function toMiles(visibility: Distance | undefined): number | undefined {
+	if (typeof visibility?.distance !== 'number') return undefined;
+	switch (visibility.unit) {
+		case 'MILES':
+			return round(visibility.distance, 1);
+		case 'KILOMETERS':
+			return round(visibility.distance / KM_PER_MILE, 1);
+		default:
+			return undefined;
+	}
+}
+
+function toInches(qpf: Quantity | undefined): number | undefined {
+	if (typeof qpf?.quantity !== 'number') return undefined;
+	switch (qpf.unit) {
+		case 'INCHES':
+			return round(qpf.quantity, 2);
+		case 'MILLIMETERS':
+			return round(qpf.quantity / 25.4, 2);
+		default:
+			return undefined;
+	}
+}
+
+function millibarsToInHg(millibars: number | undefined): number | undefined {
+	return typeof millibars === 'number' ? round(millibars * 0.02953, 2) : undefined;
+}
+
+function round(value: number, digits: number): number {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
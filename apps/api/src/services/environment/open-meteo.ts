@@ -0,0 +1,391 @@
+/**
+ * Open-Meteo weather and air quality service
+ * Keyless alternative to the Google products; point OPEN_METEO_URL at a self-hosted
+ * Open-Meteo server to run without any third-party calls.
+ */
+
+import type { Env } from '../../types/env';
+import type { ApiSnapshot_AirQuality, ApiSnapshot_Weather, AirQualitySummary, WeatherSummary } from '../../types/chatter';
+import mockWeather from '../../../test/fixtures/environment/open-meteo-weather.json';
+import mockAirQuality from '../../../test/fixtures/environment/open-meteo-air-quality.json';
+
+/**
+ * Public API hosts, used when OPEN_METEO_URL is not set
+ */
+const WEATHER_URL = 'https://api.open-meteo.com';
+const AIR_QUALITY_URL = 'https://air-quality-api.open-meteo.com';
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com';
+
+/**
+ * Hourly variables the historical archive (reanalysis) provides; it has no visibility, UV index or precipitation chance
+ */
+const ARCHIVE_VARIABLES = [
+	'temperature_2m',
+	'apparent_temperature',
+	'relative_humidity_2m',
+	'is_day',
+	'weather_code',
+	'pressure_msl',
+	'wind_speed_10m',
+	'wind_gusts_10m',
+	'wind_direction_10m',
+	'precipitation',
+	'cloud_cover',
+];
+
+const WEATHER_VARIABLES = [
+	'temperature_2m',
+	'apparent_temperature',
+	'relative_humidity_2m',
+	'is_day',
+	'weather_code',
+	'pressure_msl',
+	'wind_speed_10m',
+	'wind_gusts_10m',
+	'wind_direction_10m',
+	'precipitation',
+	'precipitation_probability',
+	'cloud_cover',
+	'visibility',
+	'uv_index',
+];
+
+/**
+ * Pollutant display names, keyed by Open-Meteo variable (the US AQI sub-index is us_aqi_<variable>)
+ */
+const POLLUTANTS = {
+	pm2_5: 'PM2.5',
+	pm10: 'PM10',
+	ozone: 'O3',
+	nitrogen_dioxide: 'NO2',
+	sulphur_dioxide: 'SO2',
+	carbon_monoxide: 'CO',
+} as const;
+
+/**
+ * Molar masses (g/mol) for converting µg/m³ to ppb at 25 °C: ppb = µg/m³ × 24.45 / molar mass
+ */
+const MOLAR_MASS = {
+	ozone: 48.0,
+	nitrogen_dioxide: 46.01,
+	sulphur_dioxide: 64.07,
+	carbon_monoxide: 28.01,
+};
+
+type Pollutant = keyof typeof POLLUTANTS;
+
+/**
+ * Open-Meteo's body for a request it cannot answer (e.g. coordinates out of range)
+ */
+interface OpenMeteoError {
+	error?: boolean;
+	reason?: string;
+}
+
+/**
+ * Values of WEATHER_VARIABLES for one moment; a variable the model has no value for is null
+ */
+interface OpenMeteoWeatherValues {
+	time?: number;
+	temperature_2m?: number | null;
+	apparent_temperature?: number | null;
+	relative_humidity_2m?: number | null;
+	is_day?: number | null;
+	weather_code?: number | null;
+	pressure_msl?: number | null;
+	wind_speed_10m?: number | null;
+	wind_gusts_10m?: number | null;
+	wind_direction_10m?: number | null;
+	precipitation?: number | null;
+	precipitation_probability?: number | null;
+	cloud_cover?: number | null;
+	visibility?: number | null;
+	uv_index?: number | null;
+}
+
+/**
+ * Forecast response for the current conditions; current_units names the unit of each variable
+ */
+interface OpenMeteoWeatherResponse {
+	current: OpenMeteoWeatherValues;
+	current_units?: Record<string, string>;
+}
+
+/**
+ * Archive response: hourly series of ARCHIVE_VARIABLES, each parallel to time
+ */
+interface OpenMeteoArchiveResponse extends OpenMeteoError {
+	hourly?: { time?: number[] } & Record<string, (number | null)[] | undefined>;
+	hourly_units?: Record<string, string>;
+}
+
+/**
+ * Values of AIR_QUALITY_VARIABLES for one moment, concentrations in µg/m³
+ */
+type OpenMeteoAirQualityValues = { time?: number } & Partial<Record<Pollutant | `us_aqi_${Pollutant}` | 'us_aqi', number | null>>;
+
+interface OpenMeteoAirQualityResponse {
+	current: OpenMeteoAirQualityValues;
+	current_units?: Record<string, string>;
+}
+
+const AIR_QUALITY_VARIABLES = ['us_aqi', ...Object.keys(POLLUTANTS).map((pollutant) => `us_aqi_${pollutant}`), ...Object.keys(POLLUTANTS)];
+
+/**
+ * WMO weather interpretation codes, as returned in weather_code
+ */
+const WMO_CONDITIONS: Record<number, [code: string, text: string]> = {
+	0: ['clear', 'Clear sky'],
+	1: ['mostly_clear', 'Mainly clear'],
+	2: ['partly_cloudy', 'Partly cloudy'],
+	3: ['cloudy', 'Overcast'],
+	45: ['fog', 'Fog'],
+	48: ['fog', 'Depositing rime fog'],
+	51: ['light_drizzle', 'Light drizzle'],
+	53: ['drizzle', 'Moderate drizzle'],
+	55: ['heavy_drizzle', 'Dense drizzle'],
+	56: ['freezing_drizzle', 'Light freezing drizzle'],
+	57: ['freezing_drizzle', 'Dense freezing drizzle'],
+	61: ['light_rain', 'Slight rain'],
+	63: ['rain', 'Moderate rain'],
+	65: ['heavy_rain', 'Heavy rain'],
+	66: ['freezing_rain', 'Light freezing rain'],
+	67: ['freezing_rain', 'Heavy freezing rain'],
+	71: ['light_snow', 'Slight snow fall'],
+	73: ['snow', 'Moderate snow fall'],
+	75: ['heavy_snow', 'Heavy snow fall'],
+	77: ['snow_grains', 'Snow grains'],
+	80: ['rain_showers', 'Slight rain showers'],
+	81: ['rain_showers', 'Moderate rain showers'],
+	82: ['heavy_rain_showers', 'Violent rain showers'],
+	85: ['snow_showers', 'Slight snow showers'],
+	86: ['heavy_snow_showers', 'Heavy snow showers'],
+	95: ['thunderstorm', 'Thunderstorm'],
+	96: ['thunderstorm_with_hail', 'Thunderstorm with slight hail'],
+	99: ['thunderstorm_with_hail', 'Thunderstorm with heavy hail'],
+};
+
+/**
+ * Fetch current weather from Open-Meteo in US units
+ */
+export async function fetchOpenMeteoWeather(lat: number, lng: number, env: Env, useMock = false): Promise<ApiSnapshot_Weather> {
+	if (useMock) {
+		return toWeatherSnapshot(mockWeather);
+	}
+
+	const params = new URLSearchParams({
+		latitude: String(lat),
+		longitude: String(lng),
+		current: WEATHER_VARIABLES.join(','),
+		temperature_unit: 'fahrenheit',
+		wind_speed_unit: 'mph',
+		precipitation_unit: 'inch',
+		timeformat: 'unixtime',
+	});
+
+	const data = await getJson<OpenMeteoWeatherResponse>(`${env.OPEN_METEO_URL || WEATHER_URL}/v1/forecast?${params}`, 'weather');
+	return toWeatherSnapshot(data);
+}
+
+/**
+ * Fetch the weather of a past hour from the Open-Meteo historical archive in US units
+ * The archive lags real time by a few days; an hour it has no data for is an error.
+ * @param at - Moment to look up; the summary describes the nearest archived hour
+ */
+export async function fetchOpenMeteoWeatherAt(lat: number, lng: number, at: Date, env: Env): Promise<ApiSnapshot_Weather> {
+	const day = at.toISOString().slice(0, 10);
+	const params = new URLSearchParams({
+		latitude: String(lat),
+		longitude: String(lng),
+		start_date: day,
+		end_date: day,
+		hourly: ARCHIVE_VARIABLES.join(','),
+		temperature_unit: 'fahrenheit',
+		wind_speed_unit: 'mph',
+		precipitation_unit: 'inch',
+		timeformat: 'unixtime',
+	});
+
+	const url = `${env.OPEN_METEO_URL || ARCHIVE_URL}/v1/archive?${params}`;
+	const response = await fetch(url);
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`Open-Meteo archive API error: ${response.status} - ${errorText}`);
+	}
+
+	const data = await response.json<OpenMeteoArchiveResponse>();
+	const hourly = data.hourly;
+	const times = hourly?.time;
+	if (data.error || !hourly || !Array.isArray(times) || times.length === 0) {
+		throw new Error(`Open-Meteo archive API error: ${data.reason ?? 'no hourly data'}`);
+	}
+
+	// Hourly series are parallel arrays; pick the hour nearest the moment
+	const target = at.getTime() / 1000;
+	let index = 0;
+	times.forEach((time, i) => {
+		if (Math.abs(time - target) < Math.abs(times[index] - target)) index = i;
+	});
+
+	if (typeof hourly.temperature_2m?.[index] !== 'number') {
+		throw new Error(`Open-Meteo archive API error: no observation for ${new Date(times[index] * 1000).toISOString()}`);
+	}
+
+	const current: OpenMeteoWeatherValues = Object.fromEntries(
+		Object.entries(hourly).map(([variable, values]) => [variable, values?.[index]]),
+	);
+	const snapshot = toWeatherSnapshot({ current, current_units: data.hourly_units });
+	return { ...snapshot, full: data };
+}
+
+/**
+ * Fetch current air quality from Open-Meteo on the US EPA scale
+ */
+export async function fetchOpenMeteoAirQuality(lat: number, lng: number, env: Env, useMock = false): Promise<ApiSnapshot_AirQuality> {
+	if (useMock) {
+		return toAirQualitySnapshot(mockAirQuality);
+	}
+
+	const params = new URLSearchParams({
+		latitude: String(lat),
+		longitude: String(lng),
+		current: AIR_QUALITY_VARIABLES.join(','),
+		timeformat: 'unixtime',
+	});
+
+	const data = await getJson<OpenMeteoAirQualityResponse>(
+		`${env.OPEN_METEO_URL || AIR_QUALITY_URL}/v1/air-quality?${params}`,
+		'air quality',
+	);
+	return toAirQualitySnapshot(data);
+}
+
+/**
+ * GET an Open-Meteo endpoint, throwing on HTTP errors and on Open-Meteo's `{ error: true }` bodies
+ */
+async function getJson<T extends { current: object }>(url: string, product: string): Promise<T> {
+	const response = await fetch(url);
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`Open-Meteo ${product} API error: ${response.status} - ${errorText}`);
+	}
+
+	const data = await response.json<Partial<T> & OpenMeteoError>();
+	if (data.error || !data.current) {
+		throw new Error(`Open-Meteo ${product} API error: ${data.reason ?? 'no current conditions'}`);
+	}
+
+	return data as T;
+}
+
+function toWeatherSnapshot(data: OpenMeteoWeatherResponse): ApiSnapshot_Weather {
+	const current = data.current;
+	const [conditionCode, conditionText] = (typeof current.weather_code === 'number' && WMO_CONDITIONS[current.weather_code]) || [];
+
+	const summary: WeatherSummary = {
+		timestamp: toIsoTime(current.time),
+		temp_f: current.temperature_2m ?? undefined,
+		temp_feels_f: current.apparent_temperature ?? undefined,
+		condition_code: conditionCode,
+		condition_text: conditionText,
+		is_daytime: typeof current.is_day === 'number' ? current.is_day === 1 : undefined,
+		humidity_pct: current.relative_humidity_2m ?? undefined,
+		pressure_inhg: typeof current.pressure_msl === 'number' ? round(current.pressure_msl * 0.02953, 2) : undefined,
+		wind_speed_mph: current.wind_speed_10m ?? undefined,
+		wind_gust_mph: current.wind_gusts_10m ?? undefined,
+		wind_dir_deg: current.wind_direction_10m ?? undefined,
+		precip_in_last_1h: current.precipitation ?? undefined,
+		precip_chance_pct: current.precipitation_probability ?? undefined,
+		cloud_pct: current.cloud_cover ?? undefined,
+		visibility_miles: toMiles(current.visibility, data.current_units?.visibility),
+		uv_index: current.uv_index ?? undefined,
+	};
+
+	return {
+		captured_at: new Date().toISOString(),
+		provider: {
+			name: 'open-meteo',
+			product: 'weather',
+			version: 'v1',
+		},
+		summary,
+		full: data,
+	};
+}
+
+function toAirQualitySnapshot(data: OpenMeteoAirQualityResponse): ApiSnapshot_AirQuality {
+	const current = data.current;
+
+	// The dominant pollutant is the one with the highest sub-index
+	let dominant: Pollutant | undefined;
+	let dominantIndex = -Infinity;
+	for (const pollutant of Object.keys(POLLUTANTS) as Pollutant[]) {
+		const index = current[`us_aqi_${pollutant}`];
+		if (typeof index === 'number' && index > dominantIndex) {
+			dominant = pollutant;
+			dominantIndex = index;
+		}
+	}
+
+	const summary: AirQualitySummary = {
+		timestamp: toIsoTime(current.time),
+		aqi: current.us_aqi ?? undefined,
+		aqi_scale: 'US EPA',
+		aqi_category: typeof current.us_aqi === 'number' ? usAqiCategory(current.us_aqi) : undefined,
+		dominant_pollutant: dominant && POLLUTANTS[dominant],
+		pm25_ugm3: current.pm2_5 ?? undefined,
+		pm10_ugm3: current.pm10 ?? undefined,
+		o3_ppb: toPpb(current.ozone, MOLAR_MASS.ozone, 1),
+		no2_ppb: toPpb(current.nitrogen_dioxide, MOLAR_MASS.nitrogen_dioxide, 1),
+		so2_ppb: toPpb(current.sulphur_dioxide, MOLAR_MASS.sulphur_dioxide, 1),
+		co_ppm: toPpb(current.carbon_monoxide, MOLAR_MASS.carbon_monoxide * 1000, 3),
+	};
+
+	return {
+		captured_at: new Date().toISOString(),
+		provider: {
+			name: 'open-meteo',
+			product: 'air_quality',
+			version: 'v1',
+		},
+		summary,
+		full: data,
+	};
+}
+
+/**
+ * US EPA category for an AQI value
+ */
+function usAqiCategory(aqi: number): string {
+	if (aqi <= 50) return 'Good';
+	if (aqi <= 100) return 'Moderate';
+	if (aqi <= 150) return 'Unhealthy for Sensitive Groups';
+	if (aqi <= 200) return 'Unhealthy';
+	if (aqi <= 300) return 'Very Unhealthy';
+	return 'Hazardous';
+}
+
+function toIsoTime(unixSeconds: unknown): string | undefined {
+	return typeof unixSeconds === 'number' ? new Date(unixSeconds * 1000).toISOString() : undefined;
+}
+
+/**
+ * µg/m³ to ppb (or to ppm, given the molar mass × 1000)
+ */
+function toPpb(ugm3: number | null | undefined, molarMass: number, digits: number): number | null {
+	return typeof ugm3 === 'number' ? round((ugm3 * 24.45) / molarMass, digits) : null;
+}
+
+/**
+ * Visibility in miles; Open-Meteo reports meters, or feet when imperial units are requested
+ */
+function toMiles(visibility: number | null | undefined, unit: string | undefined): number | undefined {
+	if (typeof visibility !== 'number') return undefined;
+	return round(unit === 'ft' ? visibility / 5280 : visibility / 1609.344, 1);
+}
+
+function round(value: number, digits: number): number {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,136 @@
+/**
+ * Enrichment limits
+ * Keeps a slow or failing provider from stalling a post: every provider call has a timeout and
+ * goes through the provider's circuit breaker, and the whole enrichment has a deadline after
+ * which missing snapshots are given up on. Skipped snapshots are reported in environment.errors.
+ */
+
+import type { Env } from '../../types/env';
+import type { ApiSnapshot, EnvironmentError, EnvironmentErrorReason } from '../../types/chatter';
+import type { EnvironmentProvider } from './providers';
+import { circuitKey, getCircuit, isCircuitOpen, recordProviderFailure, recordProviderSuccess } from './circuit-breaker';
+
+/**
+ * Default time allowed for one provider call
+ */
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 3000;
+
+/**
+ * Default time allowed for the whole enrichment of a post
+ */
+export const DEFAULT_ENRICHMENT_DEADLINE_MS = 5000;
+
+export interface EnrichmentLimits {
+	providerTimeoutMs: number;
+	deadlineMs: number;
+}
+
+/**
+ * Error explaining why a snapshot was skipped
+ */
+export class EnrichmentSkipError extends Error {
+	constructor(
+		public readonly reason: EnvironmentErrorReason,
+		message: string,
+	) {
+		super(message);
+		this.name = 'EnrichmentSkipError';
+	}
+}
+
+/**
+ * Limits from Env (ENRICHMENT_PROVIDER_TIMEOUT_MS, ENRICHMENT_DEADLINE_MS), falling back to the defaults
+ */
+export function enrichmentLimits(env: Env): EnrichmentLimits {
+	const milliseconds = (value: string | undefined, fallback: number): number => {
+		const parsed = Number(value);
+		return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+	};
+
+	return {
+		providerTimeoutMs: milliseconds(env.ENRICHMENT_PROVIDER_TIMEOUT_MS, DEFAULT_PROVIDER_TIMEOUT_MS),
+		deadlineMs: milliseconds(env.ENRICHMENT_DEADLINE_MS, DEFAULT_ENRICHMENT_DEADLINE_MS),
+	};
+}
+
+/**
+ * Settle with the promise, or reject with a skip error once `ms` have passed
+ * The promise itself keeps running; its result is ignored after the timeout.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, reason: EnvironmentErrorReason, message: string): Promise<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(new EnrichmentSkipError(reason, message)), Math.max(ms, 0));
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Call a provider through its circuit breaker, with a timeout
+ * Timeouts and errors count as failures. Circuit state errors are logged and never fail the call.
+ * @param key - Circuit key (see circuitKey)
+ * @param call - The provider call
+ * @throws EnrichmentSkipError when the circuit is open or the call times out; otherwise what the call throws
+ */
+export async function callProvider<T>(key: string, call: () => Promise<T>, env: Env, timeoutMs: number): Promise<T> {
+	let circuit: Awaited<ReturnType<typeof getCircuit>> = null;
+	try {
+		circuit = await getCircuit(env, key);
+	} catch (error) {
+		console.error(`Circuit read failed for ${key}:`, error);
+	}
+
+	if (isCircuitOpen(circuit)) {
+		throw new EnrichmentSkipError(
+			'circuit_open',
+			`${key} failed ${circuit!.failures} times in a row; skipped until ${circuit!.openUntil!.toISOString()}`,
+		);
+	}
+
+	let result: T;
+	try {
+		result = await withTimeout(call(), timeoutMs, 'timeout', `${key} did not answer within ${timeoutMs}ms`);
+	} catch (error) {
+		try {
+			await recordProviderFailure(env, key, error instanceof Error ? error.message : String(error));
+		} catch (recordError) {
+			console.error(`Circuit write failed for ${key}:`, recordError);
+		}
+		throw error;
+	}
+
+	if (circuit) {
+		try {
+			await recordProviderSuccess(env, key);
+		} catch (error) {
+			console.error(`Circuit write failed for ${key}:`, error);
+		}
+	}
+	return result;
+}
+
+/**
+ * The provider with its fetch calls going through callProvider
+ * Wrap the provider before the snapshot cache, so cache hits are served even while the circuit is open.
+ */
+export function guardProvider<T>(provider: EnvironmentProvider<T>, limits: EnrichmentLimits): EnvironmentProvider<T> {
+	const key = circuitKey(provider.product, provider.name);
+	return {
+		...provider,
+		fetch: (lat, lng, env) => callProvider<ApiSnapshot<T>>(key, () => provider.fetch(lat, lng, env), env, limits.providerTimeoutMs),
+		fetchAt: provider.fetchAt
+			? (lat, lng, at, env) => callProvider<ApiSnapshot<T>>(key, () => provider.fetchAt!(lat, lng, at, env), env, limits.providerTimeoutMs)
+			: undefined,
+	};
+}
+
+/**
+ * Describe why a snapshot is missing
+ */
+export function environmentError(provider: string, error: unknown): EnvironmentError {
+	return {
+		provider,
+		reason: error instanceof EnrichmentSkipError ? error.reason : 'failed',
+		message: error instanceof Error ? error.message : String(error),
+	};
+}
@@ -0,0 +1,113 @@
+/**
+ * Environment provider registry
+ * Each enrichment product (weather, air quality, ...) has one or more providers that map their
+ * responses into the same summary type. Which one runs is chosen per product in Env
+ * (e.g. WEATHER_PROVIDER=open-meteo); Google is the default for every product.
+ */
+
+import type { Env } from '../../types/env';
+import type { ApiSnapshot, Environment } from '../../types/chatter';
+import { fetchWeather } from './google-weather';
+import { fetchAirQuality } from './google-air-quality';
+import { fetchPollen } from './google-pollen';
+import { fetchElevation } from './google-elevation';
+import { reverseGeocode } from './google-places';
+import { fetchOpenMeteoAirQuality, fetchOpenMeteoWeather, fetchOpenMeteoWeatherAt } from './open-meteo';
+
+/**
+ * Location-based enrichment products, named as in the chatter's environment object
+ */
+export type EnvironmentProduct = 'weather' | 'air_quality' | 'pollen' | 'elevation' | 'geocoding';
+
+/**
+ * Snapshot type produced for a product
+ */
+export type ProductSnapshot<P extends EnvironmentProduct> = NonNullable<Environment[P]>;
+
+/**
+ * One provider of one product
+ */
+export interface EnvironmentProvider<T = unknown> {
+	/** Provider name, as recorded in the snapshot's provider.name and used in the Env setting */
+	name: string;
+	product: EnvironmentProduct;
+	/** Fetch a snapshot for the coordinates; useMock returns fixture data without network calls */
+	fetch(lat: number, lng: number, env: Env, useMock?: boolean): Promise<ApiSnapshot<T>>;
+	/** Fetch a snapshot for a past moment; only providers with historical data implement it */
+	fetchAt?(lat: number, lng: number, at: Date, env: Env): Promise<ApiSnapshot<T>>;
+}
+
+/**
+ * Env setting that selects the provider of each product
+ */
+const PROVIDER_SETTINGS = {
+	weather: 'WEATHER_PROVIDER',
+	air_quality: 'AIR_QUALITY_PROVIDER',
+	pollen: 'POLLEN_PROVIDER',
+	elevation: 'ELEVATION_PROVIDER',
+	geocoding: 'GEOCODING_PROVIDER',
+} as const satisfies Record<EnvironmentProduct, keyof Env>;
+
+const DEFAULT_PROVIDER = 'google';
+
+/**
+ * Registered providers, keyed by product and then by provider name
+ */
+export const ENVIRONMENT_PROVIDERS: {
+	readonly [P in EnvironmentProduct]: Readonly<Record<string, EnvironmentProvider<ProductSnapshot<P>['summary']>>>;
+} = {
+	weather: {
+		google: { name: 'google', product: 'weather', fetch: fetchWeather },
+		'open-meteo': { name: 'open-meteo', product: 'weather', fetch: fetchOpenMeteoWeather, fetchAt: fetchOpenMeteoWeatherAt },
+	},
+	air_quality: {
+		google: { name: 'google', product: 'air_quality', fetch: fetchAirQuality },
+		'open-meteo': { name: 'open-meteo', product: 'air_quality', fetch: fetchOpenMeteoAirQuality },
+	},
+	pollen: {
+		google: { name: 'google', product: 'pollen', fetch: fetchPollen },
+	},
+	elevation: {
+		google: { name: 'google', product: 'elevation', fetch: fetchElevation },
+	},
+	geocoding: {
+		google: { name: 'google', product: 'geocoding', fetch: reverseGeocode },
+	},
+};
+
+/**
+ * Error thrown when Env names a provider that is not registered for the product
+ */
+export class UnknownProviderError extends Error {
+	constructor(
+		public readonly product: EnvironmentProduct,
+		public readonly provider: string,
+	) {
+		super(`Unknown ${product} provider: ${provider}`);
+		this.name = 'UnknownProviderError';
+	}
+}
+
+/**
+ * Name of the provider configured for a product, whether or not it is registered
+ */
+export function providerName(product: EnvironmentProduct, env: Env): string {
+	return env[PROVIDER_SETTINGS[product]] || DEFAULT_PROVIDER;
+}
+
+/**
+ * The provider configured for a product
+ * @param product - Enrichment product
+ * @param env - Environment bindings, read for the product's *_PROVIDER setting
+ * @returns The configured provider, or Google when the setting is empty
+ * @throws UnknownProviderError when the setting names an unregistered provider
+ */
+export function getProvider<P extends EnvironmentProduct>(product: P, env: Env): EnvironmentProvider<ProductSnapshot<P>['summary']> {
+	const name = providerName(product, env);
+	const providers: Readonly<Record<string, EnvironmentProvider<ProductSnapshot<P>['summary']>>> = ENVIRONMENT_PROVIDERS[product];
+
+	if (!Object.prototype.hasOwnProperty.call(providers, name)) {
+		throw new UnknownProviderError(product, name);
+	}
+	return providers[name];
+}
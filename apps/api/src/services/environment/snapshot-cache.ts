@@ -0,0 +1,124 @@
+/**
+ * Environment snapshot cache
+ * Shares provider snapshots between posts made from the same place within the same time bucket,
+ * so two posts a minute apart cost one set of provider calls. Entries live in D1 (environment_cache).
+ */
+
+import { eq, lte } from 'drizzle-orm';
+import type { Env } from '../../types/env';
+import type { ApiSnapshot } from '../../types/chatter';
+import { connectD1, schema } from '../../db/client';
+import type { EnvironmentProduct, EnvironmentProvider } from './providers';
+
+/**
+ * How one product is cached
+ */
+export interface CachePolicy {
+	/** Decimal places kept when rounding coordinates (2 ≈ 1.1 km, 3 ≈ 110 m) */
+	precision: number;
+	/** Length of a time bucket in seconds; null caches the snapshot forever */
+	bucketSeconds: number | null;
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Per-product cache policies
+ * Conditions change on the scale of the bucket; the cell size matches how local the data is.
+ */
+export const CACHE_POLICIES: Readonly<Record<EnvironmentProduct, CachePolicy>> = {
+	weather: { precision: 2, bucketSeconds: 15 * MINUTE },
+	air_quality: { precision: 2, bucketSeconds: HOUR },
+	pollen: { precision: 1, bucketSeconds: DAY },
+	geocoding: { precision: 3, bucketSeconds: 30 * DAY },
+	elevation: { precision: 3, bucketSeconds: null },
+};
+
+/**
+ * Cache key for a provider's product at a location and time
+ * e.g. weather:google:51.51,-0.13:1957920 (the bucket is the number of 15 minute periods since the epoch)
+ */
+export function snapshotCacheKey(product: EnvironmentProduct, provider: string, lat: number, lng: number, now: Date): string {
+	const { precision, bucketSeconds } = CACHE_POLICIES[product];
+	// Number() drops trailing zeros and turns -0.00 into 0, so each cell has one spelling
+	const cell = `${Number(lat.toFixed(precision))},${Number(lng.toFixed(precision))}`;
+	const bucket = bucketSeconds === null ? 'forever' : String(Math.floor(now.getTime() / 1000 / bucketSeconds));
+	return `${product}:${provider}:${cell}:${bucket}`;
+}
+
+/**
+ * When an entry written now stops being served: the end of its time bucket
+ */
+function expiryFor(product: EnvironmentProduct, now: Date): Date | null {
+	const { bucketSeconds } = CACHE_POLICIES[product];
+	if (bucketSeconds === null) return null;
+	const bucketEnd = (Math.floor(now.getTime() / 1000 / bucketSeconds) + 1) * bucketSeconds;
+	return new Date(bucketEnd * 1000);
+}
+
+/**
+ * Return a cached snapshot for the location and time bucket, or fetch and cache a fresh one
+ * Entries are per provider, so switching providers never serves another provider's data.
+ * Cached snapshots keep their original captured_at and are marked `cached: true`; fresh ones
+ * are marked `cached: false`. Cache read and write errors are logged and never fail the fetch.
+ *
+ * @param provider - Provider to call on a miss; its product selects the cell size and bucket length
+ * @param lat - Latitude of the post
+ * @param lng - Longitude of the post
+ * @param env - Environment bindings
+ * @param now - Time used for the bucket (defaults to the current time)
+ * @returns The cached or fresh snapshot
+ * @throws Whatever the provider throws on a cache miss
+ */
+export async function withSnapshotCache<T>(
+	provider: EnvironmentProvider<T>,
+	lat: number,
+	lng: number,
+	env: Env,
+	now = new Date(),
+): Promise<ApiSnapshot<T>> {
+	const orm = connectD1(env.DB);
+	const { environmentCache } = schema;
+	const { product } = provider;
+	const key = snapshotCacheKey(product, provider.name, lat, lng, now);
+
+	try {
+		const entry = await orm.select().from(environmentCache).where(eq(environmentCache.key, key)).get();
+		if (entry && (entry.expiresAt === null || entry.expiresAt > now)) {
+			return { ...(JSON.parse(entry.snapshot) as ApiSnapshot<T>), cached: true };
+		}
+	} catch (error) {
+		console.error(`Snapshot cache read failed for ${key}:`, error);
+	}
+
+	const snapshot = await provider.fetch(lat, lng, env);
+
+	try {
+		const expiresAt = expiryFor(product, now);
+		await orm
+			.insert(environmentCache)
+			.values({ key, product, snapshot: JSON.stringify(snapshot), expiresAt })
+			.onConflictDoUpdate({ target: environmentCache.key, set: { snapshot: JSON.stringify(snapshot), expiresAt } });
+	} catch (error) {
+		console.error(`Snapshot cache write failed for ${key}:`, error);
+	}
+
+	return { ...snapshot, cached: false };
+}
+
+/**
+ * Delete expired cache entries
+ * @param db - D1 database
+ * @param now - Entries that expired at or before this time are deleted
+ * @returns Number of entries deleted
+ */
+export async function pruneSnapshotCache(db: D1Database, now = new Date()): Promise<number> {
+	const orm = connectD1(db);
+	const { environmentCache } = schema;
+
+	const deleted = await orm.delete(environmentCache).where(lte(environmentCache.expiresAt, now)).returning({ key: environmentCache.key });
+
+	return deleted.length;
+}
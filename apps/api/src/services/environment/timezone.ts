@@ -0,0 +1,100 @@
+/**
+ * Offline timezone lookup
+ * Finds the IANA zone for lat/lng in the boundary grid of @photostructure/tz-lookup (compacted from
+ * timezone-boundary-builder) and renders date_posted as local wall time with Intl, so no network
+ * call is needed.
+ */
+
+import tzlookup from '@photostructure/tz-lookup';
+import type { ApiSnapshot_Timezone, TimezoneSummary } from '../../types/chatter';
+
+export type TimezoneLookupMethod = 'boundary-grid' | 'longitude-offset';
+
+/**
+ * IANA zone containing a point
+ * @param lat - Latitude in degrees
+ * @param lng - Longitude in degrees
+ * @returns The zone from the boundary grid; at sea, the grid's Etc/GMT zone for the longitude
+ */
+export function lookupTimezone(lat: number, lng: number): { zone: string; method: TimezoneLookupMethod } {
+	// At sea the grid answers with nautical time, one hour per 15° of longitude.
+	// Etc/GMT signs are inverted (Etc/GMT+8 is UTC-8).
+	const zone = tzlookup(lat, lng);
+	return { zone, method: zone.startsWith('Etc/') ? 'longitude-offset' : 'boundary-grid' };
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in minutes
+ */
+function utcOffsetMinutes(zone: string, date: Date): number {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone: zone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+		})
+			.formatToParts(date)
+			.map((part) => [part.type, Number(part.value)]),
+	);
+	const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+	return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+/**
+ * Short zone name (e.g. PDT), or undefined when Intl only knows a GMT offset for the zone
+ */
+function zoneAbbreviation(zone: string, date: Date): string | undefined {
+	const name = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+		.formatToParts(date)
+		.find((part) => part.type === 'timeZoneName')?.value;
+
+	return name && !name.startsWith('GMT') ? name : undefined;
+}
+
+/**
+ * ISO 8601 local time with offset, e.g. 2025-06-01T05:00:00-07:00
+ */
+function formatLocalTime(date: Date, offsetMinutes: number): string {
+	const local = new Date(date.getTime() + offsetMinutes * 60_000).toISOString().slice(0, 19);
+	const sign = offsetMinutes < 0 ? '-' : '+';
+	const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0');
+	const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, '0');
+
+	return `${local}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Compute the timezone snapshot for a place and time
+ * @param lat - Latitude in degrees
+ * @param lng - Longitude in degrees
+ * @param date - The moment of the post (date_posted)
+ * @returns Snapshot with the zone and the post's local wall time
+ */
+export function computeTimezone(lat: number, lng: number, date: Date): ApiSnapshot_Timezone {
+	const { zone, method } = lookupTimezone(lat, lng);
+	const offset = utcOffsetMinutes(zone, date);
+
+	const summary: TimezoneSummary = {
+		zone,
+		abbreviation: zoneAbbreviation(zone, date),
+		utc_offset_minutes: offset,
+		local_time: formatLocalTime(date, offset),
+	};
+
+	return {
+		captured_at: new Date().toISOString(),
+		provider: {
+			name: 'offline',
+			product: 'timezone',
+			version: 'v1',
+		},
+		summary,
+		full: { method },
+	};
+}
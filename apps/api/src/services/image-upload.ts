@@ -1,5 +1,8 @@
 import type { Env } from '../types/env';
 import { extractMetadata, type ImageMetadata } from './metadata-extractor';
+import { artifactKey, artifactPhotographId } from './artifacts';
+import { processJsonFromR2 } from './json-processor';
+import { typeAliases } from './type-resolver';
 
 /**
  * Allowed image MIME types
@@ -21,11 +24,18 @@ export class ImageUploadError extends Error {
 	}
 }
 
+/**
+ * Folder of the photograph records written for uploads (resolved to photographs by its alias)
+ */
+const PHOTOGRAPH_FOLDER = 'photos';
+
 /**
  * Combined response with R2 storage data and extracted metadata
  */
 export interface ImageUploadResponse {
 	objectKey: string;
+	/** Id of the photograph recorded for the upload (sha256:<hash>) */
+	photographId: string;
 	metadata: ImageMetadata;
 	uploadedAt: string;
 }
@@ -41,16 +51,59 @@ async function hashFile(file: File): Promise<string> {
 }
 
 /**
- * Get file extension from MIME type
+ * Date the photograph was taken: EXIF DateTimeOriginal, or the upload time when the image has none
  */
-function getExtension(mimeType: string): string {
-	const extensions: Record<string, string> = {
-		'image/jpeg': 'jpg',
-		'image/png': 'png',
-		'image/gif': 'gif',
-		'image/webp': 'webp',
-	};
-	return extensions[mimeType] || 'bin';
+function dateTaken(metadata: ImageMetadata, uploadedAt: Date): Date {
+	// exifr revives EXIF dates as Date objects
+	const original = metadata.exif?.dateTimeOriginal ? new Date(metadata.exif.dateTimeOriginal) : null;
+	return original && !Number.isNaN(original.getTime()) ? original : uploadedAt;
+}
+
+/**
+ * Record the photograph for an uploaded image
+ * A bare photographs record is written to SR_JSON and ingested like any other, so the
+ * photographs row and its tags (the IPTC keywords) can be rebuilt from R2. Uploading the
+ * same image again keeps the record written the first time.
+ * @returns The photograph id
+ * @throws ImageUploadError if the record cannot be ingested
+ */
+async function recordPhotograph(
+	env: Env,
+	file: File,
+	objectKey: string,
+	metadata: ImageMetadata,
+	uploadedAt: Date,
+	publish: boolean
+): Promise<string> {
+	const id = artifactPhotographId(objectKey);
+	const recordKey = `${PHOTOGRAPH_FOLDER}/${id.replace(':', '_')}.json`;
+
+	if (!(await env.SR_JSON.head(recordKey))) {
+		const record = {
+			id,
+			original_name: file.name || objectKey,
+			// Uploads live in SR_ARTIFACT rather than Cloudflare Images; the artifact key stands in for the image id
+			cf_image_id: objectKey,
+			artifact_key: objectKey,
+			date_taken: dateTaken(metadata, uploadedAt).toISOString(),
+			caption: metadata.iptc?.caption,
+			lat: metadata.exif?.latitude,
+			lon: metadata.exif?.longitude,
+			tags: metadata.iptc?.keywords ?? [],
+			publish,
+			metadata,
+		};
+		await env.SR_JSON.put(recordKey, JSON.stringify(record, null, 2), {
+			httpMetadata: { contentType: 'application/json' },
+			customMetadata: { type: 'photographs' },
+		});
+	}
+
+	const result = await processJsonFromR2(recordKey, env.SR_JSON, env.DB, { typeAliases: typeAliases(env) });
+	if (!result.valid) {
+		throw new ImageUploadError(`Photograph record failed: ${result.error}`, 500);
+	}
+	return id;
 }
 
 /**
@@ -92,8 +145,7 @@ export async function uploadImage(request: Request, env: Env): Promise<Response>
 
 	// Generate hash-based object key
 	const hash = await hashFile(file);
-	const extension = getExtension(file.type);
-	const objectKey = `${hash}.${extension}`;
+	const objectKey = artifactKey(hash, file.type);
 
 	// Upload to R2
 	try {
@@ -110,12 +162,16 @@ export async function uploadImage(request: Request, env: Env): Promise<Response>
 		);
 	}
 
-	// Build response with object key, metadata, and timestamp
-	const uploadedAt = new Date().toISOString();
+	// Record the photograph; a publish field of "false" keeps it unpublished
+	const uploadedAt = new Date();
+	const photographId = await recordPhotograph(env, file, objectKey, metadata, uploadedAt, formData.get('publish') !== 'false');
+
+	// Build response with object key, photograph id, metadata, and timestamp
 	const response: ImageUploadResponse = {
 		objectKey,
+		photographId,
 		metadata,
-		uploadedAt,
+		uploadedAt: uploadedAt.toISOString(),
 	};
 
 	// Return response
@@ -0,0 +1,120 @@
+/**
+ * Ingest failure service
+ * Records objects the queue consumer gave up on and replays them on request
+ */
+
+import { desc, eq, inArray, sql } from 'drizzle-orm';
+import type { Env } from '../types/env';
+import { connectD1, schema } from '../db/client';
+
+/**
+ * Default and maximum number of failures returned by a list query
+ */
+export const DEFAULT_FAILURE_PAGE_SIZE = 100;
+export const MAX_FAILURE_PAGE_SIZE = 1000;
+
+/**
+ * Queue sendBatch limit
+ */
+const QUEUE_BATCH_LIMIT = 100;
+
+/**
+ * Failure as exposed by the ingest API
+ */
+export interface IngestFailureItem {
+	object_key: string;
+	error: string;
+	kind: 'permanent' | 'transient';
+	attempts: number;
+	first_failed_at: string;
+	last_failed_at: string;
+}
+
+/**
+ * Record (or refresh) the failure for an object
+ * first_failed_at is kept from the earliest failure; everything else is overwritten
+ */
+export async function recordIngestFailure(
+	db: D1Database,
+	failure: { objectKey: string; error: string; kind: 'permanent' | 'transient'; attempts: number }
+): Promise<void> {
+	const orm = connectD1(db);
+	const { ingestFailures } = schema;
+
+	await orm
+		.insert(ingestFailures)
+		.values(failure)
+		.onConflictDoUpdate({
+			target: ingestFailures.objectKey,
+			set: {
+				error: failure.error,
+				kind: failure.kind,
+				attempts: failure.attempts,
+				lastFailedAt: sql`(unixepoch())`,
+			},
+		});
+}
+
+/**
+ * Remove the failure for an object once it has been ingested
+ */
+export async function clearIngestFailure(db: D1Database, objectKey: string): Promise<void> {
+	const orm = connectD1(db);
+	await orm.delete(schema.ingestFailures).where(eq(schema.ingestFailures.objectKey, objectKey));
+}
+
+/**
+ * List recorded failures, most recent first
+ */
+export async function listIngestFailures(db: D1Database, limit = DEFAULT_FAILURE_PAGE_SIZE): Promise<IngestFailureItem[]> {
+	const orm = connectD1(db);
+	const rows = await orm
+		.select()
+		.from(schema.ingestFailures)
+		.orderBy(desc(schema.ingestFailures.lastFailedAt), schema.ingestFailures.objectKey)
+		.limit(Math.min(Math.max(limit, 1), MAX_FAILURE_PAGE_SIZE));
+
+	return rows.map((row) => ({
+		object_key: row.objectKey,
+		error: row.error,
+		kind: row.kind,
+		attempts: row.attempts,
+		first_failed_at: row.firstFailedAt.toISOString(),
+		last_failed_at: row.lastFailedAt.toISOString(),
+	}));
+}
+
+/**
+ * Re-queue failed objects for ingestion
+ * Rows stay in place until the replayed ingest succeeds, so a replay that fails again
+ * simply refreshes them.
+ *
+ * @param env - Environment bindings
+ * @param objectKeys - Keys to replay; all recorded failures when omitted
+ * @returns The keys that were queued
+ */
+export async function replayIngestFailures(env: Env, objectKeys?: string[]): Promise<string[]> {
+	const orm = connectD1(env.DB);
+	const { ingestFailures } = schema;
+
+	const keys: string[] = [];
+	if (objectKeys) {
+		// Only replay keys that actually failed; D1 allows 100 bound parameters per query
+		for (let i = 0; i < objectKeys.length; i += QUEUE_BATCH_LIMIT) {
+			const rows = await orm
+				.select({ objectKey: ingestFailures.objectKey })
+				.from(ingestFailures)
+				.where(inArray(ingestFailures.objectKey, objectKeys.slice(i, i + QUEUE_BATCH_LIMIT)));
+			keys.push(...rows.map((row) => row.objectKey));
+		}
+	} else {
+		const rows = await orm.select({ objectKey: ingestFailures.objectKey }).from(ingestFailures);
+		keys.push(...rows.map((row) => row.objectKey));
+	}
+
+	for (let i = 0; i < keys.length; i += QUEUE_BATCH_LIMIT) {
+		await env.JSON_QUEUE.sendBatch(keys.slice(i, i + QUEUE_BATCH_LIMIT).map((objectKey) => ({ body: { objectKey } })));
+	}
+
+	return keys;
+}
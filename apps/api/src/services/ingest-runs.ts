@@ -0,0 +1,154 @@
+/**
+ * Ingest run service
+ * Tracks the progress of a POST /ingest/all run across its queue messages
+ */
+
+import { eq, sql, type SQL } from 'drizzle-orm';
+import type { UpsertOutcome, ValidationResult } from './json-processor';
+import { connectD1, schema } from '../db/client';
+
+/**
+ * How a file of a run was settled by the queue consumer
+ */
+export type IngestFileOutcome = UpsertOutcome | 'failed';
+
+/**
+ * Outcome of a successfully processed file
+ * A JSONL file counts as inserted if any line was inserted, else updated if any line was updated
+ */
+export function fileOutcome(result: ValidationResult): UpsertOutcome {
+	if (!result.lines) {
+		return result.outcome ?? 'unchanged';
+	}
+
+	const outcomes = result.lines.map((line) => line.outcome);
+	if (outcomes.includes('inserted')) return 'inserted';
+	if (outcomes.includes('updated')) return 'updated';
+	return 'unchanged';
+}
+
+/**
+ * Ingest run as exposed by the ingest API
+ */
+export interface IngestRunItem {
+	id: string;
+	status: 'running' | 'completed' | 'failed';
+	listed: number;
+	processed: number;
+	inserted: number;
+	updated: number;
+	unchanged: number;
+	failed: number;
+	listing_complete: boolean;
+	/** Why listing stopped, when a page could not be listed after the last attempt */
+	error: string | null;
+	/** processed / listed, 0 while nothing has been listed */
+	progress: number;
+	started_at: string;
+	updated_at: string;
+	completed_at: string | null;
+}
+
+/**
+ * SQL expression stamping completed_at the first time listing is complete and processing has caught up
+ * SET expressions read the row as it was before the UPDATE, so callers pass the new values.
+ */
+function completedAt(listingComplete: SQL, listed: SQL, processed: SQL): SQL {
+	const { ingestRuns } = schema;
+	return sql`CASE WHEN ${ingestRuns.completedAt} IS NULL AND ${listingComplete} AND ${processed} >= ${listed} THEN unixepoch() ELSE ${ingestRuns.completedAt} END`;
+}
+
+/**
+ * Create a run and return its id
+ */
+export async function createIngestRun(db: D1Database): Promise<string> {
+	const orm = connectD1(db);
+	const id = crypto.randomUUID();
+	await orm.insert(schema.ingestRuns).values({ id });
+	return id;
+}
+
+/**
+ * Count one listed page of a run
+ * @param db - D1 database binding
+ * @param runId - Run id
+ * @param count - Objects queued from the page
+ * @param listingComplete - Whether this was the last page
+ */
+export async function recordListedPage(db: D1Database, runId: string, count: number, listingComplete: boolean): Promise<void> {
+	const orm = connectD1(db);
+	const { ingestRuns } = schema;
+
+	const listed = sql`${ingestRuns.listed} + ${count}`;
+	const complete = listingComplete ? sql`1` : sql`${ingestRuns.listingComplete}`;
+
+	await orm
+		.update(ingestRuns)
+		.set({
+			listed,
+			listingComplete: complete,
+			error: null,
+			completedAt: completedAt(complete, listed, sql`${ingestRuns.processed}`),
+			updatedAt: sql`(unixepoch())`,
+		})
+		.where(eq(ingestRuns.id, runId));
+}
+
+/**
+ * Record that listing a page of a run failed after the last attempt
+ * Files already queued are still counted; listing the page again with the run id clears the error.
+ */
+export async function failIngestRun(db: D1Database, runId: string, error: string): Promise<void> {
+	const orm = connectD1(db);
+	const { ingestRuns } = schema;
+
+	await orm.update(ingestRuns).set({ error, updatedAt: sql`(unixepoch())` }).where(eq(ingestRuns.id, runId));
+}
+
+/**
+ * Count one settled file of a run
+ */
+export async function recordFileOutcome(db: D1Database, runId: string, outcome: IngestFileOutcome): Promise<void> {
+	const orm = connectD1(db);
+	const { ingestRuns } = schema;
+
+	const processed = sql`${ingestRuns.processed} + 1`;
+
+	await orm
+		.update(ingestRuns)
+		.set({
+			processed,
+			[outcome]: sql`${ingestRuns[outcome]} + 1`,
+			completedAt: completedAt(sql`${ingestRuns.listingComplete}`, sql`${ingestRuns.listed}`, processed),
+			updatedAt: sql`(unixepoch())`,
+		})
+		.where(eq(ingestRuns.id, runId));
+}
+
+/**
+ * Load a run by id
+ */
+export async function getIngestRun(db: D1Database, id: string): Promise<IngestRunItem | null> {
+	const orm = connectD1(db);
+	const [row] = await orm.select().from(schema.ingestRuns).where(eq(schema.ingestRuns.id, id)).limit(1);
+	if (!row) {
+		return null;
+	}
+
+	return {
+		id: row.id,
+		status: row.completedAt ? 'completed' : row.error ? 'failed' : 'running',
+		listed: row.listed,
+		processed: row.processed,
+		inserted: row.inserted,
+		updated: row.updated,
+		unchanged: row.unchanged,
+		failed: row.failed,
+		listing_complete: row.listingComplete,
+		error: row.error,
+		progress: row.listed > 0 ? Math.min(row.processed / row.listed, 1) : 0,
+		started_at: row.startedAt.toISOString(),
+		updated_at: row.updatedAt.toISOString(),
+		completed_at: row.completedAt ? row.completedAt.toISOString() : null,
+	};
+}
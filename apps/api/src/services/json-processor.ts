@@ -1,6 +1,15 @@
+import { eq, inArray, sql } from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/d1';
-import { chatter, checkins, films, quotes, shakespeare, topten } from '../db/schema';
-import type { NewChatter, NewCheckin, NewFilm, NewQuote, NewShakespeareParagraph, NewTopTen } from '../db/schema';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { SQLiteUpdateSetSource } from 'drizzle-orm/sqlite-core';
+import { supersededRecords, type chatter, type NewChatter } from '../db/schema';
+import type { ChatterData } from '../types/chatter';
+import { isRetiredVersion } from './chatter-service';
+import { withPublishedMark } from './chatter-query';
+import { CONTENT_TYPES, getContentType, mapContentRecord, type ContentRecord, type ContentTypeDefinition } from './content-types';
+import { buildPhotographLinkStatements, referencedPhotographIds } from './photographs';
+import { buildTagStatements, isTaggedContentType, normalizeTags } from './tags';
+import { keyPrefix, resolveAlias, resolveContentType } from './type-resolver';
 
 /**
  * Result of JSON processing
@@ -9,201 +18,433 @@ export interface ValidationResult {
 	valid: boolean;
 	objectKey: string;
 	category?: string;
-	inserted?: boolean;
+	outcome?: UpsertOutcome;
+	/** Per-line results, present when the object was processed as JSONL */
+	lines?: LineResult[];
 	error?: string;
 }
 
 /**
- * Wrapped JSON format from R2
+ * Result for one line of a JSONL object
  */
-interface WrappedJson {
-	type: string;
+export interface LineResult {
+	/** 1-based line number within the object */
+	line: number;
 	id?: string;
-	data: Record<string, unknown>;
+	category?: string;
+	outcome?: UpsertOutcome;
+	error?: string;
 }
 
 /**
- * Validate and map chatter JSON to schema
- * Expects wrapped JSON: {type: "chatter", id: "...", data: {...}}
+ * What an ingest did to the D1 row
+ * - inserted: no row existed for the id
+ * - updated: the row existed and at least one mapped column changed
+ * - unchanged: the row already matched the document; nothing was written
  */
-function validateAndMapChatter(data: Record<string, unknown>, objectKey: string, recordId?: string): NewChatter {
-	// Validate required fields from data object
-	const id = recordId || (typeof data.id === 'string' ? data.id : undefined);
-	if (!id) throw new Error('Missing id field (must be in top-level or data object)');
-	if (typeof data.date_posted !== 'string') throw new Error('Missing or invalid field: date_posted');
-	if (typeof data.year !== 'number') throw new Error('Missing or invalid field: year');
-	if (typeof data.month !== 'string') throw new Error('Missing or invalid field: month');
-	if (typeof data.slug !== 'string') throw new Error('Missing or invalid field: slug');
+export type UpsertOutcome = 'inserted' | 'updated' | 'unchanged';
 
-	return {
-		id,
-		datePosted: new Date(data.date_posted),
-		year: data.year,
-		month: data.month,
-		slug: data.slug,
-		publish: typeof data.publish === 'boolean' ? data.publish : true,
-		r2Key: objectKey,
-	};
+/**
+ * Error thrown when ingestion fails for a reason that may clear up on retry (R2 reads, D1 writes)
+ * Validation failures are permanent and are returned in the ValidationResult instead
+ */
+export class TransientIngestError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TransientIngestError';
+	}
 }
 
 /**
- * Validate and map checkin JSON to schema
- * Expects wrapped JSON: {type: "checkins", id: "...", data: {...}}
+ * Run an R2 or D1 operation, classifying its failures
+ * Constraint violations (e.g. a duplicate slug) will fail again on retry, so they are left
+ * as plain errors; everything else is treated as transient.
  */
-function validateAndMapCheckin(data: Record<string, unknown>, objectKey: string, recordId?: string): NewCheckin {
-	// Validate required fields from data object
-	const id = recordId || (typeof data.id === 'string' ? data.id : undefined);
-	if (!id) throw new Error('Missing id field (must be in top-level or data object)');
-	if (typeof data.venue_id !== 'string') throw new Error('Missing or invalid field: venue_id');
-	if (typeof data.latitude !== 'number') throw new Error('Missing or invalid field: latitude');
-	if (typeof data.longitude !== 'number') throw new Error('Missing or invalid field: longitude');
-	if (typeof data.datetime !== 'string') throw new Error('Missing or invalid field: datetime');
-	if (typeof data.year !== 'number') throw new Error('Missing or invalid field: year');
-	if (typeof data.month !== 'string') throw new Error('Missing or invalid field: month');
-	if (typeof data.slug !== 'string') throw new Error('Missing or invalid field: slug');
+async function storage<T>(operation: string, run: () => Promise<T>): Promise<T> {
+	try {
+		return await run();
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (error instanceof TransientIngestError || /constraint failed/i.test(message)) {
+			throw error;
+		}
+		throw new TransientIngestError(`${operation} failed: ${message}`);
+	}
+}
 
-	return {
-		id,
-		venueId: data.venue_id,
-		latitude: data.latitude,
-		longitude: data.longitude,
-		datetime: new Date(data.datetime),
-		year: data.year,
-		month: data.month,
-		slug: data.slug,
-		publish: typeof data.publish === 'boolean' ? data.publish : true,
-		r2Key: objectKey,
-	};
+/**
+ * Number of JSONL records written per D1 batch
+ * Keeps the existing-row lookup under D1's 100 bound parameters per query
+ */
+const JSONL_BATCH_SIZE = 50;
+
+/**
+ * Options for processJsonFromR2
+ */
+export interface ProcessOptions {
+	/** Type alias map for envelope types and key prefixes (defaults to DEFAULT_TYPE_ALIASES) */
+	typeAliases?: Readonly<Record<string, string>>;
+	/** Validate and report would-be outcomes without writing to D1 */
+	dryRun?: boolean;
 }
 
 /**
- * Validate and map film JSON to schema
- * Expects wrapped JSON: {type: "films", id: "...", data: {...}}
+ * Content types the processor can map to a hot table
  */
-function validateAndMapFilm(data: Record<string, unknown>, objectKey: string, recordId?: string): NewFilm {
-	// Validate required fields from data object
-	const id = recordId || (typeof data.id === 'string' ? data.id : undefined);
-	if (!id) throw new Error('Missing id field (must be in top-level or data object)');
-	if (typeof data.year_watched !== 'number') throw new Error('Missing or invalid field: year_watched');
-	if (typeof data.date_watched !== 'string') throw new Error('Missing or invalid field: date_watched');
-	if (typeof data.month !== 'string') throw new Error('Missing or invalid field: month');
-	if (typeof data.slug !== 'string') throw new Error('Missing or invalid field: slug');
+export const INGEST_CONTENT_TYPES: readonly string[] = Object.keys(CONTENT_TYPES);
+
+type Orm = ReturnType<typeof drizzle<Record<string, never>, D1Database>>;
+
+/**
+ * A validated record ready to be written
+ */
+interface MappedRecord {
+	category: string;
+	contentType: ContentTypeDefinition;
+	record: ContentRecord;
+	/** Normalized tag names, or null when the content type carries no tags */
+	tags: string[] | null;
+	/** Ids of the photographs a chatter's images reference, or null for other content types */
+	photographs: string[] | null;
+}
+
+/**
+ * Result of unwrapping and mapping one JSON value
+ * Type resolution problems are reported here; field validation errors are thrown by mapContentRecord
+ */
+type MapResult = { ok: true; mapped: MappedRecord } | { ok: false; category?: string; error: string };
+
+/**
+ * Resolve a record's content type and map it to its hot table
+ * Accepts wrapped {type, data} records and bare records under a known key prefix.
+ * A scheduled chatter whose object carries the published-at mark is mapped as published.
+ */
+function mapRecord(
+	parsedData: unknown,
+	objectKey: string,
+	typeAliases?: Readonly<Record<string, string>>,
+	customMetadata?: Record<string, string>
+): MapResult {
+	const resolution = resolveContentType(parsedData, objectKey, typeAliases);
+	if (!resolution.ok) {
+		return { ok: false, error: resolution.error };
+	}
+
+	const { category, recordId } = resolution.resolved;
+	const data =
+		category === 'chatter'
+			? (withPublishedMark(resolution.resolved.data as unknown as ChatterData, customMetadata) as unknown as Record<string, unknown>)
+			: resolution.resolved.data;
+
+	const contentType = getContentType(category);
+	if (!contentType) {
+		return { ok: false, category, error: `Unsupported content type: ${category}` };
+	}
 
 	return {
-		id,
-		yearWatched: data.year_watched,
-		dateWatched: new Date(data.date_watched),
-		month: data.month,
-		slug: data.slug,
-		rewatch: typeof data.rewatch === 'boolean' ? data.rewatch : false,
-		publish: typeof data.publish === 'boolean' ? data.publish : true,
-		tmdbId: typeof data.tmdb_id === 'string' ? data.tmdb_id : undefined,
-		letterboxdId: typeof data.letterboxd_id === 'string' ? data.letterboxd_id : undefined,
-		r2Key: objectKey,
+		ok: true,
+		mapped: {
+			category,
+			contentType,
+			record: mapContentRecord(contentType, data, objectKey, recordId),
+			tags: isTaggedContentType(category) ? normalizeTags(data.tags) : null,
+			photographs: category === 'chatter' ? referencedPhotographIds(data.images) : null,
+		},
 	};
 }
 
 /**
- * Validate and map quote JSON to schema
- * Expects wrapped JSON: {type: "quotes", id: "...", data: {...}}
+ * Compare a mapped column value against the stored one
+ * Timestamp columns are stored with second precision, so dates are compared in seconds
  */
-function validateAndMapQuote(data: Record<string, unknown>, objectKey: string, recordId?: string): NewQuote {
-	// Validate required fields from data object
-	const id = recordId || (typeof data.id === 'string' ? data.id : undefined);
-	if (!id) throw new Error('Missing id field (must be in top-level or data object)');
-	if (typeof data.author !== 'string') throw new Error('Missing or invalid field: author');
-	if (typeof data.date_added !== 'string') throw new Error('Missing or invalid field: date_added');
-	if (typeof data.year !== 'number') throw new Error('Missing or invalid field: year');
-	if (typeof data.month !== 'string') throw new Error('Missing or invalid field: month');
-	if (typeof data.slug !== 'string') throw new Error('Missing or invalid field: slug');
+function columnEquals(stored: unknown, mapped: unknown): boolean {
+	if (stored instanceof Date && mapped instanceof Date) {
+		return Math.floor(stored.getTime() / 1000) === Math.floor(mapped.getTime() / 1000);
+	}
+	return (stored ?? null) === (mapped ?? null);
+}
+
+/**
+ * Decide how to write a mapped record, keyed on id
+ * Compares only the columns the mapper produces against the existing row, so
+ * createdAt/updatedAt are left alone unless the content actually moved.
+ *
+ * @returns The outcome and the statement to run (none when unchanged)
+ */
+function planUpsert(
+	orm: Orm,
+	contentType: ContentTypeDefinition,
+	record: ContentRecord,
+	existing: Record<string, unknown> | undefined
+): { outcome: UpsertOutcome; write?: BatchItem<'sqlite'> } {
+	// Cast through the chatter table: every content table has a text `id` primary key
+	const target = contentType.table as typeof chatter;
+
+	if (!existing) {
+		// A concurrent consumer may insert the same id first; fall back to updating it
+		return {
+			outcome: 'inserted',
+			write: orm
+				.insert(target)
+				.values(record as NewChatter)
+				.onConflictDoUpdate({ target: target.id, set: toUpdateSet(contentType, record) }),
+		};
+	}
+
+	const changed = Object.entries(record).some(([column, value]) => !columnEquals(existing[column], value));
+	if (!changed) {
+		return { outcome: 'unchanged' };
+	}
 
 	return {
-		id,
-		author: data.author,
-		dateAdded: new Date(data.date_added),
-		year: data.year,
-		month: data.month,
-		slug: data.slug,
-		publish: typeof data.publish === 'boolean' ? data.publish : true,
-		r2Key: objectKey,
+		outcome: 'updated',
+		write: orm.update(target).set(toUpdateSet(contentType, record)).where(eq(target.id, record.id)),
 	};
 }
 
 /**
- * Validate and map shakespeare JSON to schema
- * Expects wrapped JSON: {type: "shakespeare", id: "...", data: {...}}
+ * Build an update set from a mapped record
+ * Optional fields missing from the document are cleared rather than skipped.
+ * The row timestamp is set explicitly: drizzle binds a SQL $onUpdate value as a parameter on update().
+ * Types whose updatedAt comes from the document (bookmarks) declare another row timestamp column.
  */
-function validateAndMapShakespeare(data: Record<string, unknown>, objectKey: string, recordId?: string): NewShakespeareParagraph {
-	// Validate required fields from data object
-	const id = recordId || (typeof data.id === 'string' ? data.id : undefined);
-	if (!id) throw new Error('Missing id field (must be in top-level or data object)');
-	if (typeof data.work_id !== 'string') throw new Error('Missing or invalid field: work_id');
-	if (typeof data.act !== 'number') throw new Error('Missing or invalid field: act');
-	if (typeof data.scene !== 'number') throw new Error('Missing or invalid field: scene');
-	if (typeof data.character_id !== 'string') throw new Error('Missing or invalid field: character_id');
-	if (typeof data.word_count !== 'number') throw new Error('Missing or invalid field: word_count');
-	if (typeof data.timestamp !== 'string' && typeof data.timestamp !== 'number')
-		throw new Error('Missing or invalid field: timestamp');
-
+function toUpdateSet(contentType: ContentTypeDefinition, record: ContentRecord): SQLiteUpdateSetSource<typeof chatter> {
+	const { id: _id, ...columns } = record;
 	return {
-		id,
-		workId: data.work_id,
-		act: data.act,
-		scene: data.scene,
-		characterId: data.character_id,
-		wordCount: data.word_count,
-		timestamp: typeof data.timestamp === 'number' ? new Date(data.timestamp * 1000) : new Date(data.timestamp),
-		r2Key: objectKey,
+		...Object.fromEntries(Object.entries(columns).map(([column, value]) => [column, value ?? null])),
+		[contentType.rowUpdatedAt ?? 'updatedAt']: sql`(unixepoch())`,
 	};
 }
 
 /**
- * Validate and map topten JSON to schema
- * Expects wrapped JSON: {type: "topten", id: "...", data: {...}}
+ * Upsert mapped records with their tag and photograph links in a single D1 batch
+ * Existing rows are read up front with one query per table.
+ * A record repeated within the batch is compared against its earlier occurrence.
+ * Records listed in superseded_records (replaced lines of a JSONL object) are skipped as unchanged.
+ * With dryRun the outcomes are worked out the same way but nothing is written.
+ *
+ * @returns The outcome for each record, in input order
+ */
+async function writeRecords(orm: Orm, records: MappedRecord[], dryRun = false): Promise<UpsertOutcome[]> {
+	const existingByTable = new Map<ContentTypeDefinition['table'], Map<string, Record<string, unknown>>>();
+
+	for (const { contentType } of records) {
+		const { table } = contentType;
+		if (existingByTable.has(table)) continue;
+
+		const target = table as typeof chatter;
+		const ids = [...new Set(records.filter((entry) => entry.contentType.table === table).map((entry) => entry.record.id))];
+		const rows = await orm.select().from(target).where(inArray(target.id, ids));
+		existingByTable.set(table, new Map(rows.map((row) => [row.id, row as Record<string, unknown>])));
+	}
+
+	const ids = [...new Set(records.map((entry) => entry.record.id))];
+	const replaced = await orm.select({ id: supersededRecords.id }).from(supersededRecords).where(inArray(supersededRecords.id, ids));
+	const superseded = new Set(replaced.map((row) => row.id));
+
+	const outcomes: UpsertOutcome[] = [];
+	const statements: BatchItem<'sqlite'>[] = [];
+
+	for (const { category, contentType, record, tags, photographs } of records) {
+		// The replacement owns the row (and its slug) now
+		if (superseded.has(record.id)) {
+			outcomes.push('unchanged');
+			continue;
+		}
+
+		const existing = existingByTable.get(contentType.table)!;
+		const { outcome, write } = planUpsert(orm, contentType, record, existing.get(record.id));
+		existing.set(record.id, { ...existing.get(record.id), ...record });
+
+		outcomes.push(outcome);
+		if (write) statements.push(write);
+
+		// Tags are re-synced even when the row is unchanged; the statements are idempotent
+		if (tags && isTaggedContentType(category)) {
+			statements.push(...buildTagStatements(orm, category, record.id, tags));
+		}
+		if (photographs) {
+			statements.push(...buildPhotographLinkStatements(orm, record.id, photographs));
+		}
+	}
+
+	if (statements.length > 0 && !dryRun) {
+		await orm.batch(statements as [BatchItem<'sqlite'>, ...BatchItem<'sqlite'>[]]);
+	}
+
+	return outcomes;
+}
+
+/**
+ * Check whether an object key names a JSONL file
+ */
+function isJsonlKey(objectKey: string): boolean {
+	return /\.(jsonl|ndjson)$/i.test(objectKey);
+}
+
+/**
+ * Sniff JSONL from content that failed to parse as a single JSON document:
+ * more than one non-blank line, and the first line parses on its own
+ */
+function looksLikeJsonl(text: string): boolean {
+	const lines = text.split('\n').filter((line) => line.trim() !== '');
+	if (lines.length < 2) {
+		return false;
+	}
+
+	try {
+		JSON.parse(lines[0]);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Split a byte stream into lines without buffering the whole object
+ */
+async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+	const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+	let buffered = '';
+
+	while (true) {
+		const { done, value } = await storage('R2 read', () => reader.read());
+		if (done) break;
+
+		buffered += value;
+		let newline: number;
+		while ((newline = buffered.indexOf('\n')) !== -1) {
+			yield buffered.slice(0, newline);
+			buffered = buffered.slice(newline + 1);
+		}
+	}
+
+	if (buffered !== '') {
+		yield buffered;
+	}
+}
+
+/**
+ * Validate and write JSONL records line by line
+ * Each non-blank line is parsed and mapped on its own; valid records are written
+ * in batches of JSONL_BATCH_SIZE. A batch rejected by a constraint marks each of its
+ * lines as failed; storage errors throw TransientIngestError.
+ *
+ * @param objectKey - The key of the object in the R2 bucket
+ * @param lines - Lines of the object, in order
+ * @param orm - Drizzle D1 instance
+ * @param options - Processing options
+ * @returns Validation result with one entry per non-blank line
  */
-function validateAndMapTopTen(data: Record<string, unknown>, objectKey: string, recordId?: string): NewTopTen {
-	// Validate required fields from data object
-	const id = recordId || (typeof data.id === 'string' ? data.id : undefined);
-	if (!id) throw new Error('Missing id field (must be in top-level or data object)');
-	if (typeof data.show !== 'string') throw new Error('Missing or invalid field: show');
-	if (typeof data.date !== 'string') throw new Error('Missing or invalid field: date');
-	if (typeof data.timestamp !== 'string' && typeof data.timestamp !== 'number')
-		throw new Error('Missing or invalid field: timestamp');
-	if (typeof data.year !== 'number') throw new Error('Missing or invalid field: year');
-	if (typeof data.month !== 'string') throw new Error('Missing or invalid field: month');
-	if (typeof data.slug !== 'string') throw new Error('Missing or invalid field: slug');
+async function processJsonLines(
+	objectKey: string,
+	lines: AsyncIterable<string> | Iterable<string>,
+	orm: Orm,
+	options: ProcessOptions
+): Promise<ValidationResult> {
+	const results: LineResult[] = [];
+	let pending: Array<{ line: number; mapped: MappedRecord }> = [];
+
+	const flush = async () => {
+		if (pending.length === 0) return;
+
+		const chunk = pending;
+		pending = [];
+		try {
+			const outcomes = await storage('D1 write', () => writeRecords(orm, chunk.map((entry) => entry.mapped), options.dryRun));
+			chunk.forEach(({ line, mapped }, index) => {
+				results.push({ line, id: mapped.record.id, category: mapped.category, outcome: outcomes[index] });
+			});
+		} catch (error) {
+			// Storage errors abort the object so it can be retried as a whole
+			if (error instanceof TransientIngestError) throw error;
+
+			const message = `D1 batch failed: ${error instanceof Error ? error.message : String(error)}`;
+			for (const { line, mapped } of chunk) {
+				results.push({ line, id: mapped.record.id, category: mapped.category, error: message });
+			}
+		}
+	};
+
+	let lineNumber = 0;
+	for await (const raw of lines) {
+		lineNumber++;
+		const text = raw.trim();
+		if (text === '') continue;
+
+		let parsedData: unknown;
+		try {
+			parsedData = JSON.parse(text);
+		} catch (parseError) {
+			results.push({
+				line: lineNumber,
+				error: `Invalid JSON syntax: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+			});
+			continue;
+		}
+
+		try {
+			const result = mapRecord(parsedData, objectKey, options.typeAliases);
+			if (!result.ok) {
+				results.push({ line: lineNumber, category: result.category, error: result.error });
+				continue;
+			}
+			pending.push({ line: lineNumber, mapped: result.mapped });
+		} catch (error) {
+			results.push({ line: lineNumber, error: error instanceof Error ? error.message : String(error) });
+			continue;
+		}
+
+		if (pending.length >= JSONL_BATCH_SIZE) {
+			await flush();
+		}
+	}
+	await flush();
+
+	results.sort((a, b) => a.line - b.line);
+
+	if (results.length === 0) {
+		return { valid: false, objectKey, lines: results, error: 'No records found in JSONL object' };
+	}
+
+	const categories = new Set(results.map((result) => result.category));
+	const failed = results.filter((result) => result.error).length;
 
 	return {
-		id,
-		show: data.show,
-		date: data.date,
-		timestamp: typeof data.timestamp === 'number' ? new Date(data.timestamp * 1000) : new Date(data.timestamp),
-		year: data.year,
-		month: data.month,
-		slug: data.slug,
-		r2Key: objectKey,
+		valid: failed === 0,
+		objectKey,
+		category: categories.size === 1 ? results[0].category : undefined,
+		lines: results,
+		error: failed > 0 ? `${failed} of ${results.length} lines failed` : undefined,
 	};
 }
 
 /**
- * Processes a JSON file from R2 and inserts into appropriate database table
- * Routes based on type field in wrapped JSON: {type: "chatter", data: {...}}
+ * Processes a JSON or JSONL file from R2 and upserts into the appropriate database table
+ * Routes based on type field in wrapped JSON: {type: "chatter", data: {...}}, or on the
+ * key prefix for bare records (e.g. films/sha256_xxx.jsonl holding {...film fields})
+ * `.jsonl` objects (and content sniffed as JSONL) hold one record per line.
+ * Chatter versions that were edited or deleted are kept in R2 for history only; they are
+ * skipped and reported as unchanged, as are JSONL records listed in superseded_records.
  *
- * @param objectKey - The key of the object in the R2 bucket (e.g., sha256_xxx.json)
+ * @param objectKey - The key of the object in the R2 bucket (e.g., films/sha256_xxx.json)
  * @param bucket - The R2 bucket to read from
  * @param db - The D1 database to insert into
+ * @param options - Processing options (type aliases, dry run)
  * @returns Validation result with processing status
+ * @throws TransientIngestError when R2 or D1 fails in a way that may succeed on retry
  */
 export async function processJsonFromR2(
 	objectKey: string,
 	bucket: R2Bucket,
-	db: D1Database
+	db: D1Database,
+	options: ProcessOptions = {}
 ): Promise<ValidationResult> {
 	const orm = drizzle(db);
 
 	try {
 		// Fetch object from R2
-		const object = await bucket.get(objectKey);
+		const object = await storage('R2 get', () => bucket.get(objectKey));
 
 		if (!object) {
 			return {
@@ -213,110 +454,60 @@ export async function processJsonFromR2(
 			};
 		}
 
+		if (isRetiredVersion(object.customMetadata)) {
+			await object.body.cancel();
+			const prefix = keyPrefix(objectKey);
+			const category = object.customMetadata?.type ?? (prefix ? resolveAlias(prefix, options.typeAliases) : undefined);
+			return { valid: true, objectKey, category, outcome: 'unchanged' };
+		}
+
+		// Stream JSONL objects line by line
+		if (isJsonlKey(objectKey)) {
+			return await processJsonLines(objectKey, readLines(object.body), orm, options);
+		}
+
 		// Read the content as text
-		const text = await object.text();
+		const text = await storage('R2 read', () => object.text());
 
 		// Parse JSON
 		let parsedData: unknown;
 		try {
 			parsedData = JSON.parse(text);
 		} catch (parseError) {
-			return {
-				valid: false,
-				objectKey,
-				error: `Invalid JSON syntax: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-			};
-		}
+			// Several JSON documents, one per line
+			if (looksLikeJsonl(text)) {
+				return await processJsonLines(objectKey, text.split('\n'), orm, options);
+			}
 
-		// Validate wrapped JSON structure
-		if (typeof parsedData !== 'object' || parsedData === null) {
 			return {
 				valid: false,
 				objectKey,
-				error: 'JSON must be an object',
-			};
-		}
-
-		const wrapped = parsedData as Partial<WrappedJson>;
-
-		// Validate type field exists
-		if (!wrapped.type || typeof wrapped.type !== 'string') {
-			return {
-				valid: false,
-				objectKey,
-				error: 'Missing or invalid "type" field in wrapped JSON',
+				error: `Invalid JSON syntax: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
 			};
 		}
 
-		// Validate data field exists
-		if (!wrapped.data || typeof wrapped.data !== 'object') {
+		const result = mapRecord(parsedData, objectKey, options.typeAliases, object.customMetadata);
+		if (!result.ok) {
 			return {
 				valid: false,
 				objectKey,
-				error: 'Missing or invalid "data" field in wrapped JSON',
+				category: result.category,
+				error: result.error,
 			};
 		}
 
-		const category = wrapped.type;
-		const data = wrapped.data;
-		// Use top-level id if present, otherwise fall back to data.id
-		const recordId = wrapped.id || (typeof data.id === 'string' ? data.id : undefined);
-
-		// Route to appropriate table based on type field
-		let inserted = false;
-		switch (category) {
-			case 'chatter':
-				const validatedChatter = validateAndMapChatter(data, objectKey, recordId);
-				await orm.insert(chatter).values(validatedChatter).onConflictDoNothing();
-				inserted = true;
-				break;
-
-			case 'checkins':
-				const validatedCheckin = validateAndMapCheckin(data, objectKey, recordId);
-				await orm.insert(checkins).values(validatedCheckin).onConflictDoNothing();
-				inserted = true;
-				break;
-
-			case 'films':
-				const validatedFilm = validateAndMapFilm(data, objectKey, recordId);
-				await orm.insert(films).values(validatedFilm).onConflictDoNothing();
-				inserted = true;
-				break;
-
-			case 'quotes':
-				const validatedQuote = validateAndMapQuote(data, objectKey, recordId);
-				await orm.insert(quotes).values(validatedQuote).onConflictDoNothing();
-				inserted = true;
-				break;
-
-			case 'shakespeare':
-				const validatedShakespeare = validateAndMapShakespeare(data, objectKey, recordId);
-				await orm.insert(shakespeare).values(validatedShakespeare).onConflictDoNothing();
-				inserted = true;
-				break;
-
-			case 'topten':
-				const validatedTopTen = validateAndMapTopTen(data, objectKey, recordId);
-				await orm.insert(topten).values(validatedTopTen).onConflictDoNothing();
-				inserted = true;
-				break;
-
-			default:
-				return {
-					valid: false,
-					objectKey,
-					category,
-					error: `Unsupported content type: ${category}`,
-				};
-		}
+		const [outcome] = await storage('D1 write', () => writeRecords(orm, [result.mapped], options.dryRun));
 
 		return {
 			valid: true,
 			objectKey,
-			category,
-			inserted,
+			category: result.mapped.category,
+			outcome,
 		};
 	} catch (error) {
+		// Let the queue consumer retry storage errors
+		if (error instanceof TransientIngestError) throw error;
+
 		return {
 			valid: false,
 			objectKey,
@@ -0,0 +1,133 @@
+/**
+ * JSON Schema validation
+ * A small draft-07 validator covering the keywords our request schemas use:
+ * type, enum, required, properties, additionalProperties, items and format (date-time, uri, image-reference).
+ * Unknown keywords are ignored.
+ */
+
+import { isArtifactKey } from './artifacts';
+
+/**
+ * The subset of a JSON Schema the validator understands
+ */
+export interface JsonSchema {
+	type?: string | string[];
+	enum?: readonly unknown[];
+	required?: readonly string[];
+	properties?: Readonly<Record<string, JsonSchema>>;
+	additionalProperties?: boolean | JsonSchema;
+	items?: JsonSchema;
+	format?: string;
+}
+
+/**
+ * One field-level validation error
+ */
+export interface JsonSchemaError {
+	/** Dotted path to the offending value, e.g. "place.location.lat" ("" for the root) */
+	path: string;
+	message: string;
+}
+
+/**
+ * RFC 3339 date-time, e.g. 2025-01-15T10:30:00Z or 2025-01-15T10:30:00.123+01:00
+ */
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON Schema type name of a value
+ */
+function typeOf(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	const actual = typeOf(value);
+	return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * How a format is named in error messages, when not by its own name
+ */
+const FORMAT_NAMES: Readonly<Record<string, string>> = {
+	'image-reference': 'uri or artifact key',
+};
+
+function matchesFormat(value: string, format: string): boolean {
+	switch (format) {
+		case 'date-time':
+			return DATE_TIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+		case 'uri':
+			try {
+				new URL(value);
+				return true;
+			} catch {
+				return false;
+			}
+		case 'image-reference':
+			// An uploaded image's artifact key, or a URI
+			return isArtifactKey(value) || matchesFormat(value, 'uri');
+		default:
+			return true;
+	}
+}
+
+function join(path: string, key: string | number): string {
+	return path === '' ? String(key) : `${path}.${key}`;
+}
+
+/**
+ * Validate a value against a schema, collecting every error rather than stopping at the first
+ * @returns Field-level errors; empty when the value is valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path = ''): JsonSchemaError[] {
+	const errors: JsonSchemaError[] = [];
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			// Nested keywords would only repeat the type error
+			return [{ path, message: `must be ${types.join(' or ')}` }];
+		}
+	}
+
+	if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+		errors.push({ path, message: `must be one of: ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}` });
+	}
+
+	if (schema.format && typeof value === 'string' && !matchesFormat(value, schema.format)) {
+		errors.push({ path, message: `must be a valid ${FORMAT_NAMES[schema.format] ?? schema.format}` });
+	}
+
+	if (isPlainObject(value)) {
+		for (const key of schema.required ?? []) {
+			if (!Object.prototype.hasOwnProperty.call(value, key)) {
+				errors.push({ path: join(path, key), message: 'is required' });
+			}
+		}
+
+		for (const [key, child] of Object.entries(value)) {
+			const propertySchema = schema.properties?.[key];
+			if (propertySchema) {
+				errors.push(...validateJsonSchema(propertySchema, child, join(path, key)));
+			} else if (schema.additionalProperties === false) {
+				errors.push({ path: join(path, key), message: 'is not allowed' });
+			} else if (isPlainObject(schema.additionalProperties)) {
+				errors.push(...validateJsonSchema(schema.additionalProperties, child, join(path, key)));
+			}
+		}
+	}
+
+	if (Array.isArray(value) && schema.items) {
+		value.forEach((item, index) => errors.push(...validateJsonSchema(schema.items!, item, join(path, index))));
+	}
+
+	return errors;
+}
@@ -0,0 +1,202 @@
+/**
+ * Media serving
+ * GET /media/<sha256>.<ext> streams an uploaded image from SR_ARTIFACT. The key is the hash of
+ * the content, so it never changes: the hash is a strong ETag and public responses are cached
+ * for a year as immutable.
+ *
+ * Artifacts linked to unpublished content are not served publicly: the photograph recorded for
+ * the upload must be published, and when chatters show it at least one of them must be.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Env } from '../types/env';
+import { connectD1, schema } from '../db/client';
+import { ARTIFACT_KEY_PATTERN, artifactContentType, artifactPhotographId } from './artifacts';
+
+/**
+ * Cache-Control of published artifacts
+ */
+export const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * Cache-Control of unpublished artifacts, served to authenticated callers only
+ */
+export const PRIVATE_CACHE_CONTROL = 'private, no-cache';
+
+/**
+ * Byte range of an artifact, inclusive at both ends
+ */
+export interface ByteRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Check whether an artifact may be served without authentication
+ * Artifacts with no recorded photograph and no linked chatters are public.
+ * @param db - D1 database binding
+ * @param key - Artifact key
+ */
+export async function isArtifactPublished(db: D1Database, key: string): Promise<boolean> {
+	const orm = connectD1(db);
+	const { chatter, chatterPhotographs, photographs } = schema;
+	const photographId = artifactPhotographId(key);
+
+	const [photograph] = await orm
+		.select({ publish: photographs.publish })
+		.from(photographs)
+		.where(eq(photographs.id, photographId))
+		.limit(1);
+	if (photograph && !photograph.publish) {
+		return false;
+	}
+
+	const links = await orm
+		.select({ publish: chatter.publish })
+		.from(chatterPhotographs)
+		.innerJoin(chatter, eq(chatter.id, chatterPhotographs.chatterId))
+		.where(eq(chatterPhotographs.photographId, photographId));
+	return links.length === 0 || links.some((link) => link.publish);
+}
+
+/**
+ * Check whether an Accept header admits a media type
+ * The most specific matching range decides (image/png over image/* over *\/*); q=0 refuses.
+ */
+export function acceptsMediaType(accept: string | null, mediaType: string): boolean {
+	if (!accept || !accept.trim()) {
+		return true;
+	}
+
+	const [type] = mediaType.split('/');
+	let match: { specificity: number; q: number } | undefined;
+
+	for (const entry of accept.split(',')) {
+		const [range, ...params] = entry.split(';').map((part) => part.trim().toLowerCase());
+		const specificity = range === mediaType ? 3 : range === `${type}/*` ? 2 : range === '*/*' ? 1 : 0;
+		if (specificity === 0 || (match && match.specificity >= specificity)) {
+			continue;
+		}
+
+		const qParam = params.find((param) => param.startsWith('q='));
+		const q = qParam ? Number(qParam.slice(2)) : 1;
+		match = { specificity, q: Number.isNaN(q) ? 1 : q };
+	}
+
+	return match !== undefined && match.q > 0;
+}
+
+/**
+ * Check an If-None-Match header against an ETag (weak comparison, as RFC 9110 requires)
+ */
+export function matchesETag(ifNoneMatch: string, etag: string): boolean {
+	return ifNoneMatch
+		.split(',')
+		.map((tag) => tag.trim())
+		.some((tag) => tag === '*' || tag.replace(/^W\//, '') === etag);
+}
+
+/**
+ * Parse a Range header against the size of an artifact
+ * Only a single byte range is honoured; headers that cannot be parsed, other units and multiple
+ * ranges are ignored so the whole artifact is served.
+ * @returns The range, null to serve the whole artifact, or 'unsatisfiable' when the range lies past the end
+ */
+export function parseRange(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+	const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+	if (!match || (!match[1] && !match[2])) {
+		return null;
+	}
+
+	if (!match[1]) {
+		// Suffix range: the last N bytes
+		const length = Number(match[2]);
+		if (length === 0 || size === 0) {
+			return 'unsatisfiable';
+		}
+		return { start: Math.max(size - length, 0), end: size - 1 };
+	}
+
+	const start = Number(match[1]);
+	const end = match[2] ? Number(match[2]) : Infinity;
+	if (end < start) {
+		return null;
+	}
+	if (start >= size) {
+		return 'unsatisfiable';
+	}
+	return { start, end: Math.min(end, size - 1) };
+}
+
+/**
+ * Serve an artifact from SR_ARTIFACT
+ * Answers GET and HEAD with content negotiation (406), conditional requests (304 on If-None-Match)
+ * and single byte ranges (206, If-Range, 416).
+ * @param request - Client request
+ * @param env - Environment bindings
+ * @param key - Artifact key, e.g. "ab12...ef.jpg"
+ * @param options.published - Whether the artifact may be cached publicly (see isArtifactPublished)
+ */
+export async function serveArtifact(request: Request, env: Env, key: string, options: { published: boolean }): Promise<Response> {
+	const match = key.match(ARTIFACT_KEY_PATTERN);
+	if (!match) {
+		return jsonError(404, 'Not found');
+	}
+
+	const object = await env.SR_ARTIFACT.head(key);
+	if (!object) {
+		return jsonError(404, 'Not found');
+	}
+
+	const contentType = object.httpMetadata?.contentType || artifactContentType(key)!;
+	if (!acceptsMediaType(request.headers.get('Accept'), contentType)) {
+		return jsonError(406, `Only ${contentType} is available`);
+	}
+
+	const etag = `"${match[1]}"`;
+	const headers = new Headers({
+		'content-type': contentType,
+		etag,
+		'cache-control': options.published ? IMMUTABLE_CACHE_CONTROL : PRIVATE_CACHE_CONTROL,
+		'accept-ranges': 'bytes',
+		'last-modified': object.uploaded.toUTCString(),
+	});
+
+	const ifNoneMatch = request.headers.get('If-None-Match');
+	if (ifNoneMatch && matchesETag(ifNoneMatch, etag)) {
+		return new Response(null, { status: 304, headers });
+	}
+
+	// If-Range carrying another ETag (or a date) means the client's copy is stale: send it all
+	const ifRange = request.headers.get('If-Range');
+	const range = ifRange && ifRange.trim() !== etag ? null : parseRange(request.headers.get('Range'), object.size);
+	if (range === 'unsatisfiable') {
+		headers.set('content-range', `bytes */${object.size}`);
+		headers.delete('content-type');
+		return new Response(null, { status: 416, headers });
+	}
+
+	const status = range ? 206 : 200;
+	headers.set('content-length', String(range ? range.end - range.start + 1 : object.size));
+	if (range) {
+		headers.set('content-range', `bytes ${range.start}-${range.end}/${object.size}`);
+	}
+
+	if (request.method === 'HEAD') {
+		return new Response(null, { status, headers });
+	}
+
+	const body = await env.SR_ARTIFACT.get(key, range ? { range: { offset: range.start, length: range.end - range.start + 1 } } : undefined);
+	if (!body) {
+		return jsonError(404, 'Not found');
+	}
+
+	return new Response(body.body, { status, headers });
+}
+
+function jsonError(status: number, error: string): Response {
+	return new Response(JSON.stringify({ error }), {
+		status,
+		headers: { 'content-type': 'application/json; charset=utf-8' },
+	});
+}
@@ -0,0 +1,111 @@
+/**
+ * Photograph references
+ * Chatters attach uploaded images by artifact key; each key is checked against the photograph
+ * recorded for the upload and replaced with a reference to it. URIs are kept as they are.
+ * The photographs a chatter references are linked to it in chatter_photographs, which decides
+ * whether /media serves them (see media.ts).
+ */
+
+import { eq, inArray } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { ImageReference } from '../types/chatter';
+import { connectD1, schema } from '../db/client';
+import { artifactContentType, artifactPhotographId, isArtifactKey } from './artifacts';
+import type { JsonSchemaError } from './json-schema';
+
+type Orm = ReturnType<typeof connectD1>;
+
+/**
+ * Outcome of resolving a chatter's images
+ */
+export interface ResolvedImages {
+	images: (string | ImageReference)[];
+	/** One error per artifact key with no recorded upload, e.g. { path: "images.1", ... } */
+	errors: JsonSchemaError[];
+}
+
+/**
+ * Resolve the artifact keys in a list of images into photograph references
+ * @param images - URIs and artifact keys, as sent by the client
+ * @param db - D1 database binding
+ */
+export async function resolveImageReferences(images: readonly string[], db: D1Database): Promise<ResolvedImages> {
+	const keys = images.filter(isArtifactKey);
+	if (keys.length === 0) {
+		return { images: [...images], errors: [] };
+	}
+
+	const orm = connectD1(db);
+	const { photographs } = schema;
+	const rows = await orm
+		.select({ id: photographs.id, caption: photographs.caption })
+		.from(photographs)
+		.where(inArray(photographs.id, [...new Set(keys.map(artifactPhotographId))]));
+	const captions = new Map(rows.map((row) => [row.id, row.caption]));
+
+	const errors: JsonSchemaError[] = [];
+	const resolved = images.map((image, index): string | ImageReference => {
+		if (!isArtifactKey(image)) {
+			return image;
+		}
+
+		const photographId = artifactPhotographId(image);
+		if (!captions.has(photographId)) {
+			errors.push({ path: `images.${index}`, message: 'is not an uploaded image' });
+			return image;
+		}
+
+		const caption = captions.get(photographId);
+		return {
+			artifact_key: image,
+			photograph_id: photographId,
+			content_type: artifactContentType(image)!,
+			...(caption ? { caption } : {}),
+		};
+	});
+
+	return { images: resolved, errors };
+}
+
+/**
+ * Ids of the photographs a chatter's images reference
+ * Reads stored documents as well as requests, so artifact keys that were never resolved count too.
+ * @param images - The chatter's `images`, as stored
+ */
+export function referencedPhotographIds(images: unknown): string[] {
+	if (!Array.isArray(images)) {
+		return [];
+	}
+
+	const ids = images.flatMap((image): string[] => {
+		if (typeof image === 'string') {
+			return isArtifactKey(image) ? [artifactPhotographId(image)] : [];
+		}
+		const photographId = (image as Partial<ImageReference> | null)?.photograph_id;
+		return typeof photographId === 'string' ? [photographId] : [];
+	});
+	return [...new Set(ids)];
+}
+
+/**
+ * Build the statements that make a chatter's photograph links match `photographIds` exactly
+ * Intended to run in the same D1 batch as the chatter write, like buildTagStatements.
+ * @param orm - Drizzle D1 instance
+ * @param chatterId - Chatter id
+ * @param photographIds - Ids from referencedPhotographIds
+ */
+export function buildPhotographLinkStatements(orm: Orm, chatterId: string, photographIds: string[]): BatchItem<'sqlite'>[] {
+	const { chatterPhotographs } = schema;
+	const statements: BatchItem<'sqlite'>[] = [orm.delete(chatterPhotographs).where(eq(chatterPhotographs.chatterId, chatterId))];
+
+	if (photographIds.length > 0) {
+		statements.push(
+			orm
+				.insert(chatterPhotographs)
+				.values(photographIds.map((photographId) => ({ chatterId, photographId })))
+				.onConflictDoNothing()
+		);
+	}
+
+	return statements;
+}
@@ -0,0 +1,284 @@
+/**
+ * Tag service
+ * Normalizes tag names, links content to tags through the junction tables,
+ * and answers tag queries across content types
+ */
+
+import { and, count, desc, eq, getTableColumns, inArray, sql, type SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { AnySQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { connectD1, schema } from '../db/client';
+
+type Orm = ReturnType<typeof connectD1>;
+
+/**
+ * Content types that can carry tags, keyed by the ingestion category name
+ */
+export type TaggedContentType = 'chatter' | 'quotes' | 'photographs' | 'memes' | 'bookmarks';
+
+/**
+ * How a content table is linked to tags and what the tag queries read from it
+ */
+interface TaggedContent {
+	junction: SQLiteTable;
+	/** Junction column holding the content id */
+	recordId: AnySQLiteColumn;
+	/** Junction column holding the tag id */
+	tagId: AnySQLiteColumn;
+	table: SQLiteTable;
+	id: AnySQLiteColumn;
+	date: AnySQLiteColumn;
+	slug: AnySQLiteColumn | null;
+	/** Publish flag; null when the table has none (everything is public) */
+	publish: AnySQLiteColumn | null;
+	r2Key: AnySQLiteColumn;
+}
+
+const TAGGED_CONTENT: Record<TaggedContentType, TaggedContent> = {
+	chatter: {
+		junction: schema.chatterTags,
+		recordId: schema.chatterTags.chatterId,
+		tagId: schema.chatterTags.tagId,
+		table: schema.chatter,
+		id: schema.chatter.id,
+		date: schema.chatter.datePosted,
+		slug: schema.chatter.slug,
+		publish: schema.chatter.publish,
+		r2Key: schema.chatter.r2Key,
+	},
+	quotes: {
+		junction: schema.quotesTags,
+		recordId: schema.quotesTags.quoteId,
+		tagId: schema.quotesTags.tagId,
+		table: schema.quotes,
+		id: schema.quotes.id,
+		date: schema.quotes.dateAdded,
+		slug: schema.quotes.slug,
+		publish: schema.quotes.publish,
+		r2Key: schema.quotes.r2Key,
+	},
+	photographs: {
+		junction: schema.photographsTags,
+		recordId: schema.photographsTags.photographId,
+		tagId: schema.photographsTags.tagId,
+		table: schema.photographs,
+		id: schema.photographs.id,
+		date: schema.photographs.dateTaken,
+		slug: null,
+		publish: schema.photographs.publish,
+		r2Key: schema.photographs.r2Key,
+	},
+	memes: {
+		junction: schema.memesTags,
+		recordId: schema.memesTags.memeId,
+		tagId: schema.memesTags.tagId,
+		table: schema.memes,
+		id: schema.memes.id,
+		date: schema.memes.dateSaved,
+		slug: null,
+		publish: schema.memes.publish,
+		r2Key: schema.memes.r2Key,
+	},
+	bookmarks: {
+		junction: schema.bookmarksTags,
+		recordId: schema.bookmarksTags.bookmarkId,
+		tagId: schema.bookmarksTags.tagId,
+		table: schema.bookmarks,
+		id: schema.bookmarks.id,
+		date: schema.bookmarks.createdAt,
+		slug: null,
+		publish: null,
+		r2Key: schema.bookmarks.r2Key,
+	},
+};
+
+/**
+ * Content types in the order they are reported by the tag endpoints
+ */
+export const TAGGED_CONTENT_TYPES = Object.keys(TAGGED_CONTENT) as TaggedContentType[];
+
+/**
+ * Check whether an ingestion category carries tags
+ */
+export function isTaggedContentType(category: string): category is TaggedContentType {
+	return category in TAGGED_CONTENT;
+}
+
+/**
+ * Normalize a tag name: trimmed, lowercase, no leading '#', whitespace collapsed to '-'
+ * e.g. " #Road Trip " -> "road-trip"
+ */
+export function normalizeTag(name: string): string {
+	return name.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Normalize a raw tags value from a JSON document into a de-duplicated list
+ * Non-string entries and names that normalize to nothing are dropped
+ */
+export function normalizeTags(value: unknown): string[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+
+	const names = new Set<string>();
+	for (const entry of value) {
+		if (typeof entry !== 'string') continue;
+		const name = normalizeTag(entry);
+		if (name) names.add(name);
+	}
+	return [...names];
+}
+
+/**
+ * Build the statements that make a record's tag links match `names` exactly
+ * Intended to run in the same D1 batch as the record write:
+ * 1. Drop existing links for the record
+ * 2. Upsert the tag names into `tags`
+ * 3. Link the record to each tag through the junction table
+ * @param orm - Drizzle D1 instance
+ * @param type - Tagged content type
+ * @param recordId - Content record id
+ * @param names - Normalized tag names
+ */
+export function buildTagStatements(orm: Orm, type: TaggedContentType, recordId: string, names: string[]): BatchItem<'sqlite'>[] {
+	const content = TAGGED_CONTENT[type];
+	const statements: BatchItem<'sqlite'>[] = [orm.delete(content.junction).where(eq(content.recordId, recordId))];
+
+	if (names.length === 0) {
+		return statements;
+	}
+
+	statements.push(
+		orm
+			.insert(schema.tags)
+			.values(names.map((name) => ({ name })))
+			.onConflictDoNothing({ target: schema.tags.name })
+	);
+
+	// insert().select() matches the selection against the junction table's property names, in order
+	const columns = Object.entries(getTableColumns(content.junction));
+	const recordKey = columns.find(([, column]) => column === content.recordId)![0];
+	const tagKey = columns.find(([, column]) => column === content.tagId)![0];
+
+	statements.push(
+		orm
+			.insert(content.junction)
+			.select(
+				orm
+					.select({ [recordKey]: sql`${recordId}`.as(content.recordId.name), [tagKey]: schema.tags.id })
+					.from(schema.tags)
+					.where(inArray(schema.tags.name, names))
+			)
+			.onConflictDoNothing()
+	);
+
+	return statements;
+}
+
+/**
+ * Per-tag counts of tagged content
+ */
+export interface TagCount {
+	name: string;
+	total: number;
+	counts: Record<TaggedContentType, number>;
+}
+
+/**
+ * A content record carrying a tag
+ */
+export interface TaggedItem {
+	type: TaggedContentType;
+	id: string;
+	date: string;
+	slug: string | null;
+	r2_key: string;
+}
+
+/**
+ * Visibility condition for a content type
+ */
+function visibleCondition(content: TaggedContent, includeUnpublished: boolean): SQL | undefined {
+	return includeUnpublished || !content.publish ? undefined : eq(content.publish, true);
+}
+
+/**
+ * Count tagged content per tag and content type
+ * @param db - D1 database binding
+ * @param includeUnpublished - Count unpublished content as well
+ * @returns Tags with at least one tagged item, most used first
+ */
+export async function listTagCounts(db: D1Database, includeUnpublished: boolean): Promise<TagCount[]> {
+	const orm = connectD1(db);
+	const byName = new Map<string, TagCount>();
+
+	for (const type of TAGGED_CONTENT_TYPES) {
+		const content = TAGGED_CONTENT[type];
+		const rows = await orm
+			.select({ name: schema.tags.name, count: count() })
+			.from(content.junction)
+			.innerJoin(schema.tags, eq(schema.tags.id, content.tagId))
+			.innerJoin(content.table, eq(content.id, content.recordId))
+			.where(visibleCondition(content, includeUnpublished))
+			.groupBy(schema.tags.name);
+
+		for (const row of rows) {
+			let entry = byName.get(row.name);
+			if (!entry) {
+				entry = {
+					name: row.name,
+					total: 0,
+					counts: Object.fromEntries(TAGGED_CONTENT_TYPES.map((t) => [t, 0])) as Record<TaggedContentType, number>,
+				};
+				byName.set(row.name, entry);
+			}
+			entry.counts[type] = row.count;
+			entry.total += row.count;
+		}
+	}
+
+	return [...byName.values()].sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+}
+
+/**
+ * List content of every type carrying a tag, newest first
+ * @param db - D1 database binding
+ * @param name - Tag name (normalized before lookup)
+ * @param includeUnpublished - Include unpublished content
+ * @param limit - Maximum number of items returned
+ */
+export async function listTaggedItems(db: D1Database, name: string, includeUnpublished: boolean, limit: number): Promise<TaggedItem[]> {
+	const orm = connectD1(db);
+	const tagName = normalizeTag(name);
+	const items: TaggedItem[] = [];
+
+	for (const type of TAGGED_CONTENT_TYPES) {
+		const content = TAGGED_CONTENT[type];
+		const rows = await orm
+			.select({
+				id: sql<string>`${content.id}`,
+				date: sql<number>`${content.date}`,
+				slug: content.slug ? sql<string | null>`${content.slug}` : sql<null>`NULL`,
+				r2Key: sql<string>`${content.r2Key}`,
+			})
+			.from(content.table)
+			.innerJoin(content.junction, eq(content.recordId, content.id))
+			.innerJoin(schema.tags, eq(schema.tags.id, content.tagId))
+			.where(and(eq(schema.tags.name, tagName), visibleCondition(content, includeUnpublished)))
+			.orderBy(desc(content.date))
+			.limit(limit);
+
+		for (const row of rows) {
+			items.push({
+				type,
+				id: row.id,
+				date: new Date(row.date * 1000).toISOString(),
+				slug: row.slug,
+				r2_key: row.r2Key,
+			});
+		}
+	}
+
+	return items.sort((a, b) => b.date.localeCompare(a.date)).slice(0, limit);
+}
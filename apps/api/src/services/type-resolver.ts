@@ -0,0 +1,123 @@
+/**
+ * Content type resolver
+ * Works out which validator a JSON record belongs to: from the {type, data}
+ * envelope when present, otherwise from the R2 key prefix of a bare record
+ */
+
+import type { Env } from '../types/env';
+
+/**
+ * Folder and type names that differ from the validator name
+ * e.g. the archive folder `shakespert/` holds `shakespeare` records, and `photos/` holds `photographs`
+ */
+export const DEFAULT_TYPE_ALIASES: Readonly<Record<string, string>> = {
+	shakespert: 'shakespeare',
+	photos: 'photographs',
+};
+
+/**
+ * Alias map of a deployment: DEFAULT_TYPE_ALIASES with the TYPE_ALIASES var on top
+ * TYPE_ALIASES is a JSON object of folder or type name to validator name, e.g. {"movies": "films"}.
+ * A value that is not such an object is logged and ignored.
+ */
+export function typeAliases(env: Pick<Env, 'TYPE_ALIASES'>): Readonly<Record<string, string>> {
+	if (!env.TYPE_ALIASES) {
+		return DEFAULT_TYPE_ALIASES;
+	}
+
+	let configured: unknown;
+	try {
+		configured = JSON.parse(env.TYPE_ALIASES);
+	} catch {
+		configured = undefined;
+	}
+
+	if (!isObject(configured) || !Object.values(configured).every((value) => typeof value === 'string' && value !== '')) {
+		console.error('Ignoring TYPE_ALIASES: expected a JSON object of names to validator names');
+		return DEFAULT_TYPE_ALIASES;
+	}
+
+	return { ...DEFAULT_TYPE_ALIASES, ...(configured as Record<string, string>) };
+}
+
+/**
+ * A record with its content type worked out
+ */
+export interface ResolvedRecord {
+	category: string;
+	data: Record<string, unknown>;
+	/** Top-level envelope id, when the record is wrapped */
+	recordId?: string;
+	/** Where the type came from */
+	source: 'envelope' | 'key';
+}
+
+/**
+ * Outcome of resolving a record's content type
+ */
+export type ResolveResult = { ok: true; resolved: ResolvedRecord } | { ok: false; error: string };
+
+/**
+ * Apply the alias map to a type or folder name
+ */
+export function resolveAlias(name: string, aliases: Readonly<Record<string, string>> = DEFAULT_TYPE_ALIASES): string {
+	return Object.prototype.hasOwnProperty.call(aliases, name) ? aliases[name] : name;
+}
+
+/**
+ * First path segment of an R2 key, tolerating a leading slash
+ * e.g. "/shakespert/sha256_abc.jsonl" -> "shakespert"; null for keys without a folder
+ */
+export function keyPrefix(objectKey: string): string | null {
+	const segments = objectKey.replace(/^\/+/, '').split('/');
+	return segments.length > 1 && segments[0] !== '' ? segments[0] : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolve the content type of a parsed JSON record
+ * - Wrapped: {type: "films", id?: "...", data: {...}} uses `type`
+ * - Bare: {...} uses the key prefix, and the whole object is the data
+ * Both are passed through the alias map.
+ *
+ * @param parsedData - Parsed JSON value
+ * @param objectKey - R2 key the record was read from
+ * @param aliases - Type alias map (defaults to DEFAULT_TYPE_ALIASES)
+ */
+export function resolveContentType(
+	parsedData: unknown,
+	objectKey: string,
+	aliases: Readonly<Record<string, string>> = DEFAULT_TYPE_ALIASES
+): ResolveResult {
+	if (!isObject(parsedData)) {
+		return { ok: false, error: 'JSON must be an object' };
+	}
+
+	const { type, id, data } = parsedData;
+
+	if (typeof type === 'string' && type !== '' && isObject(data)) {
+		return {
+			ok: true,
+			resolved: {
+				category: resolveAlias(type, aliases),
+				data,
+				recordId: typeof id === 'string' && id !== '' ? id : undefined,
+				source: 'envelope',
+			},
+		};
+	}
+
+	const prefix = keyPrefix(objectKey);
+	if (prefix) {
+		return { ok: true, resolved: { category: resolveAlias(prefix, aliases), data: parsedData, source: 'key' } };
+	}
+
+	// No envelope and nothing to infer from: report what the envelope is missing
+	if (typeof type !== 'string' || type === '') {
+		return { ok: false, error: 'Missing or invalid "type" field in wrapped JSON' };
+	}
+	return { ok: false, error: 'Missing or invalid "data" field in wrapped JSON' };
+}
@@ -34,6 +34,18 @@ export const PWA_HTML_TEMPLATE = `<!DOCTYPE html>
     <label for="content">Content *</label>
     <textarea id="content" rows="5" placeholder="What's happening?" required></textarea>
 
+    <label for="post-status">Status</label>
+    <select id="post-status" onchange="togglePublishAt()">
+      <option value="published">Publish now</option>
+      <option value="draft">Save as draft</option>
+      <option value="scheduled">Schedule</option>
+    </select>
+
+    <div id="publish-at-field" class="hidden">
+      <label for="publish-at">Publish at</label>
+      <input type="datetime-local" id="publish-at">
+    </div>
+
     <button type="submit" class="primary">Create Post</button>
   </form>
 
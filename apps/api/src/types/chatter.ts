@@ -24,18 +24,41 @@ export interface PlaceInput {
 	provider_ids?: Record<string, string>;
 }
 
+/**
+ * Publication state of a chatter
+ * - draft: only visible to authenticated callers
+ * - scheduled: becomes published at publish_at (flipped by the cron handler)
+ * - published: visible to everyone
+ */
+export type ChatterStatus = 'draft' | 'scheduled' | 'published';
+
 export interface CreateChatterRequest {
 	kind: 'chatter';
 	content: string;
 	date_posted: string;
 	title?: string;
 	tags?: string[];
-	images?: string[];
-	publish?: boolean;
+	images?: string[]; // URIs, or artifact keys of uploaded images (<sha256>.<ext>)
+	publish?: boolean; // Older clients: false = draft; status takes precedence
+	status?: ChatterStatus;
+	publish_at?: string; // Required when status is scheduled
 	location_hint?: LocationHint;
 	place?: PlaceInput;
 }
 
+/**
+ * Fields a PATCH may change; everything else, including the environment snapshot, is kept
+ */
+export interface UpdateChatterRequest {
+	content?: string;
+	title?: string;
+	tags?: string[];
+	images?: string[]; // Replaces the images: URIs or artifact keys, as on create
+	publish?: boolean;
+	status?: ChatterStatus;
+	publish_at?: string;
+}
+
 // ============================================================================
 // PROVIDER & SNAPSHOT TYPES
 // ============================================================================
@@ -51,6 +74,8 @@ export interface ApiSnapshot<T> {
 	provider: ProviderInfo;
 	summary: T;
 	full?: Record<string, any>; // Raw API response
+	cached?: boolean; // Served from the snapshot cache; captured_at is when it was first fetched
+	observed_for?: string; // ISO 8601; set by the backfill to the moment the post describes, when that is not captured_at
 }
 
 // ============================================================================
@@ -140,6 +165,33 @@ export interface ElevationSummary {
 	elevation_ft: number;
 }
 
+/**
+ * Sun and moon at the post's location and time, computed offline
+ * Times are ISO 8601 UTC; sun events are null when the sun does not cross that elevation
+ * that day (polar day or night).
+ */
+export interface AstronomySummary {
+	sunrise: string | null;
+	sunset: string | null;
+	civil_dawn: string | null; // Sun 6° below the horizon, morning
+	civil_dusk: string | null; // Sun 6° below the horizon, evening
+	solar_noon: string;
+	solar_elevation_deg: number; // At date_posted; negative below the horizon
+	moon_phase: number; // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+	moon_phase_name: string; // e.g. 'Waxing Gibbous'
+	moon_illumination_pct: number;
+}
+
+/**
+ * Timezone at the post's location, from an offline boundary lookup
+ */
+export interface TimezoneSummary {
+	zone: string; // IANA zone, e.g. 'America/Los_Angeles'
+	abbreviation?: string; // e.g. 'PDT'; omitted where the zone has no common abbreviation
+	utc_offset_minutes: number; // At date_posted
+	local_time: string; // date_posted as local wall time with offset, e.g. 2025-06-01T05:00:00-07:00
+}
+
 // ============================================================================
 // SPECIALIZED SNAPSHOT TYPES
 // ============================================================================
@@ -150,11 +202,28 @@ export type ApiSnapshot_Pollen = ApiSnapshot<PollenSummary>;
 export type ApiSnapshot_Place = ApiSnapshot<PlaceSummary>;
 export type ApiSnapshot_Geocoding = ApiSnapshot<GeocodingSummary>;
 export type ApiSnapshot_Elevation = ApiSnapshot<ElevationSummary>;
+export type ApiSnapshot_Astronomy = ApiSnapshot<AstronomySummary>;
+export type ApiSnapshot_Timezone = ApiSnapshot<TimezoneSummary>;
 
 // ============================================================================
 // ENVIRONMENT WRAPPER
 // ============================================================================
 
+/**
+ * Why a snapshot is missing from the environment
+ * - timeout: the provider did not answer within its timeout
+ * - deadline: the enrichment deadline passed before the snapshot was ready
+ * - circuit_open: the provider failed repeatedly and is being skipped for a while
+ * - failed: the provider (or its configuration) returned an error
+ */
+export type EnvironmentErrorReason = 'timeout' | 'deadline' | 'circuit_open' | 'failed';
+
+export interface EnvironmentError {
+	provider: string;
+	reason: EnvironmentErrorReason;
+	message: string;
+}
+
 export interface Environment {
 	place?: ApiSnapshot_Place;
 	geocoding?: ApiSnapshot_Geocoding;
@@ -162,23 +231,50 @@ export interface Environment {
 	weather?: ApiSnapshot_Weather;
 	air_quality?: ApiSnapshot_AirQuality;
 	pollen?: ApiSnapshot_Pollen;
+	astronomy?: ApiSnapshot_Astronomy;
+	timezone?: ApiSnapshot_Timezone;
+	/** Snapshots that were skipped, keyed like the snapshots above; absent when none were */
+	errors?: EnvironmentErrors;
 }
 
+/**
+ * Snapshots fetched from a provider, which can be skipped
+ */
+export type ProviderSnapshotName = 'place' | 'geocoding' | 'elevation' | 'weather' | 'air_quality' | 'pollen';
+
+export type EnvironmentErrors = Partial<Record<ProviderSnapshotName, EnvironmentError>>;
+
 // ============================================================================
 // CHATTER DATA (inner payload)
 // ============================================================================
 
+/**
+ * An uploaded image attached to a chatter, resolved from its artifact key
+ */
+export interface ImageReference {
+	artifact_key: string; // <sha256>.<ext> in SR_ARTIFACT
+	photograph_id: string; // sha256:<sha256>, the photograph recorded for the upload
+	content_type: string; // e.g. 'image/jpeg'
+	caption?: string; // IPTC caption of the photograph
+}
+
 export interface ChatterData {
 	kind: 'chatter';
 	content: string;
 	date_posted: string;
 	title?: string;
 	tags?: string[];
-	images?: string[];
-	publish?: boolean;
+	images?: (string | ImageReference)[]; // URIs, and references to uploaded images
+	publish?: boolean; // Mirrors status === 'published'
+	status?: ChatterStatus;
+	publish_at?: string; // Only present when scheduled
 	location_hint?: LocationHint;
 	place?: PlaceInput;
 	environment?: Environment;
+	year?: number; // UTC year of date_posted
+	month?: string; // YYYY-MM of date_posted
+	slug?: string; // Unique, URL-safe; mirrors the D1 hot row
+	supersedes?: string; // Id of the previous version (sha256:...) when edited or backfilled
 }
 
 // ============================================================================
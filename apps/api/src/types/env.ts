@@ -36,6 +36,42 @@ export interface Env {
 		get(): Promise<string>;
 	};
 
+	/**
+	 * Google Places / Maps Platform API key from Secrets Store
+	 * Server-side only: used for enrichment and the /api/places proxy, never sent to clients
+	 */
+	GOOGLE_PLACES_API: {
+		get(): Promise<string>;
+	};
+
+	/**
+	 * Enrichment provider per product (see services/environment/providers.ts)
+	 * Unset means google. WEATHER_PROVIDER and AIR_QUALITY_PROVIDER also accept open-meteo.
+	 */
+	WEATHER_PROVIDER?: string;
+	AIR_QUALITY_PROVIDER?: string;
+	POLLEN_PROVIDER?: string;
+	ELEVATION_PROVIDER?: string;
+	GEOCODING_PROVIDER?: string;
+
+	/**
+	 * Base URL of a self-hosted Open-Meteo server (defaults to the public Open-Meteo API)
+	 */
+	OPEN_METEO_URL?: string;
+
+	/**
+	 * Enrichment limits in milliseconds (see services/environment/provider-guard.ts)
+	 * Unset means 3000 per provider call and 5000 for the whole enrichment of a post.
+	 */
+	ENRICHMENT_PROVIDER_TIMEOUT_MS?: string;
+	ENRICHMENT_DEADLINE_MS?: string;
+
+	/**
+	 * Extra type aliases for ingestion, as a JSON object (see services/type-resolver.ts)
+	 * Added on top of the built-in aliases (shakespert, photos); unset means the built-in ones only.
+	 */
+	TYPE_ALIASES?: string;
+
 	/**
 	 * Static assets from the Astro blog
 	 */
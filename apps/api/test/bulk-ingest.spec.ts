@@ -0,0 +1,174 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { handleQueue } from '../src/handlers/queue';
+import { parseIngestFilters, queueListingPage } from '../src/services/bulk-ingest';
+import { runMigrations } from './helpers/migrations';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+async function ingestAll(query = ''): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com/ingest/all${query}`, {
+		method: 'POST',
+		headers: { Authorization: 'Bearer test-auth-token' },
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+const film = (n: number) => ({
+	id: `sha256:film-${n}`,
+	year_watched: 2020,
+	date_watched: '2020-01-01T00:00:00Z',
+	month: '2020-01',
+	slug: `film-${n}`,
+});
+
+const quote = (n: number) => ({
+	id: `sha256:quote-${n}`,
+	author: 'Anonymous',
+	date_added: '2020-01-01T00:00:00Z',
+	year: 2020,
+	month: '2020-01',
+	slug: `quote-${n}`,
+});
+
+describe('Bulk ingestion filters', () => {
+	let sendBatch: ReturnType<typeof vi.fn>;
+
+	/**
+	 * Keys queued by sendBatch so far
+	 */
+	const queuedKeys = () => sendBatch.mock.calls.flatMap(([batch]) => batch.map((message: any) => message.body.objectKey));
+
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+		sendBatch = vi.fn().mockResolvedValue(undefined);
+		env.JSON_QUEUE = { send: vi.fn(), sendBatch } as any;
+
+		await runMigrations();
+		await env.SR_JSON.put('films/sha256_1.json', JSON.stringify(film(1)));
+		await env.SR_JSON.put('films/sha256_2.json', JSON.stringify(film(2)));
+		await env.SR_JSON.put('quotes/sha256_1.json', JSON.stringify(quote(1)));
+		await env.SR_JSON.put('shakespert/sha256_1.json', JSON.stringify({ id: 'sha256:broken' }));
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('parseIngestFilters', () => {
+		it('should resolve type aliases and normalise modifiedSince', () => {
+			const parsed = parseIngestFilters(new URLSearchParams('type=shakespert&modifiedSince=2024-01-01'));
+			expect(parsed).toEqual({ ok: true, filters: { type: 'shakespeare', modifiedSince: '2024-01-01T00:00:00.000Z' } });
+		});
+
+		it('should reject unknown types and unparseable dates', () => {
+			expect(parseIngestFilters(new URLSearchParams('type=novels')).ok).toBe(false);
+			expect(parseIngestFilters(new URLSearchParams('modifiedSince=yesterday')).ok).toBe(false);
+		});
+	});
+
+	it('should only queue objects under the prefix', async () => {
+		const response = await ingestAll('?prefix=films/');
+		const body = (await response.json()) as any;
+
+		expect(body).toMatchObject({ queued: 2, filters: { prefix: 'films/' } });
+		expect(queuedKeys()).toEqual(['films/sha256_1.json', 'films/sha256_2.json']);
+	});
+
+	it('should only queue objects of the requested type', async () => {
+		await ingestAll('?type=shakespeare');
+		expect(queuedKeys()).toEqual(['shakespert/sha256_1.json']);
+	});
+
+	it('should skip objects uploaded before modifiedSince', async () => {
+		const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+		const body = (await (await ingestAll(`?modifiedSince=${encodeURIComponent(future)}`)).json()) as any;
+		expect(body.queued).toBe(0);
+
+		await ingestAll('?modifiedSince=2000-01-01T00:00:00Z');
+		expect(queuedKeys()).toHaveLength(4);
+	});
+
+	it('should return 400 for invalid filters', async () => {
+		const response = await ingestAll('?type=novels');
+		expect(response.status).toBe(400);
+		expect(sendBatch).not.toHaveBeenCalled();
+	});
+
+	it('should carry the filters across pagination messages', async () => {
+		await env.SR_JSON.put('films/sha256_3.json', JSON.stringify(film(3)));
+
+		// Page by hand with a small limit so a pagination message is needed
+		await queueListingPage(env, { limit: 2, filters: { prefix: 'films/' } });
+
+		const pagination = vi.mocked(env.JSON_QUEUE.send).mock.calls[0][0] as any;
+		expect(pagination).toMatchObject({ type: 'pagination', filters: { prefix: 'films/' } });
+
+		await handleQueue(
+			{
+				queue: 'sr-queue',
+				messages: [{ id: 'msg-page', timestamp: new Date(), body: pagination, attempts: 1, retry: vi.fn(), ack: vi.fn() }],
+				retryAll: () => {},
+				ackAll: () => {},
+			},
+			env
+		);
+
+		expect(queuedKeys()).toEqual(['films/sha256_1.json', 'films/sha256_2.json', 'films/sha256_3.json']);
+	});
+
+	describe('dryRun', () => {
+		it('should report would-be results without writing to D1 or queueing', async () => {
+			const response = await ingestAll('?dryRun=true');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body).toMatchObject({ success: true, dryRun: true, checked: 4, hasMore: false });
+			expect(body.results).toEqual([
+				{ valid: true, objectKey: 'films/sha256_1.json', category: 'films', outcome: 'inserted' },
+				{ valid: true, objectKey: 'films/sha256_2.json', category: 'films', outcome: 'inserted' },
+				{ valid: true, objectKey: 'quotes/sha256_1.json', category: 'quotes', outcome: 'inserted' },
+				expect.objectContaining({ valid: false, objectKey: 'shakespert/sha256_1.json' }),
+			]);
+
+			const films = await env.DB.prepare('SELECT COUNT(*) AS count FROM films').first<{ count: number }>();
+			expect(films?.count).toBe(0);
+			const runs = await env.DB.prepare('SELECT COUNT(*) AS count FROM ingest_runs').first<{ count: number }>();
+			expect(runs?.count).toBe(0);
+			expect(sendBatch).not.toHaveBeenCalled();
+		});
+
+		it('should report updated and unchanged against existing rows', async () => {
+			await handleQueue(
+				{
+					queue: 'sr-queue',
+					messages: ['films/sha256_1.json', 'films/sha256_2.json'].map((objectKey, i) => ({
+						id: `msg-${i}`,
+						timestamp: new Date(),
+						body: { objectKey },
+						attempts: 1,
+						retry: vi.fn(),
+						ack: vi.fn(),
+					})),
+					retryAll: () => {},
+					ackAll: () => {},
+				},
+				env
+			);
+			await env.SR_JSON.put('films/sha256_2.json', JSON.stringify({ ...film(2), slug: 'film-2-renamed' }));
+
+			const body = (await (await ingestAll('?dryRun=true&prefix=films/')).json()) as any;
+			expect(body.results.map((result: any) => result.outcome)).toEqual(['unchanged', 'updated']);
+
+			const row = await env.DB.prepare('SELECT slug FROM films WHERE id = ?').bind('sha256:film-2').first<{ slug: string }>();
+			expect(row?.slug).toBe('film-2');
+		});
+	});
+});
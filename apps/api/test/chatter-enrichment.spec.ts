@@ -0,0 +1,267 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, createScheduledController, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import worker from '../src/index';
+import { handleQueue, MAX_INGEST_ATTEMPTS } from '../src/handlers/queue';
+import { processChatterEnrichment, STALE_ENRICHMENT_MS } from '../src/services/chatter-enrichment';
+import { runMigrations } from './helpers/migrations';
+import mockElevation from './fixtures/environment/mock-elevation.json';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+async function send(method: string, path: string, body?: unknown, authenticated = true): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com${path}`, {
+		method,
+		headers: {
+			'Content-Type': 'application/json',
+			...(authenticated ? { Authorization: 'Bearer test-auth-token' } : {}),
+		},
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+const post = (extra: Record<string, unknown> = {}) => ({
+	kind: 'chatter',
+	content: 'Posted from the ferry',
+	date_posted: '2025-11-20T12:00:00Z',
+	location_hint: { lat: 37.7749, lng: -122.4194 },
+	...extra,
+});
+
+/**
+ * Deliver a chatter enrichment message to the queue consumer
+ */
+async function deliver(id: string, attempts = 1) {
+	const message = {
+		id: 'msg-0',
+		timestamp: new Date(),
+		body: { type: 'chatter-enrichment', id },
+		attempts,
+		retry: vi.fn(),
+		ack: vi.fn(),
+	};
+	await handleQueue({ queue: 'sr-queue', messages: [message], retryAll: () => {}, ackAll: () => {} }, env);
+	return message;
+}
+
+describe('Asynchronous chatter enrichment', () => {
+	let queueSend: ReturnType<typeof vi.fn>;
+	let fetchSpy: MockInstance<typeof fetch>;
+
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+		env.GOOGLE_PLACES_API = { get: vi.fn().mockResolvedValue('test-google-key') } as any;
+		env.ENRICHMENT_PROVIDER_TIMEOUT_MS = '500';
+		queueSend = vi.fn().mockResolvedValue(undefined);
+		env.JSON_QUEUE = { send: queueSend, sendBatch: vi.fn() } as any;
+
+		// Google answers elevation only; the other snapshots are recorded as errors
+		fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+			const url = String(input instanceof Request ? input.url : input);
+			if (url.includes('/maps/api/elevation/')) {
+				return Response.json(mockElevation.full);
+			}
+			return new Response('Backend error', { status: 500 });
+		});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await runMigrations();
+	});
+
+	afterEach(() => {
+		env.ENRICHMENT_PROVIDER_TIMEOUT_MS = undefined;
+		vi.restoreAllMocks();
+	});
+
+	describe('POST /api/chatters?enrich=async', () => {
+		it('should store the chatter without an environment and queue its enrichment', async () => {
+			const response = await send('POST', '/api/chatters?enrich=async', post());
+			expect(response.status).toBe(202);
+
+			const body = (await response.json()) as any;
+			expect(body).toMatchObject({ status: 'pending', status_url: `/api/chatters/${body.id}/enrichment` });
+			expect(body.id).toMatch(/^sha256:[0-9a-f]{64}$/);
+			expect(body.chatter).toMatchObject({
+				id: body.id,
+				data: { content: 'Posted from the ferry', slug: '2025-11-20-posted-from-the-ferry' },
+			});
+			expect(body.chatter.data.environment).toBeUndefined();
+			expect(fetchSpy).not.toHaveBeenCalled();
+
+			// Readable at once
+			const fetched = (await (await send('GET', `/api/chatters/${body.id}`)).json()) as any;
+			expect(fetched.data.content).toBe('Posted from the ferry');
+
+			expect(queueSend).toHaveBeenCalledWith({ type: 'chatter-enrichment', id: body.id });
+
+			const status = (await (await send('GET', body.status_url)).json()) as any;
+			expect(status).toMatchObject({ id: body.id, status: 'pending', version_id: null, attempts: 0, completed_at: null });
+		});
+
+		it('should reject an unknown enrichment mode', async () => {
+			const response = await send('POST', '/api/chatters?enrich=later', post());
+			expect(response.status).toBe(400);
+			expect(await response.json()).toEqual({ error: 'enrich must be one of: sync, async' });
+			expect(queueSend).not.toHaveBeenCalled();
+		});
+
+		it('should validate the payload before storing anything', async () => {
+			const response = await send('POST', '/api/chatters?enrich=async', { kind: 'chatter' });
+			expect(response.status).toBe(400);
+			expect(queueSend).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('queue', () => {
+		it('should store the enriched document as a new version and complete the enrichment', async () => {
+			const posted = (await (await send('POST', '/api/chatters?enrich=async', post({ tags: ['ferry'] }))).json()) as any;
+
+			const message = await deliver(posted.id);
+			expect(message.ack).toHaveBeenCalled();
+			expect(message.retry).not.toHaveBeenCalled();
+
+			const status = (await (await send('GET', posted.status_url)).json()) as any;
+			expect(status).toMatchObject({ id: posted.id, status: 'completed', attempts: 1, error: null });
+			expect(status.version_id).toMatch(/^sha256:[0-9a-f]{64}$/);
+			expect(status.version_id).not.toBe(posted.id);
+			expect(status.completed_at).not.toBeNull();
+
+			const enriched = (await (await send('GET', `/api/chatters/${status.version_id}`)).json()) as any;
+			expect(enriched.data).toMatchObject({ content: 'Posted from the ferry', slug: posted.chatter.data.slug, supersedes: posted.id });
+			expect(enriched.data.environment.elevation.summary).toBeDefined();
+			expect(enriched.data.environment.errors.weather).toMatchObject({ provider: 'google', reason: 'failed' });
+
+			// The hot row and its tags moved to the enriched version
+			expect((await send('GET', `/api/chatters/${posted.id}`)).status).toBe(404);
+			const list = (await (await send('GET', '/api/chatters?tag=ferry')).json()) as any;
+			expect(list.items.map((item: any) => item.id)).toEqual([status.version_id]);
+
+			// The enriched version's id finds the enrichment too
+			expect(((await (await send('GET', `/api/chatters/${status.version_id}/enrichment`)).json()) as any).id).toBe(posted.id);
+		});
+
+		it('should enrich the latest version of a chatter edited before delivery', async () => {
+			const posted = (await (await send('POST', '/api/chatters?enrich=async', post())).json()) as any;
+			const edited = (await (await send('PATCH', `/api/chatters/${posted.id}`, { content: 'Edited on the ferry' })).json()) as any;
+
+			await deliver(posted.id);
+
+			const status = (await (await send('GET', posted.status_url)).json()) as any;
+			const enriched = (await (await send('GET', `/api/chatters/${status.version_id}`)).json()) as any;
+			expect(enriched.data).toMatchObject({ content: 'Edited on the ferry', supersedes: edited.id });
+			expect(enriched.data.environment).toBeDefined();
+		});
+
+		it('should complete without a new version when there is nothing to enrich', async () => {
+			const { location_hint: _location, ...unlocated } = post();
+			const posted = (await (await send('POST', '/api/chatters?enrich=async', unlocated)).json()) as any;
+
+			await deliver(posted.id);
+
+			const status = (await (await send('GET', posted.status_url)).json()) as any;
+			expect(status).toMatchObject({ status: 'completed', version_id: posted.id });
+			expect((await send('GET', `/api/chatters/${posted.id}`)).status).toBe(200);
+		});
+
+		it('should fail the enrichment of a chatter deleted before delivery', async () => {
+			const posted = (await (await send('POST', '/api/chatters?enrich=async', post())).json()) as any;
+			await send('DELETE', `/api/chatters/${posted.id}`);
+
+			const message = await deliver(posted.id);
+
+			expect(message.ack).toHaveBeenCalled();
+			const status = (await (await send('GET', posted.status_url)).json()) as any;
+			expect(status).toMatchObject({ status: 'failed', version_id: null, error: 'Chatter was deleted before it was enriched' });
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it('should not enrich again on a repeated delivery', async () => {
+			const posted = (await (await send('POST', '/api/chatters?enrich=async', post())).json()) as any;
+			await deliver(posted.id);
+			const first = await processChatterEnrichment(env, posted.id);
+			fetchSpy.mockClear();
+
+			const message = await deliver(posted.id);
+
+			expect(message.ack).toHaveBeenCalled();
+			expect(fetchSpy).not.toHaveBeenCalled();
+			expect(await processChatterEnrichment(env, posted.id)).toEqual(first);
+			const row = await env.DB.prepare('SELECT COUNT(*) AS total FROM chatter').first<{ total: number }>();
+			expect(row!.total).toBe(1);
+		});
+
+		it('should retry with backoff and record the failure once attempts run out', async () => {
+			vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const posted = (await (await send('POST', '/api/chatters?enrich=async', post())).json()) as any;
+			await env.DB.prepare('DELETE FROM chatter').run();
+
+			const retried = await deliver(posted.id);
+			expect(retried.retry).toHaveBeenCalledWith({ delaySeconds: 30 });
+			expect(retried.ack).not.toHaveBeenCalled();
+			expect(((await (await send('GET', posted.status_url)).json()) as any).status).toBe('pending');
+
+			const last = await deliver(posted.id, MAX_INGEST_ATTEMPTS);
+			expect(last.ack).toHaveBeenCalled();
+			const status = (await (await send('GET', posted.status_url)).json()) as any;
+			expect(status).toMatchObject({ status: 'failed', attempts: 2, error: `Chatter ${posted.id} has no hot row` });
+		});
+	});
+
+	describe('stale enrichments', () => {
+		async function runCron(scheduledTime: Date): Promise<void> {
+			vi.spyOn(console, 'log').mockImplementation(() => {});
+			await worker.scheduled(createScheduledController({ scheduledTime, cron: '* * * * *' }), env);
+		}
+
+		it('should answer 202 when the message cannot be sent and queue it from the cron trigger', async () => {
+			queueSend.mockRejectedValueOnce(new Error('Queue unavailable'));
+
+			const response = await send('POST', '/api/chatters?enrich=async', post());
+			expect(response.status).toBe(202);
+			const posted = (await response.json()) as any;
+			expect((await send('GET', `/api/chatters/${posted.id}`)).status).toBe(200);
+
+			// Left alone until it has gone stale
+			await runCron(new Date());
+			expect(queueSend).toHaveBeenCalledTimes(1);
+
+			const later = new Date(Date.now() + STALE_ENRICHMENT_MS + 60_000);
+			await runCron(later);
+			expect(queueSend).toHaveBeenCalledTimes(2);
+			expect(queueSend).toHaveBeenLastCalledWith({ type: 'chatter-enrichment', id: posted.id });
+
+			// Touched when queued again, so the next run leaves it alone
+			await runCron(new Date(later.getTime() + 60_000));
+			expect(queueSend).toHaveBeenCalledTimes(2);
+
+			await deliver(posted.id);
+			expect(((await (await send('GET', posted.status_url)).json()) as any).status).toBe('completed');
+		});
+
+		it('should not queue completed or failed enrichments again', async () => {
+			const posted = (await (await send('POST', '/api/chatters?enrich=async', post())).json()) as any;
+			await deliver(posted.id);
+			queueSend.mockClear();
+
+			await runCron(new Date(Date.now() + STALE_ENRICHMENT_MS + 60_000));
+			expect(queueSend).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('GET /api/chatters/{id}/enrichment', () => {
+		it('should require authentication', async () => {
+			const posted = (await (await send('POST', '/api/chatters?enrich=async', post())).json()) as any;
+			expect((await send('GET', posted.status_url, undefined, false)).status).toBe(401);
+		});
+
+		it('should return 404 for chatters posted without ?enrich=async', async () => {
+			expect((await send('GET', '/api/chatters/sha256:unknown/enrichment')).status).toBe(404);
+		});
+	});
+});
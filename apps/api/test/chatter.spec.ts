@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { createChatter, storeChatter, createAndStoreChatter } from '../src/services/chatter-service';
+/// <reference types="./env.d.ts" />
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createChatter, storeChatter, createAndStoreChatter, buildSlug } from '../src/services/chatter-service';
 import type { CreateChatterRequest, Chatter } from '../src/types/chatter';
 import type { Env } from '../src/types/env';
+import { runMigrations } from './helpers/migrations';
 
 // Mock environment for testing
 const createMockEnv = (): Env => {
@@ -30,7 +33,7 @@ const createMockEnv = (): Env => {
 		AUTH_TOKEN: {
 			get: async () => 'mock-auth-token',
 		} as any,
-		DB: {} as any,
+		DB: env.DB,
 		JSON_QUEUE: {} as any,
 		ASSETS: {} as any,
 	};
@@ -39,7 +42,8 @@ const createMockEnv = (): Env => {
 describe('Chatter Service', () => {
 	let mockEnv: Env;
 
-	beforeEach(() => {
+	beforeEach(async () => {
+		await runMigrations();
 		mockEnv = createMockEnv();
 	});
 
@@ -285,6 +289,137 @@ describe('Chatter Service', () => {
 			expect(parsed.id).toBe(chatter.id);
 			expect(parsed.data.content).toBe('End-to-end test');
 		});
+
+		it('should insert the hot row into D1', async () => {
+			const request: CreateChatterRequest = {
+				kind: 'chatter',
+				content: 'Stored in D1',
+				date_posted: '2025-06-01T08:30:00.000Z',
+				title: 'Hello, World!',
+				publish: false,
+			};
+
+			const chatter = await createAndStoreChatter(request, mockEnv, true);
+
+			expect(chatter.data.slug).toBe('2025-06-01-hello-world');
+			expect(chatter.data.year).toBe(2025);
+			expect(chatter.data.month).toBe('2025-06');
+
+			const row = await env.DB.prepare('SELECT * FROM chatter WHERE id = ?').bind(chatter.id).first<any>();
+			expect(row).toMatchObject({
+				slug: '2025-06-01-hello-world',
+				year: 2025,
+				month: '2025-06',
+				publish: 0,
+				r2_key: chatter._meta.objectKey,
+				date_posted: Math.floor(new Date(request.date_posted).getTime() / 1000),
+			});
+		});
+
+		it('should record a scheduled chatter as unpublished until publish_at', async () => {
+			const request: CreateChatterRequest = {
+				kind: 'chatter',
+				content: 'Coming soon',
+				date_posted: '2025-06-01T08:30:00.000Z',
+				status: 'scheduled',
+				publish_at: '2025-06-02T09:00:00.000Z',
+			};
+
+			const chatter = await createAndStoreChatter(request, mockEnv, true);
+			expect(chatter.data).toMatchObject({ status: 'scheduled', publish: false, publish_at: '2025-06-02T09:00:00.000Z' });
+
+			const row = await env.DB.prepare('SELECT status, publish, publish_at FROM chatter WHERE id = ?').bind(chatter.id).first<any>();
+			expect(row).toEqual({ status: 'scheduled', publish: 0, publish_at: Math.floor(Date.parse('2025-06-02T09:00:00.000Z') / 1000) });
+		});
+
+		it('should treat publish: false from older clients as a draft', async () => {
+			const chatter = await createAndStoreChatter(
+				{ kind: 'chatter', content: 'Not yet', date_posted: '2025-06-01T08:30:00.000Z', publish: false, publish_at: '2025-06-02T09:00:00.000Z' },
+				mockEnv,
+				true
+			);
+
+			expect(chatter.data.status).toBe('draft');
+			expect(chatter.data.publish_at).toBeUndefined();
+		});
+
+		it('should suffix the slug when it collides with an existing chatter', async () => {
+			const first = await createAndStoreChatter(
+				{ kind: 'chatter', content: 'Same words', date_posted: '2025-06-01T08:30:00.000Z' },
+				mockEnv,
+				true
+			);
+			const second = await createAndStoreChatter(
+				{ kind: 'chatter', content: 'Same words', date_posted: '2025-06-01T17:45:00.000Z' },
+				mockEnv,
+				true
+			);
+
+			expect(first.data.slug).toBe('2025-06-01-same-words');
+			expect(second.data.slug).toMatch(/^2025-06-01-same-words-[a-f0-9]{7}$/);
+
+			const { results } = await env.DB.prepare('SELECT slug FROM chatter ORDER BY date_posted').all<{ slug: string }>();
+			expect(results.map((row) => row.slug)).toEqual([first.data.slug, second.data.slug]);
+		});
+
+		it('should store the chatter under the next slug when a concurrent post takes its slug', async () => {
+			const put = mockEnv.SR_JSON.put;
+			const stored: string[] = [];
+			mockEnv.SR_JSON.put = vi.fn(async (key: string, value: string) => {
+				// Another post records the same slug between the check and the insert
+				if (stored.length === 0) {
+					await env.DB.prepare(
+						"INSERT INTO chatter (id, date_posted, year, month, slug, publish, status, r2_key) VALUES ('sha256:racer', 0, 2025, '2025-06', '2025-06-01-same-words', 1, 'published', 'chatter/racer.json')"
+					).run();
+				}
+				stored.push(key);
+				return put(key, value);
+			}) as any;
+			mockEnv.SR_JSON.delete = vi.fn(async () => {});
+
+			const chatter = await createAndStoreChatter(
+				{ kind: 'chatter', content: 'Same words', date_posted: '2025-06-01T08:30:00.000Z' },
+				mockEnv,
+				true
+			);
+
+			expect(chatter.data.slug).toMatch(/^2025-06-01-same-words-[a-f0-9]{7}$/);
+			expect(chatter._meta.objectKey).toBe(stored[1]);
+			expect(mockEnv.SR_JSON.delete).toHaveBeenCalledWith(stored[0]);
+
+			const row = await env.DB.prepare('SELECT slug, r2_key FROM chatter WHERE id = ?').bind(chatter.id).first();
+			expect(row).toEqual({ slug: chatter.data.slug, r2_key: stored[1] });
+		});
+
+		it('should link normalized tags through chatter_tags', async () => {
+			const chatter = await createAndStoreChatter(
+				{ kind: 'chatter', content: 'Tagged', date_posted: '2025-06-01T08:30:00.000Z', tags: ['Road Trip', '#road trip', 'Coffee'] },
+				mockEnv,
+				true
+			);
+
+			const { results } = await env.DB.prepare(
+				'SELECT tags.name FROM chatter_tags JOIN tags ON tags.id = chatter_tags.tag_id WHERE chatter_tags.chatter_id = ? ORDER BY tags.name'
+			)
+				.bind(chatter.id)
+				.all<{ name: string }>();
+			expect(results.map((row) => row.name)).toEqual(['coffee', 'road-trip']);
+		});
+	});
+
+	describe('buildSlug', () => {
+		it('should prefer the title and fall back to content', () => {
+			expect(buildSlug({ kind: 'chatter', title: 'Café Crème', content: 'ignored', date_posted: '2010-12-03T01:30:25Z' })).toBe(
+				'2010-12-03-cafe-creme'
+			);
+			expect(buildSlug({ kind: 'chatter', content: 'Traffic sucks this week!', date_posted: '2010-12-03T01:30:25Z' })).toBe(
+				'2010-12-03-traffic-sucks-this-week'
+			);
+		});
+
+		it('should use a placeholder when no text survives slugification', () => {
+			expect(buildSlug({ kind: 'chatter', content: '🎉🎉', date_posted: '2010-12-03T01:30:25Z' })).toBe('2010-12-03-chatter');
+		});
 	});
 
 	describe('Environmental Enrichment', () => {
@@ -0,0 +1,551 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { publishDueChatters } from '../src/services/chatter-service';
+import { processJsonFromR2 } from '../src/services/json-processor';
+import { runMigrations } from './helpers/migrations';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+/**
+ * Seed a chatter hot row in D1 and its document in R2
+ */
+async function seedChatter(
+	id: string,
+	datePosted: string,
+	options: { publish?: boolean; status?: string; publishAt?: string; tags?: string[] } = {}
+): Promise<void> {
+	const hash = id.replace('sha256:', '');
+	const r2Key = `chatter/sha256_${hash}.json`;
+	const date = new Date(datePosted);
+	const month = datePosted.slice(0, 7);
+	const status = options.status ?? (options.publish === false ? 'draft' : 'published');
+	const publish = status === 'published';
+	const publishAt = options.publishAt ? Math.floor(new Date(options.publishAt).getTime() / 1000) : null;
+
+	await env.SR_JSON.put(
+		r2Key,
+		JSON.stringify({
+			type: 'chatter',
+			id,
+			schema_version: '1.1.0',
+			data: { kind: 'chatter', content: `Content for ${hash}`, date_posted: datePosted, publish, status, publish_at: options.publishAt },
+		})
+	);
+
+	await env.DB.prepare(
+		'INSERT INTO chatter (id, date_posted, year, month, slug, publish, status, publish_at, r2_key) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+	)
+		.bind(
+			id,
+			Math.floor(date.getTime() / 1000),
+			date.getUTCFullYear(),
+			month,
+			`${datePosted.slice(0, 10)}-${hash}`,
+			publish ? 1 : 0,
+			status,
+			publishAt,
+			r2Key
+		)
+		.run();
+
+	for (const tag of options.tags ?? []) {
+		await env.DB.prepare('INSERT OR IGNORE INTO tags (name) VALUES (?)').bind(tag).run();
+		await env.DB.prepare('INSERT INTO chatter_tags (chatter_id, tag_id) SELECT ?, id FROM tags WHERE name = ?').bind(id, tag).run();
+	}
+}
+
+async function get(path: string, authenticated = false): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com${path}`, {
+		headers: authenticated ? { Authorization: 'Bearer test-auth-token' } : {},
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+/**
+ * Seed the photograph recorded for an uploaded image and return its artifact key
+ */
+async function seedPhotograph(hash: string, caption: string | null = null): Promise<string> {
+	await env.DB.prepare(
+		'INSERT INTO photographs (id, original_name, cf_image_id, date_taken, caption, r2_key) VALUES (?, ?, ?, ?, ?, ?)'
+	)
+		.bind(`sha256:${hash}`, 'IMG_0001.jpg', `${hash}.jpg`, 1700000000, caption, `photos/sha256_${hash}.json`)
+		.run();
+	return `${hash}.jpg`;
+}
+
+describe('Chatter Read API', () => {
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+
+		await runMigrations();
+		await seedChatter('sha256:aaa1', '2024-01-15T10:00:00Z', { tags: ['twitter'] });
+		await seedChatter('sha256:aaa2', '2024-02-20T10:00:00Z', { tags: ['twitter', 'bluesky'] });
+		await seedChatter('sha256:aaa3', '2024-02-25T10:00:00Z', { publish: false });
+		await seedChatter('sha256:aaa4', '2025-03-01T10:00:00Z', { tags: ['bluesky'] });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('GET /api/chatters', () => {
+		it('should list published chatters newest first', async () => {
+			const response = await get('/api/chatters');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.items.map((item: any) => item.id)).toEqual(['sha256:aaa4', 'sha256:aaa2', 'sha256:aaa1']);
+			expect(body.items[0]).toMatchObject({
+				date_posted: '2025-03-01T10:00:00.000Z',
+				year: 2025,
+				month: '2025-03',
+				publish: true,
+				r2_key: 'chatter/sha256_aaa4.json',
+			});
+			expect(body.next_cursor).toBeNull();
+		});
+
+		it('should include unpublished chatters for authenticated callers', async () => {
+			const response = await get('/api/chatters?publish=false', true);
+			const body = (await response.json()) as any;
+
+			expect(body.items.map((item: any) => item.id)).toEqual(['sha256:aaa3']);
+		});
+
+		it('should ignore the publish filter for unauthenticated callers', async () => {
+			const response = await get('/api/chatters?publish=false');
+			const body = (await response.json()) as any;
+
+			expect(body.items.map((item: any) => item.id)).toEqual(['sha256:aaa4', 'sha256:aaa2', 'sha256:aaa1']);
+		});
+
+		it('should filter by year, month and tag', async () => {
+			const byYear = (await (await get('/api/chatters?year=2024')).json()) as any;
+			expect(byYear.items.map((item: any) => item.id)).toEqual(['sha256:aaa2', 'sha256:aaa1']);
+
+			const byMonth = (await (await get('/api/chatters?month=2024-01')).json()) as any;
+			expect(byMonth.items.map((item: any) => item.id)).toEqual(['sha256:aaa1']);
+
+			const byTag = (await (await get('/api/chatters?tag=bluesky')).json()) as any;
+			expect(byTag.items.map((item: any) => item.id)).toEqual(['sha256:aaa4', 'sha256:aaa2']);
+		});
+
+		it('should filter by date range', async () => {
+			const response = await get('/api/chatters?from=2024-02-01T00:00:00Z&to=2024-12-31T23:59:59Z');
+			const body = (await response.json()) as any;
+
+			expect(body.items.map((item: any) => item.id)).toEqual(['sha256:aaa2']);
+		});
+
+		it('should paginate with a cursor', async () => {
+			const first = (await (await get('/api/chatters?limit=2')).json()) as any;
+			expect(first.items.map((item: any) => item.id)).toEqual(['sha256:aaa4', 'sha256:aaa2']);
+			expect(first.next_cursor).toEqual(expect.any(String));
+
+			const second = (await (await get(`/api/chatters?limit=2&cursor=${encodeURIComponent(first.next_cursor)}`)).json()) as any;
+			expect(second.items.map((item: any) => item.id)).toEqual(['sha256:aaa1']);
+			expect(second.next_cursor).toBeNull();
+		});
+
+		it('should reject an invalid cursor', async () => {
+			const response = await get('/api/chatters?cursor=not-a-cursor');
+			expect(response.status).toBe(400);
+		});
+	});
+
+	describe('GET /api/chatters/{id}', () => {
+		it('should return the full document from R2', async () => {
+			const response = await get('/api/chatters/sha256:aaa1');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.type).toBe('chatter');
+			expect(body.id).toBe('sha256:aaa1');
+			expect(body.data.content).toBe('Content for aaa1');
+		});
+
+		it('should return 404 for unknown ids', async () => {
+			const response = await get('/api/chatters/sha256:missing');
+			expect(response.status).toBe(404);
+		});
+
+		it('should hide unpublished chatters from unauthenticated callers', async () => {
+			expect((await get('/api/chatters/sha256:aaa3')).status).toBe(404);
+			expect((await get('/api/chatters/sha256:aaa3', true)).status).toBe(200);
+		});
+	});
+});
+
+describe('Chatter status', () => {
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+
+		await runMigrations();
+		await seedChatter('sha256:ccc1', '2025-03-01T10:00:00Z');
+		await seedChatter('sha256:ccc2', '2025-03-02T10:00:00Z', { status: 'draft' });
+		await seedChatter('sha256:ccc3', '2025-03-03T10:00:00Z', { status: 'scheduled', publishAt: '2099-01-01T00:00:00Z' });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should only list published chatters to unauthenticated callers', async () => {
+		const body = (await (await get('/api/chatters?status=scheduled')).json()) as any;
+		expect(body.items.map((item: any) => item.id)).toEqual(['sha256:ccc1']);
+	});
+
+	it('should filter on status for authenticated callers', async () => {
+		const all = (await (await get('/api/chatters', true)).json()) as any;
+		expect(all.items.map((item: any) => [item.id, item.status])).toEqual([
+			['sha256:ccc3', 'scheduled'],
+			['sha256:ccc2', 'draft'],
+			['sha256:ccc1', 'published'],
+		]);
+		expect(all.items[0]).toMatchObject({ publish: false, publish_at: '2099-01-01T00:00:00.000Z' });
+
+		const scheduled = (await (await get('/api/chatters?status=scheduled', true)).json()) as any;
+		expect(scheduled.items.map((item: any) => item.id)).toEqual(['sha256:ccc3']);
+	});
+
+	it('should hide drafts and scheduled chatters from unauthenticated callers', async () => {
+		for (const id of ['sha256:ccc2', 'sha256:ccc3']) {
+			expect((await get(`/api/chatters/${id}`)).status).toBe(404);
+			expect((await get(`/api/chatters/${id}/history`)).status).toBe(404);
+			expect((await get(`/api/chatters/${id}`, true)).status).toBe(200);
+		}
+	});
+
+	it('should show a scheduled chatter once the cron has published it', async () => {
+		await publishDueChatters(env, new Date('2099-01-01T00:00:00Z'));
+
+		expect((await get('/api/chatters/sha256:ccc3')).status).toBe(200);
+		expect((await get('/api/chatters/sha256:ccc3/history')).status).toBe(200);
+	});
+});
+
+describe('Chatter Create API validation', () => {
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+
+		await runMigrations();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	async function post(body: string): Promise<Response> {
+		const request = new IncomingRequest('http://example.com/api/chatters', {
+			method: 'POST',
+			headers: { Authorization: 'Bearer test-auth-token', 'Content-Type': 'application/json' },
+			body,
+		});
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(request, env, ctx);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	it('should return 400 with field-level errors for an invalid payload', async () => {
+		const response = await post(JSON.stringify({ kind: 'chatter', content: 42, extra: true }));
+		expect(response.status).toBe(400);
+
+		const body = (await response.json()) as any;
+		expect(body.error).toBe('Invalid request payload');
+		expect(body.errors).toEqual([
+			{ path: 'date_posted', message: 'is required' },
+			{ path: 'content', message: 'must be string' },
+			{ path: 'extra', message: 'is not allowed' },
+		]);
+	});
+
+	it('should require publish_at for scheduled chatters', async () => {
+		const response = await post(JSON.stringify({ kind: 'chatter', content: 'Later', date_posted: '2025-01-01T00:00:00Z', status: 'scheduled' }));
+		expect(response.status).toBe(400);
+
+		const body = (await response.json()) as any;
+		expect(body.errors).toEqual([{ path: 'publish_at', message: 'is required when status is scheduled' }]);
+	});
+
+	it('should return 400 for a body that is not JSON', async () => {
+		const response = await post('{not json');
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error).toBe('Invalid JSON in request body');
+	});
+
+	it('should resolve artifact keys of uploaded images into references', async () => {
+		const key = await seedPhotograph('a'.repeat(64), 'Ocean Beach');
+
+		const response = await post(
+			JSON.stringify({ kind: 'chatter', content: 'Photos', date_posted: '2025-01-01T00:00:00Z', images: ['https://example.com/a.jpg', key] })
+		);
+		expect(response.status).toBe(201);
+
+		const body = (await response.json()) as any;
+		expect(body.data.images).toEqual([
+			'https://example.com/a.jpg',
+			{ artifact_key: key, photograph_id: `sha256:${'a'.repeat(64)}`, content_type: 'image/jpeg', caption: 'Ocean Beach' },
+		]);
+	});
+
+	it('should reject artifact keys that were never uploaded', async () => {
+		const response = await post(
+			JSON.stringify({ kind: 'chatter', content: 'Photos', date_posted: '2025-01-01T00:00:00Z', images: [`${'b'.repeat(64)}.png`] })
+		);
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).errors).toEqual([{ path: 'images.0', message: 'is not an uploaded image' }]);
+
+		const listed = await env.SR_JSON.list({ prefix: 'chatter/' });
+		expect(listed.objects).toHaveLength(0);
+	});
+
+	it('should not store anything for an invalid payload', async () => {
+		await post(JSON.stringify({ kind: 'chatter', content: 'Hi', date_posted: 'tomorrow' }));
+
+		const listed = await env.SR_JSON.list({ prefix: 'chatter/' });
+		expect(listed.objects).toHaveLength(0);
+		const row = await env.DB.prepare('SELECT COUNT(*) AS total FROM chatter').first<{ total: number }>();
+		expect(row!.total).toBe(0);
+	});
+});
+
+describe('Chatter Edit and Delete API', () => {
+	const environment = { weather: { captured_at: '2024-01-15T10:00:00Z', provider: { name: 'google', product: 'weather' }, summary: {} } };
+
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+
+		await runMigrations();
+		await seedChatter('sha256:bbb1', '2024-01-15T10:00:00Z', { tags: ['twitter'] });
+
+		// Give the seeded document an environment snapshot to carry across edits
+		const document = (await (await env.SR_JSON.get('chatter/sha256_bbb1.json'))!.json()) as any;
+		document.data.environment = environment;
+		await env.SR_JSON.put('chatter/sha256_bbb1.json', JSON.stringify(document), { customMetadata: { type: 'chatter' } });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	async function send(method: string, path: string, body?: unknown, authenticated = true): Promise<Response> {
+		const request = new IncomingRequest(`http://example.com${path}`, {
+			method,
+			headers: {
+				'Content-Type': 'application/json',
+				...(authenticated ? { Authorization: 'Bearer test-auth-token' } : {}),
+			},
+			body: body === undefined ? undefined : JSON.stringify(body),
+		});
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(request, env, ctx);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	describe('PATCH /api/chatters/{id}', () => {
+		it('should store a new version that supersedes the old one', async () => {
+			const response = await send('PATCH', '/api/chatters/sha256:bbb1', { content: 'Edited', tags: ['Bluesky'] });
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.id).toMatch(/^sha256:[0-9a-f]{64}$/);
+			expect(body.data).toMatchObject({
+				content: 'Edited',
+				tags: ['Bluesky'],
+				date_posted: '2024-01-15T10:00:00Z',
+				slug: '2024-01-15-bbb1',
+				supersedes: 'sha256:bbb1',
+				environment,
+			});
+
+			// The hot row moved to the new version
+			expect((await get('/api/chatters/sha256:bbb1')).status).toBe(404);
+			const fetched = (await (await get(`/api/chatters/${body.id}`)).json()) as any;
+			expect(fetched.data.content).toBe('Edited');
+
+			const list = (await (await get('/api/chatters?tag=bluesky')).json()) as any;
+			expect(list.items.map((item: any) => item.id)).toEqual([body.id]);
+			expect(list.items[0]).toMatchObject({ slug: '2024-01-15-bbb1', r2_key: body._meta.objectKey });
+			expect(((await (await get('/api/chatters?tag=twitter')).json()) as any).items).toHaveLength(0);
+
+			// The old version is kept and marked
+			const old = await env.SR_JSON.head('chatter/sha256_bbb1.json');
+			expect(old!.customMetadata!['superseded-by']).toBe(body.id);
+		});
+
+		it('should change the status of a draft', async () => {
+			const scheduled = await send('PATCH', '/api/chatters/sha256:bbb1', { status: 'scheduled', publish_at: '2099-01-01T00:00:00Z' });
+			const body = (await scheduled.json()) as any;
+			expect(body.data).toMatchObject({ status: 'scheduled', publish: false, publish_at: '2099-01-01T00:00:00Z' });
+
+			const published = (await (await send('PATCH', `/api/chatters/${body.id}`, { publish: true })).json()) as any;
+			expect(published.data).toMatchObject({ status: 'published', publish: true });
+			expect(published.data.publish_at).toBeUndefined();
+
+			const row = await env.DB.prepare('SELECT status, publish, publish_at FROM chatter WHERE id = ?').bind(published.id).first();
+			expect(row).toEqual({ status: 'published', publish: 1, publish_at: null });
+		});
+
+		it('should keep a chatter published by the cron published when it is edited', async () => {
+			const scheduled = (await (
+				await send('PATCH', '/api/chatters/sha256:bbb1', { status: 'scheduled', publish_at: '2099-01-01T00:00:00Z' })
+			).json()) as any;
+			await publishDueChatters(env, new Date('2099-01-01T00:00:00Z'));
+
+			// The stored document is marked, so reads and re-ingestion agree with the hot row
+			const object = await env.SR_JSON.head(scheduled._meta.objectKey);
+			expect(object!.customMetadata!['published-at']).toBe('2099-01-01T00:00:00.000Z');
+			const fetched = (await (await get(`/api/chatters/${scheduled.id}`)).json()) as any;
+			expect(fetched.data).toMatchObject({ status: 'published', publish: true });
+			expect(await processJsonFromR2(scheduled._meta.objectKey, env.SR_JSON, env.DB)).toMatchObject({ valid: true });
+			expect(await env.DB.prepare('SELECT status FROM chatter WHERE id = ?').bind(scheduled.id).first()).toEqual({ status: 'published' });
+
+			const edited = (await (await send('PATCH', `/api/chatters/${scheduled.id}`, { content: 'Edited' })).json()) as any;
+			expect(edited.data).toMatchObject({ content: 'Edited', status: 'published', publish: true });
+			expect(edited.data.publish_at).toBeUndefined();
+			expect((await get(`/api/chatters/${edited.id}`)).status).toBe(200);
+
+			const row = await env.DB.prepare('SELECT status, publish, publish_at FROM chatter WHERE id = ?').bind(edited.id).first();
+			expect(row).toEqual({ status: 'published', publish: 1, publish_at: null });
+		});
+
+		it('should resolve artifact keys in replaced images', async () => {
+			const key = await seedPhotograph('c'.repeat(64));
+
+			const response = await send('PATCH', '/api/chatters/sha256:bbb1', { images: [key] });
+			expect(response.status).toBe(200);
+			const edited = (await response.json()) as any;
+			expect(edited.data.images).toEqual([{ artifact_key: key, photograph_id: `sha256:${'c'.repeat(64)}`, content_type: 'image/jpeg' }]);
+
+			const rejected = await send('PATCH', `/api/chatters/${edited.id}`, { images: [`${'d'.repeat(64)}.jpg`] });
+			expect(rejected.status).toBe(400);
+			expect(((await rejected.json()) as any).errors).toEqual([{ path: 'images.0', message: 'is not an uploaded image' }]);
+		});
+
+		it('should require publish_at when scheduling', async () => {
+			const response = await send('PATCH', '/api/chatters/sha256:bbb1', { status: 'scheduled' });
+			expect(response.status).toBe(400);
+			expect(((await response.json()) as any).errors).toEqual([{ path: 'publish_at', message: 'is required when status is scheduled' }]);
+		});
+
+		it('should require authentication', async () => {
+			const response = await send('PATCH', '/api/chatters/sha256:bbb1', { content: 'Edited' }, false);
+			expect(response.status).toBe(401);
+		});
+
+		it('should reject fields that cannot be edited', async () => {
+			const response = await send('PATCH', '/api/chatters/sha256:bbb1', { date_posted: '2024-01-16T10:00:00Z', publish: 'yes' });
+			expect(response.status).toBe(400);
+
+			const body = (await response.json()) as any;
+			expect(body.errors).toEqual([
+				{ path: 'date_posted', message: 'is not allowed' },
+				{ path: 'publish', message: 'must be boolean' },
+			]);
+		});
+
+		it('should reject an empty patch', async () => {
+			const response = await send('PATCH', '/api/chatters/sha256:bbb1', {});
+			expect(response.status).toBe(400);
+			expect(((await response.json()) as any).error).toBe('No fields to update');
+		});
+
+		it('should return 404 for unknown and superseded ids', async () => {
+			expect((await send('PATCH', '/api/chatters/sha256:missing', { content: 'x' })).status).toBe(404);
+
+			await send('PATCH', '/api/chatters/sha256:bbb1', { content: 'Edited' });
+			expect((await send('PATCH', '/api/chatters/sha256:bbb1', { content: 'Forked' })).status).toBe(404);
+		});
+	});
+
+	describe('DELETE /api/chatters/{id}', () => {
+		it('should tombstone the chatter and remove its hot row', async () => {
+			const response = await send('DELETE', '/api/chatters/sha256:bbb1');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.id).toBe('sha256:bbb1');
+			expect(new Date(body.deleted_at).toISOString()).toBe(body.deleted_at);
+
+			expect((await get('/api/chatters/sha256:bbb1', true)).status).toBe(404);
+			expect(((await (await get('/api/chatters', true)).json()) as any).items).toHaveLength(0);
+			const links = await env.DB.prepare('SELECT COUNT(*) AS total FROM chatter_tags').first<{ total: number }>();
+			expect(links!.total).toBe(0);
+
+			const object = await env.SR_JSON.head('chatter/sha256_bbb1.json');
+			expect(object!.customMetadata!['deleted-at']).toBe(body.deleted_at);
+		});
+
+		it('should require authentication', async () => {
+			expect((await send('DELETE', '/api/chatters/sha256:bbb1', undefined, false)).status).toBe(401);
+			expect((await get('/api/chatters/sha256:bbb1')).status).toBe(200);
+		});
+
+		it('should return 404 for unknown ids', async () => {
+			expect((await send('DELETE', '/api/chatters/sha256:missing')).status).toBe(404);
+		});
+	});
+
+	describe('GET /api/chatters/{id}/history', () => {
+		it('should walk the version chain from any version, newest first', async () => {
+			const first = (await (await send('PATCH', '/api/chatters/sha256:bbb1', { content: 'Edit 1' })).json()) as any;
+			const second = (await (await send('PATCH', `/api/chatters/${first.id}`, { title: 'Edit 2' })).json()) as any;
+
+			for (const id of ['sha256:bbb1', first.id, second.id]) {
+				const response = await get(`/api/chatters/${id}/history`);
+				expect(response.status).toBe(200);
+
+				const body = (await response.json()) as any;
+				expect(body.versions.map((version: any) => version.id)).toEqual([second.id, first.id, 'sha256:bbb1']);
+				expect(body.versions.map((version: any) => version.superseded_by)).toEqual([null, second.id, first.id]);
+				expect(body.versions[0].document.data).toMatchObject({ content: 'Edit 1', title: 'Edit 2', supersedes: first.id });
+			}
+		});
+
+		it('should only show deleted chatters to authenticated callers', async () => {
+			await send('DELETE', '/api/chatters/sha256:bbb1');
+
+			expect((await get('/api/chatters/sha256:bbb1/history')).status).toBe(404);
+
+			const response = await get('/api/chatters/sha256:bbb1/history', true);
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as any;
+			expect(body.versions).toHaveLength(1);
+			expect(body.versions[0].deleted_at).toEqual(expect.any(String));
+		});
+
+		it('should return 404 for unknown ids', async () => {
+			expect((await get('/api/chatters/sha256:missing/history', true)).status).toBe(404);
+		});
+	});
+
+	describe('re-ingestion', () => {
+		it('should not resurrect superseded or deleted versions', async () => {
+			const edited = (await (await send('PATCH', '/api/chatters/sha256:bbb1', { content: 'Edited' })).json()) as any;
+			await send('DELETE', `/api/chatters/${edited.id}`);
+
+			for (const key of ['chatter/sha256_bbb1.json', edited._meta.objectKey]) {
+				const result = await processJsonFromR2(key, env.SR_JSON, env.DB);
+				expect(result).toMatchObject({ valid: true, outcome: 'unchanged' });
+			}
+
+			const row = await env.DB.prepare('SELECT COUNT(*) AS total FROM chatter').first<{ total: number }>();
+			expect(row!.total).toBe(0);
+		});
+	});
+});
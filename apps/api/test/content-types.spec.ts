@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { CONTENT_TYPES, ContentValidationError, getContentType, mapContentRecord } from '../src/services/content-types';
+
+describe('Content type registry', () => {
+	it('should look up registered types only', () => {
+		expect(getContentType('films')).toBe(CONTENT_TYPES.films);
+		expect(getContentType('postcards')).toBeUndefined();
+		expect(getContentType('toString')).toBeUndefined();
+	});
+
+	describe('mapContentRecord', () => {
+		it('should map snake_case fields to columns and apply defaults', () => {
+			const record = mapContentRecord(
+				CONTENT_TYPES.films,
+				{ id: 'sha256:film', year_watched: 2020, date_watched: '2020-01-02T00:00:00Z', month: '2020-01', slug: 'film', tmdb_id: 42 },
+				'films/sha256_film.json'
+			);
+
+			expect(record).toEqual({
+				id: 'sha256:film',
+				r2Key: 'films/sha256_film.json',
+				yearWatched: 2020,
+				dateWatched: new Date('2020-01-02T00:00:00Z'),
+				month: '2020-01',
+				slug: 'film',
+				rewatch: false,
+				publish: true,
+				// Optional fields of the wrong type are dropped
+				tmdbId: undefined,
+				letterboxdId: undefined,
+			});
+		});
+
+		it('should prefer the envelope id', () => {
+			const record = mapContentRecord(
+				CONTENT_TYPES.quotes,
+				{ id: 'sha256:inner', author: 'A', date_added: '2020-01-01', year: 2020, month: '2020-01', slug: 'q' },
+				'quotes/q.json',
+				'sha256:outer'
+			);
+			expect(record.id).toBe('sha256:outer');
+		});
+
+		it('should accept timestamps as unix seconds or ISO strings', () => {
+			const fields = { id: 'p1', work_id: 'hamlet', act: 1, scene: 2, character_id: 'ham', word_count: 10 };
+			const fromSeconds = mapContentRecord(CONTENT_TYPES.shakespeare, { ...fields, timestamp: 1_700_000_000 }, 'k');
+			const fromString = mapContentRecord(CONTENT_TYPES.shakespeare, { ...fields, timestamp: '2023-11-14T22:13:20Z' }, 'k');
+
+			expect(fromSeconds).toMatchObject({ timestamp: new Date(1_700_000_000_000) });
+			expect(fromString).toMatchObject({ timestamp: new Date(1_700_000_000_000) });
+		});
+
+		it('should list every missing or invalid field at once', () => {
+			const attempt = () => mapContentRecord(CONTENT_TYPES.chatter, { date_posted: 'not a date', year: '2020', slug: 'x' }, 'k');
+
+			expect(attempt).toThrow(ContentValidationError);
+			expect(attempt).toThrow('Missing or invalid fields: id, date_posted, year, month');
+		});
+
+		it('should name a single failing field', () => {
+			expect(() =>
+				mapContentRecord(CONTENT_TYPES.quotes, { id: 'q', author: 'A', date_added: '2020-01-01', year: 2020, month: '2020-01' }, 'k')
+			).toThrow('Missing or invalid field: slug');
+		});
+
+		it('should derive the chatter status from publish and reject unknown statuses', () => {
+			const base = { id: 'c', date_posted: '2020-01-01T00:00:00Z', year: 2020, month: '2020-01', slug: 'c' };
+
+			expect(mapContentRecord(CONTENT_TYPES.chatter, { ...base, publish: false }, 'k')).toMatchObject({ status: 'draft' });
+			expect(mapContentRecord(CONTENT_TYPES.chatter, base, 'k')).toMatchObject({ status: 'published' });
+			expect(
+				mapContentRecord(CONTENT_TYPES.chatter, { ...base, publish: false, status: 'scheduled', publish_at: '2020-02-01T00:00:00Z' }, 'k')
+			).toMatchObject({ status: 'scheduled', publishAt: new Date('2020-02-01T00:00:00Z') });
+			// Not one of the allowed values: treated as missing
+			expect(mapContentRecord(CONTENT_TYPES.chatter, { ...base, status: 'archived' }, 'k')).toMatchObject({ status: 'published' });
+		});
+
+		it('should read alternate keys in order and derive defaults from the document', () => {
+			const record = mapContentRecord(
+				CONTENT_TYPES.bookmarks,
+				{ _id: 123, link: 'https://example.com/a', title: 'A', excerpt: '', created: '2024-01-01T00:00:00Z' },
+				'bookmarks/b.json'
+			);
+
+			expect(record).toMatchObject({
+				id: '123',
+				domain: 'example.com',
+				excerpt: undefined,
+				createdAt: new Date('2024-01-01T00:00:00Z'),
+				// No lastUpdate: falls back to the creation time
+				updatedAt: new Date('2024-01-01T00:00:00Z'),
+			});
+		});
+	});
+});
@@ -0,0 +1,245 @@
+/// <reference types="./env.d.ts" />
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { enrichChatter } from '../src/services/environment/enrichment';
+import { CIRCUIT_FAILURE_THRESHOLD, circuitKey, getCircuit } from '../src/services/environment/circuit-breaker';
+import { DEFAULT_ENRICHMENT_DEADLINE_MS, DEFAULT_PROVIDER_TIMEOUT_MS, enrichmentLimits } from '../src/services/environment/provider-guard';
+import { connectD1, schema } from '../src/db/client';
+import type { CreateChatterRequest } from '../src/types/chatter';
+import { runMigrations } from './helpers/migrations';
+import mockWeather from './fixtures/environment/mock-weather.json';
+import mockElevation from './fixtures/environment/mock-elevation.json';
+
+const LAT = 37.7749;
+const LNG = -122.4194;
+
+const request = (extra: Partial<CreateChatterRequest> = {}): CreateChatterRequest => ({
+	kind: 'chatter',
+	content: 'Hello',
+	date_posted: new Date().toISOString(),
+	location_hint: { lat: LAT, lng: LNG },
+	...extra,
+});
+
+/**
+ * Google hosts answered by the fetch stub, per enrichment snapshot
+ */
+const HOSTS = {
+	weather: 'weather.googleapis.com',
+	air_quality: 'airquality.googleapis.com',
+	pollen: 'pollen.googleapis.com',
+	elevation: '/maps/api/elevation/',
+	geocoding: '/maps/api/geocode/',
+	place: 'places.googleapis.com',
+} as const;
+
+type Host = keyof typeof HOSTS;
+
+/**
+ * Provider responses for the snapshots the stub can answer
+ */
+const RESPONSES: Partial<Record<Host, unknown>> = {
+	weather: mockWeather.full,
+	elevation: mockElevation.full,
+};
+
+/**
+ * Stub Google: listed snapshots hang forever or answer with their fixture; the rest fail with 500
+ */
+function stubGoogle(behaviour: Partial<Record<Host, 'hang' | 'ok'>>): MockInstance<typeof fetch> {
+	return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+		const url = String(input instanceof Request ? input.url : input);
+		const host = (Object.keys(HOSTS) as Host[]).find((name) => url.includes(HOSTS[name]));
+		const action = host ? behaviour[host] : undefined;
+		if (action === 'hang') {
+			return new Promise<Response>(() => {});
+		}
+		if (action === 'ok') {
+			return Response.json(RESPONSES[host!]);
+		}
+		return new Response('Backend error', { status: 500 });
+	});
+}
+
+function calledHost(spy: MockInstance<typeof fetch>, host: Host): boolean {
+	return spy.mock.calls.some(([input]) => String(input).includes(HOSTS[host]));
+}
+
+describe('Enrichment limits', () => {
+	beforeEach(async () => {
+		await runMigrations();
+		env.GOOGLE_PLACES_API = { get: vi.fn().mockResolvedValue('test-google-key') } as any;
+		env.WEATHER_PROVIDER = undefined;
+		env.AIR_QUALITY_PROVIDER = undefined;
+		env.ENRICHMENT_PROVIDER_TIMEOUT_MS = '500';
+		env.ENRICHMENT_DEADLINE_MS = '2000';
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		env.ENRICHMENT_PROVIDER_TIMEOUT_MS = undefined;
+		env.ENRICHMENT_DEADLINE_MS = undefined;
+		vi.restoreAllMocks();
+	});
+
+	describe('enrichmentLimits', () => {
+		it('should read the limits from Env and fall back to the defaults', () => {
+			expect(enrichmentLimits(env)).toEqual({ providerTimeoutMs: 500, deadlineMs: 2000 });
+
+			env.ENRICHMENT_PROVIDER_TIMEOUT_MS = 'soon';
+			env.ENRICHMENT_DEADLINE_MS = undefined;
+			expect(enrichmentLimits(env)).toEqual({ providerTimeoutMs: DEFAULT_PROVIDER_TIMEOUT_MS, deadlineMs: DEFAULT_ENRICHMENT_DEADLINE_MS });
+		});
+	});
+
+	describe('enrichChatter', () => {
+		it('should give up on a slow provider after its timeout and record why', async () => {
+			stubGoogle({ weather: 'hang', elevation: 'ok' });
+
+			const data = await enrichChatter(request(), env);
+
+			expect(data.environment?.weather).toBeUndefined();
+			expect(data.environment?.errors?.weather).toEqual({
+				provider: 'google',
+				reason: 'timeout',
+				message: 'weather:google did not answer within 500ms',
+			});
+			expect(data.environment?.errors?.air_quality).toMatchObject({ provider: 'google', reason: 'failed' });
+			expect(data.environment?.errors?.air_quality?.message).toContain('500');
+			expect(data.environment?.elevation).toBeDefined();
+			expect(data.environment?.errors?.elevation).toBeUndefined();
+			// Offline snapshots are unaffected
+			expect(data.environment?.timezone).toBeDefined();
+		});
+
+		it('should stop waiting for every snapshot at the enrichment deadline', async () => {
+			env.ENRICHMENT_PROVIDER_TIMEOUT_MS = '300';
+			env.ENRICHMENT_DEADLINE_MS = '50';
+			stubGoogle({ weather: 'hang', air_quality: 'hang', pollen: 'hang', elevation: 'hang', geocoding: 'hang', place: 'hang' });
+
+			const started = Date.now();
+			const data = await enrichChatter(
+				request({
+					place: {
+						name: 'Ferry Building',
+						formatted_address: '1 Ferry Building, San Francisco, CA 94111',
+						short_address: 'Ferry Building',
+						location: { lat: LAT, lng: LNG },
+						provider_ids: { google_places: 'ChIJ-place' },
+					},
+				}),
+				env,
+			);
+
+			expect(Date.now() - started).toBeLessThan(2000);
+			const errors = data.environment?.errors ?? {};
+			expect(Object.keys(errors).sort()).toEqual(['air_quality', 'elevation', 'geocoding', 'place', 'pollen', 'weather']);
+			expect(Object.values(errors).every((error) => error?.reason === 'deadline')).toBe(true);
+			expect(errors.place?.message).toBe('Enrichment deadline passed');
+
+			// The abandoned calls run on to their own timeout, and still count against their circuits
+			await new Promise((resolve) => setTimeout(resolve, 500));
+			const circuits = await connectD1(env.DB).select().from(schema.environmentCircuits);
+			expect(circuits.map((circuit) => circuit.key).sort()).toEqual([
+				'air_quality:google',
+				'elevation:google',
+				'geocoding:google',
+				'place:google',
+				'pollen:google',
+				'weather:google',
+			]);
+		});
+
+		it('should leave errors out when every provider answers', async () => {
+			const data = await enrichChatter(request(), env, true);
+
+			expect(data.environment?.weather).toBeDefined();
+			expect(data.environment?.errors).toBeUndefined();
+		});
+
+		it('should name the configured provider when it is not registered', async () => {
+			env.WEATHER_PROVIDER = 'nope';
+			stubGoogle({});
+
+			const data = await enrichChatter(request(), env);
+
+			expect(data.environment?.errors?.weather).toEqual({ provider: 'nope', reason: 'failed', message: 'Unknown weather provider: nope' });
+		});
+	});
+
+	describe('circuit breaker', () => {
+		it('should skip a provider after repeated failures', async () => {
+			const fetchSpy = stubGoogle({ elevation: 'ok' });
+
+			for (let post = 0; post < CIRCUIT_FAILURE_THRESHOLD; post++) {
+				// A new cell each time, so no snapshot is served from the cache
+				const data = await enrichChatter(request({ location_hint: { lat: LAT + post, lng: LNG } }), env);
+				expect(data.environment?.errors?.weather?.reason).toBe('failed');
+			}
+
+			const circuit = await getCircuit(env, circuitKey('weather', 'google'));
+			expect(circuit).toMatchObject({ failures: CIRCUIT_FAILURE_THRESHOLD, lastError: expect.stringContaining('500') });
+			expect(circuit?.openUntil?.getTime()).toBeGreaterThan(Date.now());
+
+			fetchSpy.mockClear();
+			const data = await enrichChatter(request({ location_hint: { lat: LAT + 10, lng: LNG } }), env);
+
+			expect(calledHost(fetchSpy, 'weather')).toBe(false);
+			expect(data.environment?.errors?.weather).toMatchObject({ provider: 'google', reason: 'circuit_open' });
+			expect(data.environment?.errors?.weather?.message).toMatch(/^weather:google failed 3 times in a row; skipped until /);
+			// Elevation keeps answering, so its circuit never opened
+			expect(data.environment?.elevation).toBeDefined();
+			expect(await getCircuit(env, circuitKey('elevation', 'google'))).toBeNull();
+		});
+
+		it('should try the provider again after the cooldown and close the circuit on success', async () => {
+			const orm = connectD1(env.DB);
+			await orm.insert(schema.environmentCircuits).values({
+				key: circuitKey('weather', 'google'),
+				failures: CIRCUIT_FAILURE_THRESHOLD,
+				openUntil: new Date(Date.now() - 1000),
+				lastError: 'Google Weather API error: 500',
+			});
+			const fetchSpy = stubGoogle({ weather: 'ok' });
+
+			const data = await enrichChatter(request(), env);
+
+			expect(calledHost(fetchSpy, 'weather')).toBe(true);
+			expect(data.environment?.weather).toBeDefined();
+			expect(data.environment?.errors?.weather).toBeUndefined();
+			expect(await getCircuit(env, circuitKey('weather', 'google'))).toBeNull();
+		});
+
+		it('should open the circuit again when the first call after the cooldown fails', async () => {
+			const orm = connectD1(env.DB);
+			const key = circuitKey('weather', 'google');
+			await orm
+				.insert(schema.environmentCircuits)
+				.values({ key, failures: CIRCUIT_FAILURE_THRESHOLD, openUntil: new Date(Date.now() - 1000) });
+			stubGoogle({});
+
+			await enrichChatter(request(), env);
+
+			const [circuit] = await orm.select().from(schema.environmentCircuits).where(eq(schema.environmentCircuits.key, key));
+			expect(circuit.failures).toBe(CIRCUIT_FAILURE_THRESHOLD + 1);
+			expect(circuit.openUntil!.getTime()).toBeGreaterThan(Date.now());
+		});
+
+		it('should serve cached snapshots while the circuit is open', async () => {
+			const fetchSpy = stubGoogle({ weather: 'ok' });
+			await enrichChatter(request(), env);
+
+			await connectD1(env.DB)
+				.insert(schema.environmentCircuits)
+				.values({ key: circuitKey('weather', 'google'), failures: CIRCUIT_FAILURE_THRESHOLD, openUntil: new Date(Date.now() + 60_000) });
+			fetchSpy.mockClear();
+
+			const data = await enrichChatter(request(), env);
+
+			expect(calledHost(fetchSpy, 'weather')).toBe(false);
+			expect(data.environment?.weather?.cached).toBe(true);
+			expect(data.environment?.errors?.weather).toBeUndefined();
+		});
+	});
+});
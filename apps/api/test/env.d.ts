@@ -4,6 +4,13 @@ declare module 'cloudflare:test' {
 	interface ProvidedEnv extends Env {}
 }
 
+// Values provided by globalSetup (see helpers/open-meteo-stub.mts)
+declare module 'vitest' {
+	export interface ProvidedContext {
+		openMeteoUrl: string;
+	}
+}
+
 // Type declarations for Vite ?raw imports
 // This allows importing files as raw strings using the ?raw suffix
 declare module '*?raw' {
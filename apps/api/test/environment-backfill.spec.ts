@@ -0,0 +1,409 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi, inject, type MockInstance } from 'vitest';
+import { eq } from 'drizzle-orm';
+import worker from '../src/index';
+import { handleQueue, MAX_INGEST_ATTEMPTS } from '../src/handlers/queue';
+import { connectD1, schema } from '../src/db/client';
+import { processJsonFromR2 } from '../src/services/json-processor';
+import { chatterObjectKey } from '../src/services/chatter-service';
+import { createBackfillRun, getBackfillRun, processBackfillPage } from '../src/services/environment-backfill';
+import * as astronomy from '../src/services/environment/astronomy';
+import { runMigrations } from './helpers/migrations';
+// @ts-expect-error
+import checkinFixture from './fixtures/checkins/sha256_0a00bc4fefab890f654a7383c9f6e26dba547c2b925d8809450981bf7cc3e76d.jsonl?raw';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+const CHECKIN_KEY = '/checkins/sha256_0a00bc4fefab890f654a7383c9f6e26dba547c2b925d8809450981bf7cc3e76d.jsonl';
+const CHECKIN_ID = 'sha256:0a00bc4fefab890f654a7383c9f6e26dba547c2b925d8809450981bf7cc3e76d';
+
+async function call(path: string, method = 'GET', token = 'test-auth-token'): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com${path}`, {
+		method,
+		headers: { Authorization: `Bearer ${token}` },
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+/**
+ * Store a record in R2 and ingest it, as the import pipeline would
+ */
+async function ingest(objectKey: string, record: unknown): Promise<void> {
+	await env.SR_JSON.put(objectKey, JSON.stringify(record));
+	const result = await processJsonFromR2(objectKey, env.SR_JSON, env.DB);
+	expect(result.valid).toBe(true);
+}
+
+/**
+ * Bare checkin record that already carries an environment
+ */
+const enrichedCheckin = (n: number) => ({
+	id: `sha256:checkin-${n}`,
+	venue_id: `venue-${n}`,
+	latitude: 38.9,
+	longitude: -77.1,
+	datetime: `2012-01-${String(n).padStart(2, '0')}T12:00:00Z`,
+	year: 2012,
+	month: '2012-01',
+	slug: `2012-01-${String(n).padStart(2, '0')}-checkin`,
+	environment: { elevation: { captured_at: '2012-01-01T12:00:00Z', provider: { name: 'google', product: 'elevation' }, summary: {} } },
+});
+
+const importedChatter = (slug: string, extra: Record<string, unknown> = {}) => ({
+	id: `sha256:${slug}`,
+	title: slug,
+	content: 'Imported before enrichment existed',
+	date_posted: '2015-08-06T12:00:00Z',
+	year: 2015,
+	month: '2015-08',
+	slug,
+	tags: ['chatter'],
+	publish: true,
+	...extra,
+});
+
+/**
+ * Answer Google Elevation and Geocoding calls; everything else (the Open-Meteo stub) goes out
+ */
+function stubGoogle(): MockInstance<typeof fetch> {
+	const realFetch = globalThis.fetch;
+	return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+		const url = String(input instanceof Request ? input.url : input);
+		if (url.includes('/maps/api/elevation/')) {
+			return Response.json({ status: 'OK', results: [{ elevation: 3 }] });
+		}
+		if (url.includes('/maps/api/geocode/')) {
+			return Response.json({
+				status: 'OK',
+				results: [
+					{
+						formatted_address: 'Virginia Beach, VA, USA',
+						address_components: [
+							{ long_name: 'Virginia Beach', short_name: 'Virginia Beach', types: ['locality'] },
+							{ long_name: 'Virginia', short_name: 'VA', types: ['administrative_area_level_1'] },
+							{ long_name: 'United States', short_name: 'US', types: ['country'] },
+						],
+					},
+				],
+			});
+		}
+		return realFetch(input, init);
+	});
+}
+
+describe('Environment backfill', () => {
+	let send: ReturnType<typeof vi.fn>;
+	let fetchSpy: MockInstance<typeof fetch>;
+
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+		env.GOOGLE_PLACES_API = { get: vi.fn().mockResolvedValue('test-google-key') } as any;
+		env.WEATHER_PROVIDER = 'open-meteo';
+		env.OPEN_METEO_URL = inject('openMeteoUrl');
+		send = vi.fn().mockResolvedValue(undefined);
+		env.JSON_QUEUE = { send, sendBatch: vi.fn() } as any;
+		fetchSpy = stubGoogle();
+
+		await runMigrations();
+	});
+
+	afterEach(() => {
+		env.WEATHER_PROVIDER = undefined;
+		vi.restoreAllMocks();
+	});
+
+	describe('checkins', () => {
+		it('should store an enriched copy with a new hash and move the row to it', async () => {
+			await env.SR_JSON.put(CHECKIN_KEY, checkinFixture);
+			await processJsonFromR2(CHECKIN_KEY, env.SR_JSON, env.DB);
+
+			const runId = await createBackfillRun(env.DB, 'checkins', 30);
+			expect(await processBackfillPage(env, runId)).toEqual({ processed: 1, hasMore: false });
+
+			const orm = connectD1(env.DB);
+			const rows = await orm.select().from(schema.checkins);
+			expect(rows).toHaveLength(1);
+			const [row] = rows;
+			expect(row.id).not.toBe(CHECKIN_ID);
+			expect(row.slug).toBe('2015-08-06-virginia-beach');
+			expect(row.r2Key).toBe(`checkins/sha256_${row.id.replace('sha256:', '')}.json`);
+
+			const stored = (await (await env.SR_JSON.get(row.r2Key))!.json()) as any;
+			expect(stored).toMatchObject({ id: row.id, venue_name: 'Virginia Beach', supersedes: CHECKIN_ID });
+			const { environment } = stored;
+			expect(environment.weather).toMatchObject({
+				provider: { name: 'open-meteo', product: 'weather' },
+				summary: { timestamp: '2015-08-06T12:00:00.000Z', temp_f: 77.5 },
+				observed_for: '2015-08-06T12:00:00.000Z',
+			});
+			expect(environment.elevation).toMatchObject({ summary: { elevation_ft: 10 }, observed_for: '2015-08-06T12:00:00.000Z' });
+			expect(environment.geocoding.summary).toMatchObject({ locality: 'Virginia Beach', country_code: 'US' });
+			expect(environment.timezone.summary).toMatchObject({ zone: 'America/New_York', utc_offset_minutes: -240 });
+			expect(environment.astronomy.observed_for).toBe('2015-08-06T12:00:00.000Z');
+			expect(environment.air_quality).toBeUndefined();
+			expect(environment.weather.captured_at).not.toBe(environment.weather.observed_for);
+
+			// The archive is asked for the day of the checkin
+			const archive = fetchSpy.mock.calls.map(([input]) => new URL(String(input))).find((url) => url.pathname === '/v1/archive');
+			expect(archive?.searchParams.get('start_date')).toBe('2015-08-06');
+
+			// The old object is retired, so re-ingesting it leaves the enriched row alone
+			const old = await env.SR_JSON.head(CHECKIN_KEY);
+			expect(old?.customMetadata?.['superseded-by']).toBe(row.id);
+			expect(await processJsonFromR2(CHECKIN_KEY, env.SR_JSON, env.DB)).toMatchObject({ category: 'checkins', outcome: 'unchanged' });
+			expect(await orm.select().from(schema.checkins)).toHaveLength(1);
+
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({
+				status: 'completed',
+				processed: 1,
+				enriched: 1,
+				skipped: 0,
+				failed: 0,
+				cursor: { date: '2015-08-06T12:00:00.000Z', slug: '2015-08-06-virginia-beach' },
+			});
+		});
+
+		it('should skip replaced records when a JSONL object holding several is ingested again', async () => {
+			const first = JSON.parse(checkinFixture);
+			const second = { ...first, id: 'sha256:second', slug: '2015-08-06-virginia-beach-again' };
+			const key = 'checkins/sha256_both.jsonl';
+			await env.SR_JSON.put(key, `${JSON.stringify(first)}\n${JSON.stringify(second)}\n`);
+			expect(await processJsonFromR2(key, env.SR_JSON, env.DB)).toMatchObject({ valid: true });
+			const get = vi.spyOn(env.SR_JSON, 'get');
+
+			const runId = await createBackfillRun(env.DB, 'checkins', 30);
+			await processBackfillPage(env, runId);
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ processed: 2, enriched: 2, failed: 0 });
+
+			// Both rows come from the same object, which is read once for the page
+			expect(get.mock.calls.filter(([objectKey]) => objectKey === key)).toHaveLength(1);
+
+			// The object stays live for its other records, so it is not marked
+			expect((await env.SR_JSON.head(key))?.customMetadata?.['superseded-by']).toBeUndefined();
+			const result = await processJsonFromR2(key, env.SR_JSON, env.DB);
+			expect(result).toMatchObject({ valid: true });
+			expect(result.lines?.map((line) => line.outcome)).toEqual(['unchanged', 'unchanged']);
+
+			const rows = await connectD1(env.DB).select().from(schema.checkins);
+			expect(rows.map((row) => row.slug).sort()).toEqual(['2015-08-06-virginia-beach', '2015-08-06-virginia-beach-again']);
+			expect(rows.map((row) => row.id)).not.toContain(CHECKIN_ID);
+			expect(rows.every((row) => row.r2Key !== key)).toBe(true);
+		});
+
+		it('should store the enriched copy without weather when the provider has no history', async () => {
+			env.WEATHER_PROVIDER = undefined;
+			await env.SR_JSON.put(CHECKIN_KEY, checkinFixture);
+			await processJsonFromR2(CHECKIN_KEY, env.SR_JSON, env.DB);
+
+			const runId = await createBackfillRun(env.DB, 'checkins', 30);
+			await processBackfillPage(env, runId);
+
+			const [row] = await connectD1(env.DB).select().from(schema.checkins);
+			const stored = (await (await env.SR_JSON.get(row.r2Key))!.json()) as any;
+			expect(stored.environment.weather).toBeUndefined();
+			expect(stored.environment.elevation).toBeDefined();
+			expect(fetchSpy.mock.calls.some(([input]) => String(input).includes('weather.googleapis.com'))).toBe(false);
+		});
+
+		it('should skip checkins that already have an environment and count rows that fail', async () => {
+			await ingest('checkins/sha256_1.json', enrichedCheckin(1));
+			await ingest('checkins/sha256_2.json', enrichedCheckin(2));
+			await env.SR_JSON.delete('checkins/sha256_2.json');
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			const runId = await createBackfillRun(env.DB, 'checkins', 30);
+			await processBackfillPage(env, runId);
+
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ processed: 2, enriched: 0, skipped: 1, failed: 1 });
+			const rows = await connectD1(env.DB).select().from(schema.checkins);
+			expect(rows.map((row) => row.id).sort()).toEqual(['sha256:checkin-1', 'sha256:checkin-2']);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it('should page through rows at the run rate and resume after the cursor', async () => {
+			for (let n = 1; n <= 12; n++) {
+				await ingest(`checkins/sha256_${n}.json`, enrichedCheckin(n));
+			}
+
+			const runId = await createBackfillRun(env.DB, 'checkins', 20);
+			expect(await processBackfillPage(env, runId)).toEqual({ processed: 10, hasMore: true });
+
+			// 10 rows per page at 20 rows a minute: the next page waits 30s
+			expect(send).toHaveBeenCalledWith({ type: 'environment-backfill', runId }, { delaySeconds: 30 });
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({
+				status: 'running',
+				processed: 10,
+				cursor: { slug: '2012-01-10-checkin' },
+			});
+
+			expect(await processBackfillPage(env, runId)).toEqual({ processed: 2, hasMore: false });
+			expect(send).toHaveBeenCalledTimes(1);
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ status: 'completed', processed: 12, skipped: 12 });
+
+			// A completed run does nothing when its message is delivered again
+			expect(await processBackfillPage(env, runId)).toEqual({ processed: 0, hasMore: false });
+		});
+	});
+
+	describe('chatters', () => {
+		it('should store a new version for chatters with a location and skip the rest', async () => {
+			await ingest('chatter/sha256_a.json', importedChatter('2015-08-06-a', { location_hint: { lat: 36.85293, lng: -75.97799 } }));
+			await ingest('chatter/sha256_b.json', importedChatter('2015-08-06-b'));
+
+			const runId = await createBackfillRun(env.DB, 'chatter', 30);
+			await processBackfillPage(env, runId);
+
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ processed: 2, enriched: 1, skipped: 1, failed: 0 });
+
+			const orm = connectD1(env.DB);
+			const [row] = await orm.select().from(schema.chatter).where(eq(schema.chatter.slug, '2015-08-06-a'));
+			expect(row.id).not.toBe('sha256:2015-08-06-a');
+			expect(row.r2Key).toBe(chatterObjectKey(row.id));
+
+			const stored = (await (await env.SR_JSON.get(row.r2Key))!.json()) as any;
+			expect(stored).toMatchObject({ type: 'chatter', id: row.id });
+			expect(stored.data).toMatchObject({ slug: '2015-08-06-a', supersedes: 'sha256:2015-08-06-a', tags: ['chatter'] });
+			expect(stored.data.environment.weather).toMatchObject({ summary: { temp_f: 77.5 }, observed_for: '2015-08-06T12:00:00.000Z' });
+
+			const old = await env.SR_JSON.head('chatter/sha256_a.json');
+			expect(old?.customMetadata?.['superseded-by']).toBe(row.id);
+
+			const [untouched] = await orm.select().from(schema.chatter).where(eq(schema.chatter.slug, '2015-08-06-b'));
+			expect(untouched.id).toBe('sha256:2015-08-06-b');
+		});
+
+		it('should leave the other chatters of a JSONL object ingestible', async () => {
+			const key = 'chatter/sha256_both.jsonl';
+			const records = [
+				importedChatter('2015-08-06-a', { location_hint: { lat: 36.85293, lng: -75.97799 } }),
+				importedChatter('2015-08-06-b'),
+			];
+			await env.SR_JSON.put(key, records.map((record) => JSON.stringify(record)).join('\n'));
+			expect(await processJsonFromR2(key, env.SR_JSON, env.DB)).toMatchObject({ valid: true });
+
+			const runId = await createBackfillRun(env.DB, 'chatter', 30);
+			await processBackfillPage(env, runId);
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ processed: 2, enriched: 1, skipped: 1, failed: 0 });
+			expect((await env.SR_JSON.head(key))?.customMetadata?.['superseded-by']).toBeUndefined();
+
+			// The untouched chatter comes back after its row is lost; the replaced one does not
+			const orm = connectD1(env.DB);
+			await orm.delete(schema.chatter).where(eq(schema.chatter.id, 'sha256:2015-08-06-b'));
+			const result = await processJsonFromR2(key, env.SR_JSON, env.DB);
+			expect(result.lines?.map((line) => line.outcome)).toEqual(['unchanged', 'inserted']);
+
+			const rows = await orm.select().from(schema.chatter);
+			expect(rows.map((row) => row.slug).sort()).toEqual(['2015-08-06-a', '2015-08-06-b']);
+			expect(rows.map((row) => row.id)).not.toContain('sha256:2015-08-06-a');
+		});
+
+		it('should keep the fetched snapshots when astronomy cannot be computed', async () => {
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+			vi.spyOn(astronomy, 'computeAstronomy').mockImplementation(() => {
+				throw new RangeError('Invalid time value');
+			});
+			await ingest('chatter/sha256_a.json', importedChatter('2015-08-06-a', { location_hint: { lat: 36.85293, lng: -75.97799 } }));
+
+			const runId = await createBackfillRun(env.DB, 'chatter', 30);
+			await processBackfillPage(env, runId);
+
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ processed: 1, enriched: 1, failed: 0 });
+
+			const orm = connectD1(env.DB);
+			const [row] = await orm.select().from(schema.chatter).where(eq(schema.chatter.slug, '2015-08-06-a'));
+			const stored = (await (await env.SR_JSON.get(row.r2Key))!.json()) as any;
+			expect(stored.data.environment.elevation).toBeDefined();
+			expect(stored.data.environment.geocoding).toBeDefined();
+			expect(stored.data.environment.astronomy).toBeUndefined();
+		});
+	});
+
+	describe('HTTP', () => {
+		it('should require authentication', async () => {
+			expect((await call('/backfill/environment?type=checkins', 'POST', 'wrong')).status).toBe(401);
+			expect((await call('/backfill/environment/some-run', 'GET', 'wrong')).status).toBe(401);
+		});
+
+		it('should validate type and perMinute', async () => {
+			const badType = await call('/backfill/environment?type=films', 'POST');
+			expect(badType.status).toBe(400);
+			expect(((await badType.json()) as any).error).toBe('type must be one of: checkins, chatter');
+
+			expect((await call('/backfill/environment?type=checkins&perMinute=0', 'POST')).status).toBe(400);
+			expect((await call('/backfill/environment?type=checkins&perMinute=601', 'POST')).status).toBe(400);
+			expect((await call('/backfill/environment?type=checkins&perMinute=1.5', 'POST')).status).toBe(400);
+		});
+
+		it('should start a run, report it and resume it', async () => {
+			const response = await call('/backfill/environment?type=chatter&perMinute=60', 'POST');
+			expect(response.status).toBe(202);
+			const { runId } = (await response.json()) as any;
+			expect(send).toHaveBeenCalledWith({ type: 'environment-backfill', runId }, { delaySeconds: 0 });
+
+			const status = await call(`/backfill/environment/${runId}`);
+			expect(await status.json()).toMatchObject({ id: runId, content_type: 'chatter', per_minute: 60, status: 'running', cursor: null });
+
+			const resumed = await call(`/backfill/environment?runId=${runId}`, 'POST');
+			expect(resumed.status).toBe(202);
+			expect(send).toHaveBeenCalledTimes(2);
+
+			await processBackfillPage(env, runId);
+			expect((await call(`/backfill/environment?runId=${runId}`, 'POST')).status).toBe(409);
+			expect((await call('/backfill/environment?runId=missing', 'POST')).status).toBe(404);
+			expect((await call('/backfill/environment/missing')).status).toBe(404);
+			expect((await call('/backfill/environment/%E0%A4%A')).status).toBe(404);
+		});
+	});
+
+	describe('queue', () => {
+		it('should process backfill messages and ack them', async () => {
+			await ingest('checkins/sha256_1.json', enrichedCheckin(1));
+			const runId = await createBackfillRun(env.DB, 'checkins', 30);
+
+			const message = {
+				id: 'msg-0',
+				timestamp: new Date(),
+				body: { type: 'environment-backfill', runId },
+				attempts: 1,
+				retry: vi.fn(),
+				ack: vi.fn(),
+			};
+			await handleQueue({ queue: 'sr-queue', messages: [message], retryAll: () => {}, ackAll: () => {} }, env);
+
+			expect(message.ack).toHaveBeenCalled();
+			expect(message.retry).not.toHaveBeenCalled();
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ status: 'completed', processed: 1 });
+		});
+
+		it('should fail the run when a page still fails on the last attempt', async () => {
+			await ingest('checkins/sha256_1.json', enrichedCheckin(1));
+			const runId = await createBackfillRun(env.DB, 'checkins', 30);
+			vi.spyOn(env.DB, 'prepare').mockImplementationOnce(() => {
+				throw new Error('D1 unavailable');
+			});
+
+			const message = {
+				id: 'msg-0',
+				timestamp: new Date(),
+				body: { type: 'environment-backfill', runId },
+				attempts: MAX_INGEST_ATTEMPTS,
+				retry: vi.fn(),
+				ack: vi.fn(),
+			};
+			await handleQueue({ queue: 'sr-queue', messages: [message], retryAll: () => {}, ackAll: () => {} }, env);
+
+			expect(message.ack).toHaveBeenCalled();
+			expect(message.retry).not.toHaveBeenCalled();
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ status: 'failed', processed: 0, error: 'D1 unavailable' });
+
+			await processBackfillPage(env, runId);
+			expect(await getBackfillRun(env.DB, runId)).toMatchObject({ status: 'completed', processed: 1, error: null });
+		});
+	});
+});
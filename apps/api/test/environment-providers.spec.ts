@@ -0,0 +1,166 @@
+/// <reference types="./env.d.ts" />
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi, inject } from 'vitest';
+import { ENVIRONMENT_PROVIDERS, UnknownProviderError, getProvider } from '../src/services/environment/providers';
+import { fetchOpenMeteoAirQuality, fetchOpenMeteoWeather, fetchOpenMeteoWeatherAt } from '../src/services/environment/open-meteo';
+import { enrichChatter } from '../src/services/environment/enrichment';
+import { runMigrations } from './helpers/migrations';
+
+const LAT = 37.7749;
+const LNG = -122.4194;
+
+/**
+ * URLs the Open-Meteo stub received since the last call
+ */
+async function stubRequests(): Promise<URL[]> {
+	const response = await fetch(`${inject('openMeteoUrl')}/__requests`);
+	const paths = (await response.json()) as string[];
+	return paths.map((path) => new URL(path, 'http://stub'));
+}
+
+describe('Environment providers', () => {
+	beforeEach(async () => {
+		await runMigrations();
+		env.WEATHER_PROVIDER = undefined;
+		env.AIR_QUALITY_PROVIDER = undefined;
+		env.OPEN_METEO_URL = inject('openMeteoUrl');
+		await stubRequests();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('getProvider', () => {
+		it('should default every product to Google', () => {
+			for (const product of Object.keys(ENVIRONMENT_PROVIDERS) as Array<keyof typeof ENVIRONMENT_PROVIDERS>) {
+				expect(getProvider(product, env)).toMatchObject({ name: 'google', product });
+			}
+		});
+
+		it('should select the provider named in Env', () => {
+			env.WEATHER_PROVIDER = 'open-meteo';
+
+			expect(getProvider('weather', env)).toMatchObject({ name: 'open-meteo', product: 'weather' });
+			expect(getProvider('air_quality', env).name).toBe('google');
+		});
+
+		it('should reject providers that are not registered for the product', () => {
+			env.AIR_QUALITY_PROVIDER = 'toString';
+
+			expect(() => getProvider('air_quality', env)).toThrow(UnknownProviderError);
+			expect(() => getProvider('air_quality', env)).toThrow('Unknown air_quality provider: toString');
+		});
+	});
+
+	describe('Open-Meteo', () => {
+		it('should map current weather into the weather summary in US units', async () => {
+			const snapshot = await fetchOpenMeteoWeather(LAT, LNG, env);
+
+			expect(snapshot.provider).toEqual({ name: 'open-meteo', product: 'weather', version: 'v1' });
+			expect(snapshot.summary).toEqual({
+				timestamp: '2025-11-20T12:00:00.000Z',
+				temp_f: 61.3,
+				temp_feels_f: 59.8,
+				condition_code: 'partly_cloudy',
+				condition_text: 'Partly cloudy',
+				is_daytime: true,
+				humidity_pct: 72,
+				pressure_inhg: 30.01,
+				wind_speed_mph: 9.4,
+				wind_gust_mph: 17.2,
+				wind_dir_deg: 270,
+				precip_in_last_1h: 0,
+				precip_chance_pct: 10,
+				cloud_pct: 45,
+				visibility_miles: 10,
+				uv_index: 3.2,
+			});
+			expect(snapshot.full?.current.weather_code).toBe(2);
+
+			const [request] = await stubRequests();
+			expect(request.pathname).toBe('/v1/forecast');
+			expect(Object.fromEntries(request.searchParams)).toMatchObject({
+				latitude: String(LAT),
+				longitude: String(LNG),
+				temperature_unit: 'fahrenheit',
+				wind_speed_unit: 'mph',
+				precipitation_unit: 'inch',
+				timeformat: 'unixtime',
+			});
+		});
+
+		it('should map current air quality onto the US EPA scale', async () => {
+			const snapshot = await fetchOpenMeteoAirQuality(LAT, LNG, env);
+
+			expect(snapshot.provider).toEqual({ name: 'open-meteo', product: 'air_quality', version: 'v1' });
+			expect(snapshot.summary).toEqual({
+				timestamp: '2025-11-20T12:00:00.000Z',
+				aqi: 42,
+				aqi_scale: 'US EPA',
+				aqi_category: 'Good',
+				dominant_pollutant: 'PM2.5',
+				pm25_ugm3: 10.1,
+				pm10_ugm3: 19.6,
+				o3_ppb: 31.6,
+				no2_ppb: 9.8,
+				so2_ppb: 0.8,
+				co_ppm: 0.183,
+			});
+
+			const [request] = await stubRequests();
+			expect(request.pathname).toBe('/v1/air-quality');
+			expect(request.searchParams.get('current')?.split(',')).toContain('us_aqi_pm2_5');
+		});
+
+		it('should fail with the status when the server is down', async () => {
+			env.OPEN_METEO_URL = `${inject('openMeteoUrl')}/down`;
+
+			await expect(fetchOpenMeteoWeather(LAT, LNG, env)).rejects.toThrow('Open-Meteo weather API error: 503');
+		});
+
+		it('should map the archived hour nearest a past moment', async () => {
+			const snapshot = await fetchOpenMeteoWeatherAt(LAT, LNG, new Date('2015-08-06T12:20:00Z'), env);
+
+			expect(snapshot.provider).toEqual({ name: 'open-meteo', product: 'weather', version: 'v1' });
+			expect(snapshot.summary).toEqual({
+				timestamp: '2015-08-06T12:00:00.000Z',
+				temp_f: 77.5,
+				temp_feels_f: 80.9,
+				condition_code: 'cloudy',
+				condition_text: 'Overcast',
+				is_daytime: true,
+				humidity_pct: 70,
+				pressure_inhg: 29.93,
+				wind_speed_mph: 10.1,
+				wind_gust_mph: 18.1,
+				wind_dir_deg: 212,
+				precip_in_last_1h: 0,
+				cloud_pct: 32,
+			});
+
+			const [request] = await stubRequests();
+			expect(request.pathname).toBe('/v1/archive');
+			expect(Object.fromEntries(request.searchParams)).toMatchObject({ start_date: '2015-08-06', end_date: '2015-08-06' });
+		});
+	});
+
+	describe('enrichChatter', () => {
+		it('should take weather and air quality from the configured provider', async () => {
+			env.WEATHER_PROVIDER = 'open-meteo';
+			env.AIR_QUALITY_PROVIDER = 'open-meteo';
+			// The Google products have no key here and fail; enrichment carries on without them
+			env.GOOGLE_PLACES_API = { get: vi.fn().mockResolvedValue('') } as any;
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			const data = await enrichChatter(
+				{ kind: 'chatter', content: 'Hello', date_posted: new Date().toISOString(), location_hint: { lat: LAT, lng: LNG } },
+				env,
+			);
+
+			expect(data.environment?.weather).toMatchObject({ provider: { name: 'open-meteo' }, summary: { temp_f: 61.3 }, cached: false });
+			expect(data.environment?.air_quality).toMatchObject({ provider: { name: 'open-meteo' }, summary: { aqi: 42 }, cached: false });
+			expect(data.environment?.pollen).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,87 @@
+/// <reference types="./env.d.ts" />
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import { fetchWeather } from '../src/services/environment/google-weather';
+import mockWeather from './fixtures/environment/mock-weather.json';
+import imperialWeather from './fixtures/environment/google-weather-imperial.json';
+
+describe('Google Weather', () => {
+	let fetchSpy: MockInstance<typeof fetch>;
+
+	beforeEach(() => {
+		env.GOOGLE_PLACES_API = {
+			get: vi.fn().mockResolvedValue('test-google-key'),
+		} as any;
+
+		fetchSpy = vi.spyOn(globalThis, 'fetch');
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should convert a metric currentConditions response to US units', async () => {
+		fetchSpy.mockResolvedValue(Response.json(mockWeather.full));
+
+		const snapshot = await fetchWeather(37.7749, -122.4194, env);
+
+		// The mock snapshot's summary is exactly what its raw payload maps to
+		expect(snapshot.summary).toEqual(mockWeather.summary);
+		expect(snapshot.full).toEqual(mockWeather.full);
+		expect(snapshot.provider).toEqual({ name: 'google', product: 'weather', version: 'v1' });
+
+		const [url] = fetchSpy.mock.calls[0] as [string];
+		expect(url).toBe(
+			'https://weather.googleapis.com/v1/currentConditions:lookup?location.latitude=37.7749&location.longitude=-122.4194&key=test-google-key',
+		);
+	});
+
+	it('should pass imperial values through', async () => {
+		fetchSpy.mockResolvedValue(Response.json(imperialWeather));
+
+		const snapshot = await fetchWeather(40.7128, -74.006, env);
+
+		expect(snapshot.summary).toEqual({
+			timestamp: '2025-01-28T22:04:12.025273178Z',
+			temp_f: 41.5,
+			temp_feels_f: 36.2,
+			condition_code: 'light_rain_showers',
+			condition_text: 'Light rain showers',
+			is_daytime: false,
+			humidity_pct: 87,
+			pressure_inhg: 29.79,
+			wind_speed_mph: 12,
+			wind_gust_mph: 21,
+			wind_dir_deg: 20,
+			precip_in_last_1h: 0.04,
+			precip_chance_pct: 65,
+			cloud_pct: 100,
+			visibility_miles: 6,
+			uv_index: 0,
+		});
+	});
+
+	it('should leave out missing fields and values in unknown units', async () => {
+		fetchSpy.mockResolvedValue(
+			Response.json({
+				currentTime: '2025-11-20T12:00:00Z',
+				temperature: { degrees: 295.3, unit: 'KELVIN' },
+				wind: { speed: { value: 4, unit: 'KNOTS' } },
+				relativeHumidity: 40,
+			}),
+		);
+
+		const snapshot = await fetchWeather(37.7749, -122.4194, env);
+
+		expect(JSON.parse(JSON.stringify(snapshot.summary))).toEqual({
+			timestamp: '2025-11-20T12:00:00Z',
+			humidity_pct: 40,
+		});
+	});
+
+	it('should throw on an API error', async () => {
+		fetchSpy.mockResolvedValue(new Response('quota exceeded', { status: 429 }));
+
+		await expect(fetchWeather(37.7749, -122.4194, env)).rejects.toThrow('Google Weather API error: 429 - quota exceeded');
+	});
+});
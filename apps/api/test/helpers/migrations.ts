@@ -0,0 +1,65 @@
+import { env } from 'cloudflare:test';
+
+// Import migration files as raw strings
+// @ts-expect-error
+import migration0 from '../../migrations/0000_supreme_quicksilver.sql?raw';
+// @ts-expect-error
+import migration1 from '../../migrations/0001_zippy_carnage.sql?raw';
+// @ts-expect-error
+import migration2 from '../../migrations/0002_steep_wallop.sql?raw';
+// @ts-expect-error
+import migration3 from '../../migrations/0003_pink_raza.sql?raw';
+// @ts-expect-error
+import migration4 from '../../migrations/0004_loose_luke_cage.sql?raw';
+// @ts-expect-error
+import migration5 from '../../migrations/0005_curved_vanisher.sql?raw';
+// @ts-expect-error
+import migration6 from '../../migrations/0006_clear_ink.sql?raw';
+// @ts-expect-error
+import migration7 from '../../migrations/0007_volatile_tinkerer.sql?raw';
+// @ts-expect-error
+import migration8 from '../../migrations/0008_colossal_ser_duncan.sql?raw';
+// @ts-expect-error
+import migration9 from '../../migrations/0009_bouncy_ricochet.sql?raw';
+// @ts-expect-error
+import migration10 from '../../migrations/0010_cooing_the_twelve.sql?raw';
+// @ts-expect-error
+import migration11 from '../../migrations/0011_confused_mephistopheles.sql?raw';
+
+/**
+ * Run production database migrations
+ * Imports actual migration SQL files and executes them using D1's batch API
+ * This ensures test tables match production schema exactly
+ */
+export async function runMigrations(): Promise<void> {
+	// Migrations imported as raw strings at build time
+	const migrations = [
+		migration0,
+		migration1,
+		migration2,
+		migration3,
+		migration4,
+		migration5,
+		migration6,
+		migration7,
+		migration8,
+		migration9,
+		migration10,
+		migration11,
+	];
+
+	// Execute each migration file
+	for (const migrationSql of migrations) {
+		// Split on statement-breakpoint comments and clean up
+		const statements = migrationSql
+			.split('--> statement-breakpoint')
+			.map((s: string) => s.trim())
+			.filter((s: string) => s.length > 0 && !s.startsWith('--')); // Remove empty and comment-only lines
+
+		// Execute all statements in a batch
+		// D1's batch() is more reliable than exec() for multiple statements
+		if (statements.length > 0) {
+			await env.DB.batch(statements.map((sql: string) => env.DB.prepare(sql)));
+		}
+	}
+}
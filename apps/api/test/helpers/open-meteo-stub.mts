@@ -0,0 +1,55 @@
+/**
+ * Local Open-Meteo stub server (vitest globalSetup)
+ * Runs in Node next to the Workers runtime and serves the Open-Meteo fixtures, so provider tests
+ * make real HTTP requests without leaving the machine. Tests read its URL with inject('openMeteoUrl').
+ *
+ * - GET /v1/forecast, /v1/air-quality, /v1/archive: fixture responses
+ * - GET /down/...: 503, for outage tests
+ * - GET /__requests: URLs received since the last call (then cleared)
+ */
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import type { TestProject } from 'vitest/node';
+
+const FIXTURES: Record<string, string> = {
+	'/v1/forecast': 'open-meteo-weather.json',
+	'/v1/air-quality': 'open-meteo-air-quality.json',
+	'/v1/archive': 'open-meteo-archive.json',
+};
+
+export default async function setup(project: TestProject): Promise<() => Promise<void>> {
+	let requests: string[] = [];
+
+	const server = createServer(async (req, res) => {
+		const url = new URL(req.url ?? '/', 'http://stub');
+
+		if (url.pathname === '/__requests') {
+			res.writeHead(200, { 'Content-Type': 'application/json' });
+			res.end(JSON.stringify(requests));
+			requests = [];
+			return;
+		}
+
+		requests.push(req.url ?? '/');
+
+		const fixture = FIXTURES[url.pathname];
+		if (url.pathname.startsWith('/down/') || !fixture) {
+			res.writeHead(url.pathname.startsWith('/down/') ? 503 : 404, { 'Content-Type': 'application/json' });
+			res.end(JSON.stringify({ error: true, reason: 'Stub: unavailable' }));
+			return;
+		}
+
+		const body = await readFile(new URL(`../fixtures/environment/${fixture}`, import.meta.url), 'utf8');
+		res.writeHead(200, { 'Content-Type': 'application/json' });
+		res.end(body);
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const address = server.address();
+	if (!address || typeof address === 'string') {
+		throw new Error('Open-Meteo stub did not bind to a port');
+	}
+	project.provide('openMeteoUrl', `http://127.0.0.1:${address.port}`);
+
+	return () => new Promise<void>((resolve) => server.close(() => resolve()));
+}
@@ -3,6 +3,7 @@ import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import worker from '../src/index';
 import * as metadataExtractor from '../src/services/metadata-extractor';
+import { runMigrations } from './helpers/migrations';
 
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
@@ -10,7 +11,9 @@ describe('Image Upload Handler', () => {
 	// Mock R2 bucket
 	let mockR2Put: ReturnType<typeof vi.fn>;
 
-	beforeEach(() => {
+	beforeEach(async () => {
+		await runMigrations();
+
 		// Mock auth token from Secrets Store
 		env.AUTH_TOKEN = {
 			get: vi.fn().mockResolvedValue('test-auth-token'),
@@ -66,10 +69,11 @@ describe('Image Upload Handler', () => {
 
 		const data = (await response.json()) as any;
 
-		// Response has objectKey, metadata, and uploadedAt fields
+		// Response has objectKey, photographId, metadata, and uploadedAt fields
 		expect(data.objectKey).toBeDefined();
 		expect(typeof data.objectKey).toBe('string');
 		expect(data.objectKey).toMatch(/^[a-f0-9]{64}\.jpg$/); // SHA-256 hash + .jpg extension
+		expect(data.photographId).toBe(`sha256:${data.objectKey.replace('.jpg', '')}`);
 
 		// Verify metadata was extracted
 		expect(data.metadata).toBeDefined();
@@ -220,4 +224,79 @@ describe('Image Upload Handler', () => {
 		// Verify R2 put was called for each valid type
 		expect(mockR2Put).toHaveBeenCalledTimes(validTypes.length);
 	});
+
+	describe('photograph records', () => {
+		async function upload(content: string, fields: Record<string, string> = {}): Promise<any> {
+			const formData = new FormData();
+			formData.append('file', new Blob([content], { type: 'image/jpeg' }), 'IMG_4021.jpg');
+			for (const [name, value] of Object.entries(fields)) {
+				formData.append(name, value);
+			}
+
+			const request = new IncomingRequest('http://example.com/images', {
+				method: 'POST',
+				headers: { Authorization: 'Bearer test-auth-token' },
+				body: formData,
+			});
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(request, env, ctx);
+			await waitOnExecutionContext(ctx);
+			expect(response.status).toBe(201);
+			return response.json();
+		}
+
+		async function photographTags(id: string): Promise<string[]> {
+			const { results } = await env.DB.prepare(
+				'SELECT tags.name FROM photographs_tags JOIN tags ON tags.id = photographs_tags.tag_id WHERE photograph_id = ? ORDER BY tags.name'
+			)
+				.bind(id)
+				.all<{ name: string }>();
+			return results.map((row) => row.name);
+		}
+
+		it('should record the EXIF date and GPS, the IPTC caption and the keywords as tags', async () => {
+			vi.mocked(metadataExtractor.extractMetadata).mockResolvedValue({
+				file: { size: 1024, mimeType: 'image/jpeg', format: 'jpeg' },
+				exif: { dateTimeOriginal: new Date('2023-06-15T19:42:11Z') as unknown as string, latitude: 37.7594, longitude: -122.5107 },
+				iptc: { caption: 'Sunset over Ocean Beach', keywords: ['Sunset', 'San Francisco'] },
+			});
+
+			const data = await upload('ocean-beach');
+
+			const row = await env.DB.prepare('SELECT * FROM photographs WHERE id = ?').bind(data.photographId).first<any>();
+			expect(row).toMatchObject({
+				original_name: 'IMG_4021.jpg',
+				cf_image_id: data.objectKey,
+				date_taken: Math.floor(Date.parse('2023-06-15T19:42:11Z') / 1000),
+				caption: 'Sunset over Ocean Beach',
+				latitude: 37.7594,
+				longitude: -122.5107,
+				publish: 1,
+				r2_key: `photos/${data.photographId.replace(':', '_')}.json`,
+			});
+			expect(await photographTags(data.photographId)).toEqual(['san-francisco', 'sunset']);
+
+			// The record in SR_JSON is what the row is rebuilt from
+			const record = (await (await env.SR_JSON.get(row.r2_key))!.json()) as any;
+			expect(record).toMatchObject({ id: data.photographId, artifact_key: data.objectKey, tags: ['Sunset', 'San Francisco'] });
+		});
+
+		it('should fall back to the upload time and keep the first record when the image is uploaded again', async () => {
+			const first = await upload('no-exif-date');
+			const second = await upload('no-exif-date');
+
+			expect(second.photographId).toBe(first.photographId);
+			const row = await env.DB.prepare('SELECT date_taken, caption FROM photographs WHERE id = ?').bind(first.photographId).first<any>();
+			expect(row).toEqual({ date_taken: Math.floor(Date.parse(first.uploadedAt) / 1000), caption: null });
+			const total = await env.DB.prepare('SELECT COUNT(*) AS total FROM photographs').first<{ total: number }>();
+			expect(total!.total).toBe(1);
+		});
+
+		it('should record an unpublished photograph when publish is false', async () => {
+			const data = await upload('private', { publish: 'false' });
+
+			const row = await env.DB.prepare('SELECT publish FROM photographs WHERE id = ?').bind(data.photographId).first<any>();
+			expect(row.publish).toBe(0);
+		});
+	});
 });
@@ -0,0 +1,123 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { runMigrations } from './helpers/migrations';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+/**
+ * Seed a failure row in D1
+ */
+async function seedFailure(objectKey: string, kind: 'permanent' | 'transient', lastFailedAt: number): Promise<void> {
+	await env.DB.prepare('INSERT INTO ingest_failures (object_key, error, kind, attempts, first_failed_at, last_failed_at) VALUES (?, ?, ?, ?, ?, ?)')
+		.bind(objectKey, `Failed ${objectKey}`, kind, 1, lastFailedAt, lastFailedAt)
+		.run();
+}
+
+async function call(path: string, init: { method?: string; body?: string; authenticated?: boolean } = {}): Promise<Response> {
+	const { authenticated = true, method = 'GET', body } = init;
+	const request = new IncomingRequest(`http://example.com${path}`, {
+		method,
+		body,
+		headers: authenticated ? { Authorization: 'Bearer test-auth-token' } : {},
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+describe('Ingest failure routes', () => {
+	let sendBatch: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+		sendBatch = vi.fn().mockResolvedValue(undefined);
+		env.JSON_QUEUE = { send: vi.fn(), sendBatch } as any;
+
+		await runMigrations();
+		await seedFailure('films/sha256_a.json', 'permanent', 1_700_000_000);
+		await seedFailure('quotes/sha256_b.json', 'transient', 1_700_000_100);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('GET /ingest/failures', () => {
+		it('should require authentication', async () => {
+			const response = await call('/ingest/failures', { authenticated: false });
+			expect(response.status).toBe(401);
+		});
+
+		it('should list failures, most recent first', async () => {
+			const response = await call('/ingest/failures');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.count).toBe(2);
+			expect(body.failures[0]).toEqual({
+				object_key: 'quotes/sha256_b.json',
+				error: 'Failed quotes/sha256_b.json',
+				kind: 'transient',
+				attempts: 1,
+				first_failed_at: new Date(1_700_000_100_000).toISOString(),
+				last_failed_at: new Date(1_700_000_100_000).toISOString(),
+			});
+			expect(body.failures[1].object_key).toBe('films/sha256_a.json');
+		});
+
+		it('should honour limit', async () => {
+			const body = (await (await call('/ingest/failures?limit=1')).json()) as any;
+			expect(body.failures).toHaveLength(1);
+		});
+
+		it('should reject a non-numeric limit', async () => {
+			const response = await call('/ingest/failures?limit=lots');
+			expect(response.status).toBe(400);
+		});
+	});
+
+	describe('POST /ingest/failures/retry', () => {
+		it('should require authentication', async () => {
+			const response = await call('/ingest/failures/retry', { method: 'POST', authenticated: false });
+			expect(response.status).toBe(401);
+			expect(sendBatch).not.toHaveBeenCalled();
+		});
+
+		it('should re-queue every failure by default', async () => {
+			const response = await call('/ingest/failures/retry', { method: 'POST' });
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.queued).toBe(2);
+			expect(sendBatch).toHaveBeenCalledWith(
+				expect.arrayContaining([{ body: { objectKey: 'films/sha256_a.json' } }, { body: { objectKey: 'quotes/sha256_b.json' } }])
+			);
+		});
+
+		it('should re-queue only requested keys that have failed', async () => {
+			const response = await call('/ingest/failures/retry', {
+				method: 'POST',
+				body: JSON.stringify({ objectKeys: ['films/sha256_a.json', 'films/sha256_never_failed.json'] }),
+			});
+
+			const body = (await response.json()) as any;
+			expect(body.objectKeys).toEqual(['films/sha256_a.json']);
+			expect(sendBatch).toHaveBeenCalledWith([{ body: { objectKey: 'films/sha256_a.json' } }]);
+		});
+
+		it('should reject an invalid body', async () => {
+			const response = await call('/ingest/failures/retry', { method: 'POST', body: JSON.stringify({ objectKeys: 'films' }) });
+			expect(response.status).toBe(400);
+		});
+
+		it('should not treat failures as an object key to ingest', async () => {
+			await call('/ingest/failures/retry', { method: 'POST' });
+			expect(env.JSON_QUEUE.send).not.toHaveBeenCalledWith({ objectKey: 'failures/retry' });
+		});
+	});
+});
@@ -0,0 +1,209 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { handleQueue, MAX_INGEST_ATTEMPTS } from '../src/handlers/queue';
+import { createIngestRun, getIngestRun, recordFileOutcome, recordListedPage } from '../src/services/ingest-runs';
+import { queueListingPage } from '../src/services/bulk-ingest';
+import { runMigrations } from './helpers/migrations';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+async function call(path: string, method = 'GET'): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com${path}`, {
+		method,
+		headers: { Authorization: 'Bearer test-auth-token' },
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+/**
+ * Deliver queued bodies to the consumer as one batch
+ */
+async function deliver(bodies: unknown[]): Promise<void> {
+	const messages = bodies.map((body, i) => ({
+		id: `msg-${i}`,
+		timestamp: new Date(),
+		body,
+		attempts: 1,
+		retry: vi.fn(),
+		ack: vi.fn(),
+	}));
+	await handleQueue({ queue: 'sr-queue', messages, retryAll: () => {}, ackAll: () => {} }, env);
+}
+
+const film = (n: number) => ({
+	id: `sha256:film-${n}`,
+	year_watched: 2020,
+	date_watched: '2020-01-01T00:00:00Z',
+	month: '2020-01',
+	slug: `film-${n}`,
+});
+
+describe('Ingest runs', () => {
+	let sendBatch: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+		sendBatch = vi.fn().mockResolvedValue(undefined);
+		env.JSON_QUEUE = { send: vi.fn(), sendBatch } as any;
+
+		await runMigrations();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should track a run from listing to completion', async () => {
+		await env.SR_JSON.put('films/sha256_1.json', JSON.stringify(film(1)));
+		await env.SR_JSON.put('films/sha256_2.json', JSON.stringify(film(2)));
+		await env.SR_JSON.put('films/sha256_3.json', JSON.stringify({ id: 'sha256:broken' }));
+
+		const response = await call('/ingest/all', 'POST');
+		const { runId, queued } = (await response.json()) as any;
+		expect(queued).toBe(3);
+
+		// Every queued message carries the run id
+		const bodies = sendBatch.mock.calls.flatMap(([batch]) => batch.map((message: any) => message.body));
+		expect(bodies.every((body: any) => body.runId === runId)).toBe(true);
+
+		let run = (await (await call(`/ingest/runs/${runId}`)).json()) as any;
+		expect(run).toMatchObject({ status: 'running', listed: 3, processed: 0, listing_complete: true, progress: 0 });
+
+		await deliver(bodies);
+
+		run = (await (await call(`/ingest/runs/${runId}`)).json()) as any;
+		expect(run).toMatchObject({
+			status: 'completed',
+			listed: 3,
+			processed: 3,
+			inserted: 2,
+			updated: 0,
+			unchanged: 0,
+			failed: 1,
+			progress: 1,
+		});
+		expect(run.completed_at).not.toBeNull();
+	});
+
+	it('should count re-ingested files as updated or unchanged', async () => {
+		await env.SR_JSON.put('films/sha256_1.json', JSON.stringify(film(1)));
+		await env.SR_JSON.put('films/sha256_2.json', JSON.stringify(film(2)));
+		await deliver([{ objectKey: 'films/sha256_1.json' }, { objectKey: 'films/sha256_2.json' }]);
+		await env.SR_JSON.put('films/sha256_2.json', JSON.stringify({ ...film(2), slug: 'film-2-renamed' }));
+
+		const runId = await createIngestRun(env.DB);
+		await recordListedPage(env.DB, runId, 2, true);
+		await deliver([
+			{ objectKey: 'films/sha256_1.json', runId },
+			{ objectKey: 'films/sha256_2.json', runId },
+		]);
+
+		expect(await getIngestRun(env.DB, runId)).toMatchObject({ status: 'completed', unchanged: 1, updated: 1 });
+	});
+
+	it('should stay running until the last page has been listed', async () => {
+		const runId = await createIngestRun(env.DB);
+
+		await recordListedPage(env.DB, runId, 1, false);
+		await recordFileOutcome(env.DB, runId, 'inserted');
+		expect(await getIngestRun(env.DB, runId)).toMatchObject({ status: 'running', processed: 1, listed: 1, listing_complete: false });
+
+		await recordListedPage(env.DB, runId, 1, true);
+		expect(await getIngestRun(env.DB, runId)).toMatchObject({ status: 'running', listed: 2, listing_complete: true });
+
+		await recordFileOutcome(env.DB, runId, 'failed');
+		expect(await getIngestRun(env.DB, runId)).toMatchObject({ status: 'completed', processed: 2, inserted: 1, failed: 1 });
+	});
+
+	it('should list later pages inside the consumer and keep the run id', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch');
+		for (const n of [1, 2, 3]) {
+			await env.SR_JSON.put(`films/sha256_${n}.json`, JSON.stringify(film(n)));
+		}
+
+		const runId = await createIngestRun(env.DB);
+		const firstPage = await queueListingPage(env, { runId, limit: 2 });
+		expect(firstPage).toEqual({ queued: 2, hasMore: true });
+
+		const pagination = vi.mocked(env.JSON_QUEUE.send).mock.calls[0][0] as any;
+		expect(pagination).toMatchObject({ type: 'pagination', runId });
+		expect(await getIngestRun(env.DB, runId)).toMatchObject({ listed: 2, listing_complete: false });
+
+		await deliver([pagination]);
+
+		const queuedKeys = sendBatch.mock.calls.flatMap(([batch]) => batch.map((message: any) => message.body.objectKey));
+		expect(queuedKeys).toEqual(['films/sha256_1.json', 'films/sha256_2.json', 'films/sha256_3.json']);
+		expect(await getIngestRun(env.DB, runId)).toMatchObject({ listed: 3, listing_complete: true });
+		expect(fetchSpy).not.toHaveBeenCalled();
+	});
+
+	it('should retry a pagination message when listing fails', async () => {
+		sendBatch.mockRejectedValue(new Error('Queue unavailable'));
+		await env.SR_JSON.put('films/sha256_1.json', JSON.stringify(film(1)));
+		const message = {
+			id: 'msg-page',
+			timestamp: new Date(),
+			body: { type: 'pagination', cursor: '', runId: 'run-1' },
+			attempts: 2,
+			retry: vi.fn(),
+			ack: vi.fn(),
+		};
+
+		await handleQueue({ queue: 'sr-queue', messages: [message], retryAll: () => {}, ackAll: () => {} }, env);
+
+		expect(message.retry).toHaveBeenCalledWith({ delaySeconds: 60 });
+		expect(message.ack).not.toHaveBeenCalled();
+	});
+
+	it('should fail the run when listing still fails on the last attempt', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		const list = vi.spyOn(env.SR_JSON, 'list').mockRejectedValueOnce(new Error('R2 unavailable'));
+		await env.SR_JSON.put('films/sha256_1.json', JSON.stringify(film(1)));
+		const runId = await createIngestRun(env.DB);
+		const message = {
+			id: 'msg-page',
+			timestamp: new Date(),
+			body: { type: 'pagination', cursor: 'cursor-2', runId },
+			attempts: MAX_INGEST_ATTEMPTS,
+			retry: vi.fn(),
+			ack: vi.fn(),
+		};
+
+		await handleQueue({ queue: 'sr-queue', messages: [message], retryAll: () => {}, ackAll: () => {} }, env);
+
+		expect(message.ack).toHaveBeenCalled();
+		expect(message.retry).not.toHaveBeenCalled();
+		const run = await getIngestRun(env.DB, runId);
+		expect(run).toMatchObject({ status: 'failed', listing_complete: false });
+		expect(run!.error).toBe('Listing failed at cursor cursor-2: R2 unavailable');
+
+		// Listing the page again with the run id clears the failure
+		list.mockRestore();
+		await queueListingPage(env, { runId });
+		expect(await getIngestRun(env.DB, runId)).toMatchObject({ status: 'running', error: null, listed: 1 });
+	});
+
+	it('should return 404 for an unknown run', async () => {
+		const response = await call('/ingest/runs/does-not-exist');
+		expect(response.status).toBe(404);
+
+		// Malformed percent-encoding names no run
+		expect((await call('/ingest/runs/%E0%A4%A')).status).toBe(404);
+	});
+
+	it('should require authentication', async () => {
+		const request = new IncomingRequest('http://example.com/ingest/runs/anything');
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(request, env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(401);
+	});
+});
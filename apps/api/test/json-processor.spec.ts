@@ -0,0 +1,209 @@
+/// <reference types="./env.d.ts" />
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { processJsonFromR2 } from '../src/services/json-processor';
+import { runMigrations } from './helpers/migrations';
+
+const FILM_KEY = 'films/sha256_film.json';
+
+/**
+ * Put a wrapped film document into R2 and ingest it
+ */
+async function ingestFilm(overrides: Record<string, unknown> = {}) {
+	const data = {
+		id: 'sha256:film',
+		year_watched: 2024,
+		date_watched: '2024-03-09T20:15:00.500Z',
+		month: '2024-03',
+		slug: 'the-third-man',
+		rewatch: false,
+		publish: true,
+		tmdb_id: '1092',
+		...overrides,
+	};
+	await env.SR_JSON.put(FILM_KEY, JSON.stringify({ type: 'films', data }));
+	return processJsonFromR2(FILM_KEY, env.SR_JSON, env.DB);
+}
+
+async function filmRow() {
+	return env.DB.prepare('SELECT * FROM films WHERE id = ?').bind('sha256:film').first<any>();
+}
+
+describe('processJsonFromR2 upserts', () => {
+	beforeEach(async () => {
+		await runMigrations();
+	});
+
+	it('should report inserted for a new id', async () => {
+		const result = await ingestFilm();
+
+		expect(result).toMatchObject({ valid: true, category: 'films', outcome: 'inserted' });
+		expect(await filmRow()).toMatchObject({ slug: 'the-third-man', publish: 1 });
+	});
+
+	it('should report unchanged and keep updated_at when nothing moved', async () => {
+		await ingestFilm();
+		await env.DB.prepare('UPDATE films SET updated_at = 1000 WHERE id = ?').bind('sha256:film').run();
+
+		const result = await ingestFilm();
+
+		expect(result.outcome).toBe('unchanged');
+		expect((await filmRow()).updated_at).toBe(1000);
+	});
+
+	it('should update changed columns and bump updated_at', async () => {
+		await ingestFilm();
+		await env.DB.prepare('UPDATE films SET created_at = 1000, updated_at = 1000 WHERE id = ?').bind('sha256:film').run();
+
+		const result = await ingestFilm({ slug: 'the-third-man-1949', publish: false });
+
+		expect(result.outcome).toBe('updated');
+		const row = await filmRow();
+		expect(row).toMatchObject({ slug: 'the-third-man-1949', publish: 0, created_at: 1000 });
+		expect(row.updated_at).toBeGreaterThan(1000);
+	});
+
+	it('should clear optional columns dropped from the document', async () => {
+		await ingestFilm();
+
+		const result = await ingestFilm({ tmdb_id: undefined });
+
+		expect(result.outcome).toBe('updated');
+		expect((await filmRow()).tmdb_id).toBeNull();
+	});
+
+	it('should point the row at the latest object key', async () => {
+		await ingestFilm();
+		const document = await (await env.SR_JSON.get(FILM_KEY))!.text();
+		await env.SR_JSON.put('films/sha256_film_v2.json', document);
+
+		const result = await processJsonFromR2('films/sha256_film_v2.json', env.SR_JSON, env.DB);
+
+		expect(result.outcome).toBe('updated');
+		expect((await filmRow()).r2_key).toBe('films/sha256_film_v2.json');
+	});
+});
+
+describe('processJsonFromR2 JSONL', () => {
+	beforeEach(async () => {
+		await runMigrations();
+	});
+
+	const quoteLine = (n: number) =>
+		JSON.stringify({
+			type: 'quotes',
+			data: {
+				id: `sha256:quote-${n}`,
+				author: 'Anonymous',
+				date_added: '2024-01-01T00:00:00Z',
+				year: 2024,
+				month: '2024-01',
+				slug: `quote-${n}`,
+			},
+		});
+
+	it('should write every line of a .jsonl object across several batches', async () => {
+		const lines = Array.from({ length: 120 }, (_, i) => quoteLine(i + 1));
+		await env.SR_JSON.put('quotes/sha256_many.jsonl', lines.join('\n') + '\n');
+
+		const result = await processJsonFromR2('quotes/sha256_many.jsonl', env.SR_JSON, env.DB);
+
+		expect(result).toMatchObject({ valid: true, category: 'quotes' });
+		expect(result.lines).toHaveLength(120);
+		expect(result.lines![119]).toEqual({ line: 120, id: 'sha256:quote-120', category: 'quotes', outcome: 'inserted' });
+
+		const row = await env.DB.prepare('SELECT COUNT(*) AS total FROM quotes').first<{ total: number }>();
+		expect(row!.total).toBe(120);
+	});
+
+	it('should report per-line errors without dropping the valid lines', async () => {
+		const content = [
+			quoteLine(1),
+			'',
+			'{not json',
+			JSON.stringify({ type: 'quotes', data: { id: 'sha256:bad', author: 'Nobody' } }),
+			JSON.stringify({ type: 'postcards', data: { id: 'sha256:card' } }),
+			quoteLine(2),
+		].join('\n');
+		await env.SR_JSON.put('quotes/sha256_mixed.jsonl', content);
+
+		const result = await processJsonFromR2('quotes/sha256_mixed.jsonl', env.SR_JSON, env.DB);
+
+		expect(result.valid).toBe(false);
+		expect(result.error).toBe('3 of 5 lines failed');
+		expect(result.lines).toMatchObject([
+			{ line: 1, id: 'sha256:quote-1', outcome: 'inserted' },
+			{ line: 3, error: expect.stringContaining('Invalid JSON syntax') },
+			{ line: 4, error: 'Missing or invalid fields: date_added, year, month, slug' },
+			{ line: 5, category: 'postcards', error: 'Unsupported content type: postcards' },
+			{ line: 6, id: 'sha256:quote-2', outcome: 'inserted' },
+		]);
+
+		const row = await env.DB.prepare('SELECT COUNT(*) AS total FROM quotes').first<{ total: number }>();
+		expect(row!.total).toBe(2);
+	});
+
+	it('should sniff multi-line content under a .json key', async () => {
+		await env.SR_JSON.put('quotes/sha256_sniffed.json', [quoteLine(1), quoteLine(2)].join('\n'));
+
+		const result = await processJsonFromR2('quotes/sha256_sniffed.json', env.SR_JSON, env.DB);
+
+		expect(result.valid).toBe(true);
+		expect(result.lines!.map((line) => line.outcome)).toEqual(['inserted', 'inserted']);
+	});
+
+	it('should compare repeated ids against the earlier line', async () => {
+		await env.SR_JSON.put('quotes/sha256_repeat.jsonl', [quoteLine(1), quoteLine(1)].join('\n'));
+
+		const result = await processJsonFromR2('quotes/sha256_repeat.jsonl', env.SR_JSON, env.DB);
+
+		expect(result.lines!.map((line) => line.outcome)).toEqual(['inserted', 'unchanged']);
+	});
+
+	it('should reject an object with no records', async () => {
+		await env.SR_JSON.put('quotes/sha256_empty.jsonl', '\n\n');
+
+		const result = await processJsonFromR2('quotes/sha256_empty.jsonl', env.SR_JSON, env.DB);
+
+		expect(result).toMatchObject({ valid: false, error: 'No records found in JSONL object' });
+	});
+});
+
+describe('processJsonFromR2 bare records', () => {
+	beforeEach(async () => {
+		await runMigrations();
+	});
+
+	const film = {
+		id: 'sha256:bare-film',
+		year_watched: 2023,
+		date_watched: '2023-05-05T00:00:00Z',
+		month: '2023-05',
+		slug: '2023-05-05-the-french-connection',
+	};
+
+	it('should infer the type from the key prefix', async () => {
+		await env.SR_JSON.put('/films/sha256_bare.jsonl', JSON.stringify(film));
+
+		const result = await processJsonFromR2('/films/sha256_bare.jsonl', env.SR_JSON, env.DB);
+
+		expect(result).toMatchObject({ valid: true, category: 'films' });
+		expect(result.lines).toEqual([{ line: 1, id: 'sha256:bare-film', category: 'films', outcome: 'inserted' }]);
+	});
+
+	it('should apply a custom alias map to the key prefix', async () => {
+		await env.SR_JSON.put('movies/sha256_bare.json', JSON.stringify(film));
+
+		const result = await processJsonFromR2('movies/sha256_bare.json', env.SR_JSON, env.DB, { typeAliases: { movies: 'films' } });
+
+		expect(result).toMatchObject({ valid: true, category: 'films', outcome: 'inserted' });
+	});
+
+	it('should reject bare records under an unknown prefix', async () => {
+		await env.SR_JSON.put('postcards/sha256_bare.json', JSON.stringify(film));
+
+		const result = await processJsonFromR2('postcards/sha256_bare.json', env.SR_JSON, env.DB);
+
+		expect(result).toMatchObject({ valid: false, error: 'Unsupported content type: postcards' });
+	});
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema } from '../src/services/json-schema';
+import CreateChatterRequestSchema from '../src/schemas/create-chatter-request.schema.json';
+
+describe('JSON Schema validation', () => {
+	const valid = {
+		kind: 'chatter',
+		content: 'Hello',
+		date_posted: '2025-01-15T10:30:00Z',
+		tags: ['one'],
+		images: ['https://example.com/a.jpg'],
+		location_hint: { lat: 37.77, lng: -122.42, accuracy_m: 50 },
+		place: {
+			name: 'Blue Bottle',
+			formatted_address: '66 Mint St, San Francisco',
+			location: { lat: 37.78, lng: -122.4 },
+			provider_ids: { google_places: 'abc' },
+		},
+	};
+
+	it('should accept a valid create chatter request', () => {
+		expect(validateJsonSchema(CreateChatterRequestSchema, valid)).toEqual([]);
+	});
+
+	it('should report every missing required field', () => {
+		expect(validateJsonSchema(CreateChatterRequestSchema, {})).toEqual([
+			{ path: 'kind', message: 'is required' },
+			{ path: 'content', message: 'is required' },
+			{ path: 'date_posted', message: 'is required' },
+		]);
+	});
+
+	it('should report nested type, enum, format and additional property errors together', () => {
+		const errors = validateJsonSchema(CreateChatterRequestSchema, {
+			...valid,
+			kind: 'checkin',
+			date_posted: 'yesterday',
+			images: ['not a uri', 'https://example.com/b.jpg'],
+			location_hint: { lat: '37.77', lng: -122.42 },
+			place: { ...valid.place, location: { lat: 1 }, provider_ids: { apple_maps: 7 } },
+			mood: 'happy',
+		});
+
+		expect(errors).toEqual([
+			{ path: 'kind', message: 'must be one of: "chatter"' },
+			{ path: 'date_posted', message: 'must be a valid date-time' },
+			{ path: 'images.0', message: 'must be a valid uri or artifact key' },
+			{ path: 'location_hint.lat', message: 'must be number' },
+			{ path: 'place.location.lng', message: 'is required' },
+			{ path: 'place.provider_ids.apple_maps', message: 'must be string' },
+			{ path: 'mood', message: 'is not allowed' },
+		]);
+	});
+
+	it('should accept artifact keys of uploaded images alongside URIs', () => {
+		const hash = 'a'.repeat(64);
+		expect(validateJsonSchema(CreateChatterRequestSchema, { ...valid, images: [`${hash}.jpg`, 'https://example.com/a.jpg'] })).toEqual([]);
+		expect(validateJsonSchema(CreateChatterRequestSchema, { ...valid, images: [`${hash}.tiff`] })).toEqual([
+			{ path: 'images.0', message: 'must be a valid uri or artifact key' },
+		]);
+	});
+
+	it('should reject a non-object body at the root', () => {
+		expect(validateJsonSchema(CreateChatterRequestSchema, ['chatter'])).toEqual([{ path: '', message: 'must be object' }]);
+	});
+});
@@ -0,0 +1,235 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { processJsonFromR2 } from '../src/services/json-processor';
+import { acceptsMediaType, parseRange } from '../src/services/media';
+import { runMigrations } from './helpers/migrations';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+const HASH = 'a'.repeat(64);
+const KEY = `${HASH}.png`;
+const CONTENT = new Uint8Array(Array.from({ length: 100 }, (_, index) => index));
+
+async function send(method: string, path: string, headers: Record<string, string> = {}, body?: unknown): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com${path}`, {
+		method,
+		headers,
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+/**
+ * Status of a response, read to the end so no R2 stream is left open
+ */
+async function statusOf(method: string, path: string, headers: Record<string, string> = {}): Promise<number> {
+	const response = await send(method, path, headers);
+	await response.arrayBuffer();
+	return response.status;
+}
+
+const authorized = { Authorization: 'Bearer test-auth-token' };
+
+/**
+ * Record the photograph of the uploaded artifact
+ */
+async function seedPhotograph(publish = true): Promise<void> {
+	await env.DB.prepare('INSERT INTO photographs (id, original_name, cf_image_id, date_taken, publish, r2_key) VALUES (?, ?, ?, ?, ?, ?)')
+		.bind(`sha256:${HASH}`, 'IMG_0001.png', KEY, 1700000000, publish ? 1 : 0, `photos/sha256_${HASH}.json`)
+		.run();
+}
+
+/**
+ * Post a chatter showing the artifact
+ */
+async function postChatter(extra: Record<string, unknown> = {}): Promise<any> {
+	const response = await send(
+		'POST',
+		'/api/chatters',
+		{ ...authorized, 'Content-Type': 'application/json' },
+		{ kind: 'chatter', content: 'Sunset', date_posted: '2025-01-01T00:00:00Z', images: [KEY], ...extra },
+	);
+	expect(response.status).toBe(201);
+	return response.json();
+}
+
+describe('GET /media/{hash}.{ext}', () => {
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+
+		await runMigrations();
+		await env.SR_ARTIFACT.put(KEY, CONTENT, { httpMetadata: { contentType: 'image/png' } });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should stream the artifact with a strong ETag and immutable caching', async () => {
+		const response = await send('GET', `/media/${KEY}`);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toBe('image/png');
+		expect(response.headers.get('etag')).toBe(`"${HASH}"`);
+		expect(response.headers.get('cache-control')).toBe('public, max-age=31536000, immutable');
+		expect(response.headers.get('accept-ranges')).toBe('bytes');
+		expect(response.headers.get('content-length')).toBe('100');
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(CONTENT);
+	});
+
+	it('should answer HEAD without a body', async () => {
+		const response = await send('HEAD', `/media/${KEY}`);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-length')).toBe('100');
+		expect(await response.text()).toBe('');
+	});
+
+	it('should return 304 when If-None-Match has the hash', async () => {
+		for (const ifNoneMatch of [`"${HASH}"`, `W/"${HASH}"`, `"other", "${HASH}"`, '*']) {
+			const response = await send('GET', `/media/${KEY}`, { 'If-None-Match': ifNoneMatch });
+			expect(response.status).toBe(304);
+			expect(response.headers.get('etag')).toBe(`"${HASH}"`);
+			expect(await response.text()).toBe('');
+		}
+
+		expect(await statusOf('GET', `/media/${KEY}`, { 'If-None-Match': '"other"' })).toBe(200);
+	});
+
+	it('should serve byte ranges', async () => {
+		const response = await send('GET', `/media/${KEY}`, { Range: 'bytes=10-19' });
+		expect(response.status).toBe(206);
+		expect(response.headers.get('content-range')).toBe('bytes 10-19/100');
+		expect(response.headers.get('content-length')).toBe('10');
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(CONTENT.slice(10, 20));
+
+		const suffix = await send('GET', `/media/${KEY}`, { Range: 'bytes=-5' });
+		expect(suffix.headers.get('content-range')).toBe('bytes 95-99/100');
+		expect(new Uint8Array(await suffix.arrayBuffer())).toEqual(CONTENT.slice(95));
+	});
+
+	it('should return 416 for a range past the end', async () => {
+		const response = await send('GET', `/media/${KEY}`, { Range: 'bytes=100-' });
+		expect(response.status).toBe(416);
+		expect(response.headers.get('content-range')).toBe('bytes */100');
+		await response.text();
+	});
+
+	it('should serve the whole artifact when If-Range does not match', async () => {
+		const stale = await send('GET', `/media/${KEY}`, { Range: 'bytes=0-9', 'If-Range': '"other"' });
+		expect(stale.status).toBe(200);
+		expect(stale.headers.get('content-length')).toBe('100');
+		await stale.arrayBuffer();
+
+		const fresh = await send('GET', `/media/${KEY}`, { Range: 'bytes=0-9', 'If-Range': `"${HASH}"` });
+		expect(fresh.status).toBe(206);
+		await fresh.arrayBuffer();
+	});
+
+	it('should return 406 when the client does not accept the image type', async () => {
+		expect(await statusOf('GET', `/media/${KEY}`, { Accept: 'image/webp, image/jpeg' })).toBe(406);
+		expect(await statusOf('GET', `/media/${KEY}`, { Accept: 'image/webp,image/*;q=0.8' })).toBe(200);
+	});
+
+	it('should return 404 for unknown and malformed keys', async () => {
+		expect(await statusOf('GET', `/media/${'b'.repeat(64)}.png`)).toBe(404);
+		expect(await statusOf('GET', '/media/not-a-hash.png')).toBe(404);
+		expect(await statusOf('GET', `/media/${HASH}.exe`)).toBe(404);
+		expect(await statusOf('GET', '/media/%E0%A4%A')).toBe(404);
+	});
+
+	describe('unpublished content', () => {
+		it('should refuse artifacts whose photograph is unpublished', async () => {
+			await seedPhotograph(false);
+
+			expect(await statusOf('GET', `/media/${KEY}`)).toBe(404);
+
+			const response = await send('GET', `/media/${KEY}`, authorized);
+			expect(response.status).toBe(200);
+			expect(response.headers.get('cache-control')).toBe('private, no-cache');
+			await response.arrayBuffer();
+		});
+
+		it('should refuse artifacts shown only by draft chatters until one is published', async () => {
+			await seedPhotograph();
+			const draft = await postChatter({ publish: false });
+
+			expect(await statusOf('GET', `/media/${KEY}`)).toBe(404);
+			expect(await statusOf('GET', `/media/${KEY}`, authorized)).toBe(200);
+
+			await send('PATCH', `/api/chatters/${draft.id}`, { ...authorized, 'Content-Type': 'application/json' }, { publish: true });
+			expect(await statusOf('GET', `/media/${KEY}`)).toBe(200);
+		});
+
+		it('should serve artifacts shown by any published chatter', async () => {
+			await seedPhotograph();
+			await postChatter({ publish: false });
+			await postChatter({ content: 'Sunset again' });
+
+			expect(await statusOf('GET', `/media/${KEY}`)).toBe(200);
+		});
+
+		it('should release artifacts of deleted drafts', async () => {
+			await seedPhotograph();
+			const draft = await postChatter({ publish: false });
+			await send('DELETE', `/api/chatters/${draft.id}`, authorized);
+
+			expect(await statusOf('GET', `/media/${KEY}`)).toBe(200);
+		});
+
+		it('should link the photographs of ingested chatters', async () => {
+			await env.SR_JSON.put(
+				'chatter/sha256_ccc1.json',
+				JSON.stringify({
+					type: 'chatter',
+					id: 'sha256:ccc1',
+					data: {
+						kind: 'chatter',
+						content: 'Ingested',
+						date_posted: '2025-01-01T00:00:00Z',
+						year: 2025,
+						month: '2025-01',
+						slug: '2025-01-01-ingested',
+						publish: false,
+						images: [KEY],
+					},
+				}),
+			);
+
+			expect(await processJsonFromR2('chatter/sha256_ccc1.json', env.SR_JSON, env.DB)).toMatchObject({ valid: true, outcome: 'inserted' });
+			expect(await statusOf('GET', `/media/${KEY}`)).toBe(404);
+		});
+	});
+});
+
+describe('parseRange', () => {
+	it('should ignore ranges it cannot honour', () => {
+		expect(parseRange(null, 100)).toBeNull();
+		expect(parseRange('items=0-9', 100)).toBeNull();
+		expect(parseRange('bytes=0-9,20-29', 100)).toBeNull();
+		expect(parseRange('bytes=9-0', 100)).toBeNull();
+	});
+
+	it('should clamp the end to the artifact size', () => {
+		expect(parseRange('bytes=90-200', 100)).toEqual({ start: 90, end: 99 });
+		expect(parseRange('bytes=-500', 100)).toEqual({ start: 0, end: 99 });
+		expect(parseRange('bytes=-0', 100)).toBe('unsatisfiable');
+		expect(parseRange('bytes=100-', 100)).toBe('unsatisfiable');
+	});
+});
+
+describe('acceptsMediaType', () => {
+	it('should let the most specific range decide', () => {
+		expect(acceptsMediaType(null, 'image/png')).toBe(true);
+		expect(acceptsMediaType('*/*', 'image/png')).toBe(true);
+		expect(acceptsMediaType('image/*, image/png;q=0', 'image/png')).toBe(false);
+		expect(acceptsMediaType('text/html', 'image/png')).toBe(false);
+	});
+});
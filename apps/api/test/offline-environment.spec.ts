@@ -0,0 +1,120 @@
+/// <reference types="./env.d.ts" />
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { computeAstronomy } from '../src/services/environment/astronomy';
+import { computeTimezone, lookupTimezone } from '../src/services/environment/timezone';
+import { enrichChatter } from '../src/services/environment/enrichment';
+
+const SF = { lat: 37.7749, lng: -122.4194 };
+
+/**
+ * Minutes between an ISO timestamp and an expected one
+ */
+function minutesFrom(actual: string | null, expected: string): number {
+	return Math.abs(new Date(actual ?? NaN).getTime() - new Date(expected).getTime()) / 60_000;
+}
+
+describe('Offline environment', () => {
+	describe('computeAstronomy', () => {
+		it('should compute sun events for San Francisco at the summer solstice', () => {
+			const snapshot = computeAstronomy(SF.lat, SF.lng, new Date('2025-06-21T19:00:00Z'));
+
+			expect(snapshot.provider).toEqual({ name: 'offline', product: 'astronomy', version: 'v1' });
+			// Published times: sunrise 05:48 PDT, sunset 20:35 PDT, solar noon 13:12 PDT
+			expect(minutesFrom(snapshot.summary.sunrise, '2025-06-21T12:48:00Z')).toBeLessThan(3);
+			expect(minutesFrom(snapshot.summary.sunset, '2025-06-22T03:35:00Z')).toBeLessThan(3);
+			expect(minutesFrom(snapshot.summary.solar_noon, '2025-06-21T20:12:00Z')).toBeLessThan(3);
+			expect(snapshot.summary.civil_dawn! < snapshot.summary.sunrise!).toBe(true);
+			expect(snapshot.summary.civil_dusk! > snapshot.summary.sunset!).toBe(true);
+			expect(snapshot.summary.solar_elevation_deg).toBeCloseTo(69, 0);
+		});
+
+		it('should report the full moon', () => {
+			const snapshot = computeAstronomy(SF.lat, SF.lng, new Date('2025-11-05T13:19:00Z'));
+
+			expect(snapshot.summary.moon_phase_name).toBe('Full Moon');
+			expect(snapshot.summary.moon_phase).toBeCloseTo(0.5, 1);
+			expect(snapshot.summary.moon_illumination_pct).toBeGreaterThanOrEqual(99);
+		});
+
+		it('should leave sun events null during polar night', () => {
+			const snapshot = computeAstronomy(78.22, 15.65, new Date('2025-12-21T12:00:00Z'));
+
+			expect(snapshot.summary).toMatchObject({ sunrise: null, sunset: null, civil_dawn: null, civil_dusk: null });
+			expect(snapshot.summary.solar_elevation_deg).toBeLessThan(0);
+		});
+	});
+
+	describe('computeTimezone', () => {
+		it('should find the zone for cities', () => {
+			expect(lookupTimezone(SF.lat, SF.lng)).toEqual({ zone: 'America/Los_Angeles', method: 'boundary-grid' });
+			expect(lookupTimezone(51.5074, -0.1278).zone).toBe('Europe/London');
+			expect(lookupTimezone(-33.8688, 151.2093).zone).toBe('Australia/Sydney');
+			expect(lookupTimezone(33.4484, -112.074).zone).toBe('America/Phoenix');
+			expect(lookupTimezone(1.3521, 103.8198).zone).toBe('Asia/Singapore');
+		});
+
+		it('should follow the borders of zones', () => {
+			// Western Russia and Crimea keep Moscow time
+			expect(lookupTimezone(50.4501, 30.5234).zone).toBe('Europe/Kyiv');
+			expect(lookupTimezone(51.672, 39.1843).zone).toBe('Europe/Moscow');
+			expect(lookupTimezone(47.2357, 39.7015).zone).toBe('Europe/Moscow');
+			expect(lookupTimezone(50.5997, 36.5983).zone).toBe('Europe/Moscow');
+			expect(lookupTimezone(51.7304, 36.1926).zone).toBe('Europe/Moscow');
+			expect(lookupTimezone(44.9521, 34.1024).zone).toBe('Europe/Simferopol');
+
+			// The Navajo Nation observes DST; the rest of Arizona does not
+			expect(lookupTimezone(35.6803, -109.0526).zone).toBe('America/Denver');
+			expect(lookupTimezone(36.1355, -111.2399).zone).toBe('America/Denver');
+			expect(lookupTimezone(35.1981, -111.6513).zone).toBe('America/Phoenix');
+			expect(lookupTimezone(35.1678, -114.573).zone).toBe('America/Los_Angeles');
+
+			expect(lookupTimezone(41.6771, 26.5557).zone).toBe('Europe/Istanbul');
+			expect(lookupTimezone(42.6977, 23.3219).zone).toBe('Europe/Sofia');
+		});
+
+		it('should fall back to a longitude offset at sea', () => {
+			expect(lookupTimezone(0, -140)).toEqual({ zone: 'Etc/GMT+9', method: 'longitude-offset' });
+			expect(lookupTimezone(-45, 0).zone).toBe('Etc/GMT');
+		});
+
+		it('should render date_posted as local wall time', () => {
+			const summer = computeTimezone(SF.lat, SF.lng, new Date('2025-06-21T19:00:00Z'));
+			const winter = computeTimezone(SF.lat, SF.lng, new Date('2025-12-21T19:00:00Z'));
+
+			expect(summer.provider).toEqual({ name: 'offline', product: 'timezone', version: 'v1' });
+			expect(summer.summary).toEqual({
+				zone: 'America/Los_Angeles',
+				abbreviation: 'PDT',
+				utc_offset_minutes: -420,
+				local_time: '2025-06-21T12:00:00-07:00',
+			});
+			expect(winter.summary).toMatchObject({ abbreviation: 'PST', utc_offset_minutes: -480, local_time: '2025-12-21T11:00:00-08:00' });
+		});
+
+		it('should handle fractional offsets across midnight', () => {
+			const snapshot = computeTimezone(28.6139, 77.209, new Date('2025-06-21T19:00:00Z'));
+
+			expect(snapshot.summary).toMatchObject({ zone: 'Asia/Kolkata', utc_offset_minutes: 330, local_time: '2025-06-22T00:30:00+05:30' });
+		});
+	});
+
+	describe('enrichChatter', () => {
+		it('should add astronomy and timezone for the time of the post', async () => {
+			const data = await enrichChatter(
+				{ kind: 'chatter', content: 'Hello', date_posted: '2025-06-21T19:00:00.000Z', location_hint: SF },
+				env,
+				true,
+			);
+
+			expect(data.environment?.astronomy?.summary.moon_phase_name).toBeDefined();
+			expect(data.environment?.timezone?.summary.local_time).toBe('2025-06-21T12:00:00-07:00');
+		});
+
+		it('should skip both without coordinates', async () => {
+			const data = await enrichChatter({ kind: 'chatter', content: 'Hello', date_posted: '2025-06-21T19:00:00.000Z' }, env, true);
+
+			expect(data.environment).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,130 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import worker from '../src/index';
+import mockNearbyPlaces from './fixtures/environment/mock-nearby-places.json';
+import mockGeocoding from './fixtures/environment/mock-geocoding.json';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+async function get(path: string, authenticated = true): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com${path}`, {
+		headers: authenticated ? { Authorization: 'Bearer test-auth-token' } : {},
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+describe('Places API', () => {
+	let fetchSpy: MockInstance<typeof fetch>;
+
+	beforeEach(() => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+		env.GOOGLE_PLACES_API = {
+			get: vi.fn().mockResolvedValue('test-google-key'),
+		} as any;
+
+		fetchSpy = vi.spyOn(globalThis, 'fetch');
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('GET /api/places/nearby', () => {
+		it('should search Google with the server-side key and return place summaries', async () => {
+			fetchSpy.mockResolvedValue(Response.json(mockNearbyPlaces));
+
+			const response = await get('/api/places/nearby?lat=37.7822&lng=-122.4074&radius=250');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.places).toHaveLength(2);
+			expect(body.places[0]).toMatchObject({
+				name: 'Blue Bottle Coffee',
+				formatted_address: '66 Mint St, San Francisco, CA 94103, USA',
+				short_address: '66 Mint St',
+				lat: 37.7822,
+				lng: -122.4074,
+				place_id: 'ChIJIQBpAG2ahYAR_6128GcTUEo',
+				price_level: 2,
+				provider_ids: { google_places: 'ChIJIQBpAG2ahYAR_6128GcTUEo' },
+			});
+			expect(body.places[1].price_level).toBeNull();
+
+			const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+			expect(url).toBe('https://places.googleapis.com/v1/places:searchNearby');
+			expect((init.headers as Record<string, string>)['X-Goog-Api-Key']).toBe('test-google-key');
+			expect(JSON.parse(init.body as string).locationRestriction.circle).toEqual({
+				center: { latitude: 37.7822, longitude: -122.4074 },
+				radius: 250,
+			});
+		});
+
+		it('should return an empty list when Google finds nothing', async () => {
+			fetchSpy.mockResolvedValue(Response.json({}));
+
+			const body = (await (await get('/api/places/nearby?lat=0&lng=0')).json()) as any;
+			expect(body.places).toEqual([]);
+		});
+
+		it('should require authentication', async () => {
+			const response = await get('/api/places/nearby?lat=37.7&lng=-122.4', false);
+			expect(response.status).toBe(401);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it('should reject missing or out-of-range coordinates', async () => {
+			expect((await get('/api/places/nearby?lat=37.7')).status).toBe(400);
+			expect((await get('/api/places/nearby?lat=91&lng=0')).status).toBe(400);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it('should return 502 when Google fails', async () => {
+			fetchSpy.mockResolvedValue(new Response('quota exceeded', { status: 429 }));
+
+			const response = await get('/api/places/nearby?lat=37.7&lng=-122.4');
+			expect(response.status).toBe(502);
+			expect(((await response.json()) as any).details).toContain('429');
+		});
+	});
+
+	describe('GET /api/places/reverse', () => {
+		it('should return the geocoding summary', async () => {
+			fetchSpy.mockResolvedValue(Response.json(mockGeocoding.full));
+
+			const response = await get('/api/places/reverse?lat=37.7749&lng=-122.4194');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body).toMatchObject({
+				lat: 37.7749,
+				lng: -122.4194,
+				formatted_address: 'San Francisco, CA 94103, USA',
+				locality: 'San Francisco',
+				region_code: 'CA',
+				country_code: 'US',
+			});
+			expect(body).not.toHaveProperty('full');
+			expect(fetchSpy.mock.calls[0][0]).toContain('key=test-google-key');
+		});
+
+		it('should return 502 when there is no address', async () => {
+			fetchSpy.mockResolvedValue(Response.json({ results: [], status: 'ZERO_RESULTS' }));
+
+			expect((await get('/api/places/reverse?lat=0&lng=0')).status).toBe(502);
+		});
+	});
+
+	describe('GET /api/token', () => {
+		it('should not hand out the Google key', async () => {
+			const body = (await (await get('/api/token', false)).json()) as any;
+
+			expect(body).toEqual({ authToken: 'test-auth-token' });
+		});
+	});
+});
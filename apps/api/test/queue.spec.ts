@@ -1,11 +1,8 @@
 /// <reference types="./env.d.ts" />
 import { env } from 'cloudflare:test';
-import { describe, it, expect, beforeEach } from 'vitest';
-import { handleQueue } from '../src/handlers/queue';
-
-// Import migration files as raw strings
-// @ts-expect-error
-import migration0 from '../migrations/0000_supreme_quicksilver.sql?raw';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleQueue, MAX_INGEST_ATTEMPTS, retryDelaySeconds } from '../src/handlers/queue';
+import { runMigrations } from './helpers/migrations';
 
 // Import fixture files as raw strings
 // @ts-expect-error
@@ -18,18 +15,28 @@ import filmFixture from './fixtures/films/sha256_0accb27c1e4af68eaadbef5aaee901f
 import quoteFixture from './fixtures/quotes/sha256_06b0e94e4c7f886b2fc6958720ee4f07eea7a68166d89f43a36e10c77228a39a.jsonl?raw';
 // @ts-expect-error
 import shakespeareFixture from './fixtures/shakespert/sha256_7e03cbe440cd61d8774a0f6c068ecdd109dd80abac6e4d065028e077636832d5.jsonl?raw';
+// @ts-expect-error
+import photographFixture from './fixtures/photos/sha256_49aa874eeef00ed2192587bcd8fc5d49e2d5927cba0db6e563152732dfee5d29.jsonl?raw';
+// @ts-expect-error
+import videoFixture from './fixtures/videos/sha256_a742d6f2ba9e9c4f92e50e1f5857e71747f6364a188027978c9479178708d096.jsonl?raw';
+// @ts-expect-error
+import memeFixture from './fixtures/memes/sha256_f0f7492c725056f25bc293bfa618328ac39884f8e65c5dc2628fd3781c332d7c.jsonl?raw';
+// @ts-expect-error
+import audioFixture from './fixtures/audio/sha256_b6f0c81b16d19f042215eae423c95a0f4e0b7b1edbd839e3fad16851f463c86f.jsonl?raw';
+// @ts-expect-error
+import bookmarkFixture from './fixtures/bookmarks/sha256_212ed0d3dcac7d3fedb1393e0e05fc38be5355db0b12efa8f8f31933a32bb191.jsonl?raw';
 
 /**
  * Helper to create a test queue message
  */
-function createMessage(id: string, body: unknown): Message<unknown> {
+function createMessage(id: string, body: unknown, attempts = 1): Message<unknown> {
 	return {
 		id,
 		timestamp: new Date(),
 		body,
-		attempts: 1,
-		retry: () => {},
-		ack: () => {},
+		attempts,
+		retry: vi.fn(),
+		ack: vi.fn(),
 	};
 }
 
@@ -45,31 +52,6 @@ function createBatch(messages: Message<unknown>[]): MessageBatch<unknown> {
 	};
 }
 
-/**
- * Run production database migrations
- * Imports actual migration SQL files and executes them using D1's batch API
- * This ensures test tables match production schema exactly
- */
-async function runMigrations(): Promise<void> {
-	// Migrations imported as raw strings at build time
-	const migrations = [migration0];
-
-	// Execute each migration file
-	for (const migrationSql of migrations) {
-		// Split on statement-breakpoint comments and clean up
-		const statements = migrationSql
-			.split('--> statement-breakpoint')
-			.map((s: string) => s.trim())
-			.filter((s: string) => s.length > 0 && !s.startsWith('--')); // Remove empty and comment-only lines
-
-		// Execute all statements in a batch
-		// D1's batch() is more reliable than exec() for multiple statements
-		if (statements.length > 0) {
-			await env.DB.batch(statements.map((sql: string) => env.DB.prepare(sql)));
-		}
-	}
-}
-
 /**
  * Load fixture files from test/fixtures/ into R2
  * Fixtures are imported as raw strings
@@ -82,6 +64,11 @@ async function loadFixtures(): Promise<void> {
 		['films', 'sha256_0accb27c1e4af68eaadbef5aaee901f5ab11e9ce872d7eb29820e82dc38e2624.jsonl', filmFixture],
 		['quotes', 'sha256_06b0e94e4c7f886b2fc6958720ee4f07eea7a68166d89f43a36e10c77228a39a.jsonl', quoteFixture],
 		['shakespert', 'sha256_7e03cbe440cd61d8774a0f6c068ecdd109dd80abac6e4d065028e077636832d5.jsonl', shakespeareFixture],
+		['photos', 'sha256_49aa874eeef00ed2192587bcd8fc5d49e2d5927cba0db6e563152732dfee5d29.jsonl', photographFixture],
+		['videos', 'sha256_a742d6f2ba9e9c4f92e50e1f5857e71747f6364a188027978c9479178708d096.jsonl', videoFixture],
+		['memes', 'sha256_f0f7492c725056f25bc293bfa618328ac39884f8e65c5dc2628fd3781c332d7c.jsonl', memeFixture],
+		['audio', 'sha256_b6f0c81b16d19f042215eae423c95a0f4e0b7b1edbd839e3fad16851f463c86f.jsonl', audioFixture],
+		['bookmarks', 'sha256_212ed0d3dcac7d3fedb1393e0e05fc38be5355db0b12efa8f8f31933a32bb191.jsonl', bookmarkFixture],
 	];
 
 	// Load each fixture file into R2
@@ -91,6 +78,14 @@ async function loadFixtures(): Promise<void> {
 	}
 }
 
+/**
+ * Count rows in a D1 table
+ */
+async function countRows(table: string): Promise<number> {
+	const row = await env.DB.prepare(`SELECT COUNT(*) AS total FROM ${table}`).first<{ total: number }>();
+	return row?.total ?? 0;
+}
+
 describe('Queue Handler', () => {
 	beforeEach(async () => {
 		// Run production database migrations from actual migration files
@@ -111,6 +106,9 @@ describe('Queue Handler', () => {
 
 		// Should not throw
 		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		expect(await countRows('chatter')).toBe(1);
+		expect(await countRows('chatter_tags')).toBe(2);
 	});
 
 	it('should process checkin file', async () => {
@@ -122,6 +120,8 @@ describe('Queue Handler', () => {
 
 		// Should not throw
 		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		expect(await countRows('checkins')).toBe(1);
 	});
 
 	it('should process film file', async () => {
@@ -133,6 +133,23 @@ describe('Queue Handler', () => {
 
 		// Should not throw
 		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		expect(await countRows('films')).toBe(1);
+	});
+
+	it('should resolve folders through the TYPE_ALIASES var', async () => {
+		await env.SR_JSON.put('/movies/sha256_movies.jsonl', filmFixture);
+		env.TYPE_ALIASES = JSON.stringify({ movies: 'films' });
+
+		try {
+			const message = createMessage('msg-3b', { objectKey: '/movies/sha256_movies.jsonl' });
+			await handleQueue(createBatch([message]), env);
+
+			expect(message.ack).toHaveBeenCalled();
+			expect(await countRows('films')).toBe(1);
+		} finally {
+			env.TYPE_ALIASES = undefined;
+		}
 	});
 
 	it('should process quote file', async () => {
@@ -144,6 +161,8 @@ describe('Queue Handler', () => {
 
 		// Should not throw
 		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		expect(await countRows('quotes')).toBe(1);
 	});
 
 	it('should process shakespert file', async () => {
@@ -155,6 +174,116 @@ describe('Queue Handler', () => {
 
 		// Should not throw
 		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		// Bare records under the shakespert/ prefix map to the shakespeare table, one row per line
+		expect(await countRows('shakespeare')).toBe(202);
+	});
+
+	it('should process photograph file', async () => {
+		const batch = createBatch([
+			createMessage('msg-6', {
+				objectKey: '/photos/sha256_49aa874eeef00ed2192587bcd8fc5d49e2d5927cba0db6e563152732dfee5d29.jsonl',
+			}),
+		]);
+
+		// Should not throw
+		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		// The photos/ folder maps to the photographs table; lat/lon land in latitude/longitude
+		const row = await env.DB.prepare('SELECT cf_image_id, latitude, longitude, publish FROM photographs').first();
+		expect(row).toEqual({ cf_image_id: '7c1f0b2e-4d3a-4b8e-9f61-2a5d8c0e9b13', latitude: 37.7594, longitude: -122.5107, publish: 1 });
+		expect(await countRows('photographs_tags')).toBe(2);
+	});
+
+	it('should process video file', async () => {
+		const batch = createBatch([
+			createMessage('msg-7', {
+				objectKey: '/videos/sha256_a742d6f2ba9e9c4f92e50e1f5857e71747f6364a188027978c9479178708d096.jsonl',
+			}),
+		]);
+
+		// Should not throw
+		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		const row = await env.DB.prepare('SELECT title, duration FROM videos').first();
+		expect(row).toEqual({ title: 'Birthday Party 2023', duration: 180 });
+	});
+
+	it('should process meme file', async () => {
+		const batch = createBatch([
+			createMessage('msg-8', {
+				objectKey: '/memes/sha256_f0f7492c725056f25bc293bfa618328ac39884f8e65c5dc2628fd3781c332d7c.jsonl',
+			}),
+		]);
+
+		// Should not throw
+		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		const row = await env.DB.prepare('SELECT title, source_url, publish FROM memes').first();
+		expect(row).toEqual({ title: 'Distracted Boyfriend', source_url: 'https://knowyourmeme.com/memes/distracted-boyfriend', publish: 0 });
+		expect(await countRows('memes_tags')).toBe(2);
+	});
+
+	it('should process audio file', async () => {
+		const batch = createBatch([
+			createMessage('msg-9', {
+				objectKey: '/audio/sha256_b6f0c81b16d19f042215eae423c95a0f4e0b7b1edbd839e3fad16851f463c86f.jsonl',
+			}),
+		]);
+
+		// Should not throw
+		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		const row = await env.DB.prepare('SELECT duration, artifact_key FROM audio').first();
+		expect(row).toEqual({
+			duration: 3600,
+			artifact_key: 'artifacts/audio/sha256_b6f0c81b16d19f042215eae423c95a0f4e0b7b1edbd839e3fad16851f463c86f.wav',
+		});
+	});
+
+	it('should process bookmark file', async () => {
+		const batch = createBatch([
+			createMessage('msg-10', {
+				objectKey: '/bookmarks/sha256_212ed0d3dcac7d3fedb1393e0e05fc38be5355db0b12efa8f8f31933a32bb191.jsonl',
+			}),
+		]);
+
+		// Should not throw
+		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
+
+		const { results } = await env.DB.prepare('SELECT id, domain, excerpt, created_at, updated_at FROM bookmarks ORDER BY id').all();
+		// Raindrop's numeric _id is stored as text; created/lastUpdate are Raindrop's own timestamps
+		expect(results).toEqual([
+			{
+				id: '812345678',
+				domain: 'developers.cloudflare.com',
+				excerpt: "D1 is Cloudflare's managed, serverless database with SQLite's SQL semantics.",
+				created_at: Date.parse('2024-02-10T18:22:05Z') / 1000,
+				updated_at: Date.parse('2024-03-01T08:00:41Z') / 1000,
+			},
+			{
+				id: '812345679',
+				domain: 'www.sqlite.org',
+				excerpt: null,
+				created_at: Date.parse('2024-02-11T07:05:00Z') / 1000,
+				updated_at: Date.parse('2024-02-11T07:05:00Z') / 1000,
+			},
+		]);
+		expect(await countRows('bookmarks_tags')).toBe(4);
+	});
+
+	it('should keep a bookmark\'s Raindrop timestamps when it is re-ingested', async () => {
+		const objectKey = '/bookmarks/sha256_212ed0d3dcac7d3fedb1393e0e05fc38be5355db0b12efa8f8f31933a32bb191.jsonl';
+		await handleQueue(createBatch([createMessage('msg-11', { objectKey })]), env);
+		await env.DB.prepare('UPDATE bookmarks SET db_updated_at = 0').run();
+
+		await env.SR_JSON.put(objectKey, bookmarkFixture.replace('Cloudflare D1 documentation', 'D1 docs'));
+		await handleQueue(createBatch([createMessage('msg-12', { objectKey })]), env);
+
+		const row = await env.DB.prepare('SELECT title, updated_at, db_updated_at FROM bookmarks WHERE id = ?').bind('812345678').first<any>();
+		expect(row.title).toBe('D1 docs');
+		expect(row.updated_at).toBe(Date.parse('2024-03-01T08:00:41Z') / 1000);
+		expect(row.db_updated_at).toBeGreaterThan(0);
 	});
 
 	it('should handle missing file in R2', async () => {
@@ -194,4 +323,73 @@ describe('Queue Handler', () => {
 		// Should complete successfully with no messages
 		await expect(handleQueue(batch, env)).resolves.toBeUndefined();
 	});
+
+	describe('failure handling', () => {
+		const failingBucket = {
+			get: () => Promise.reject(new Error('R2 unavailable')),
+		} as unknown as R2Bucket;
+
+		async function failures() {
+			const { results } = await env.DB.prepare('SELECT * FROM ingest_failures ORDER BY object_key').all<any>();
+			return results;
+		}
+
+		it('should record validation failures as permanent and ack', async () => {
+			await env.SR_JSON.put('films/sha256_broken.json', JSON.stringify({ id: 'sha256:broken' }));
+			const message = createMessage('msg-11', { objectKey: 'films/sha256_broken.json' }, 2);
+
+			await handleQueue(createBatch([message]), env);
+
+			expect(message.ack).toHaveBeenCalled();
+			expect(message.retry).not.toHaveBeenCalled();
+			expect(await failures()).toMatchObject([
+				{
+					object_key: 'films/sha256_broken.json',
+					kind: 'permanent',
+					attempts: 2,
+					error: 'Processing error: Missing or invalid fields: year_watched, date_watched, month, slug',
+				},
+			]);
+		});
+
+		it('should retry storage errors with backoff', async () => {
+			const message = createMessage('msg-12', { objectKey: '/films/sha256_any.jsonl' }, 3);
+
+			await handleQueue(createBatch([message]), { ...env, SR_JSON: failingBucket });
+
+			expect(message.retry).toHaveBeenCalledWith({ delaySeconds: retryDelaySeconds(3) });
+			expect(message.ack).not.toHaveBeenCalled();
+			expect(await failures()).toEqual([]);
+		});
+
+		it('should record storage errors as transient once attempts run out', async () => {
+			const message = createMessage('msg-13', { objectKey: '/films/sha256_any.jsonl' }, MAX_INGEST_ATTEMPTS);
+
+			await handleQueue(createBatch([message]), { ...env, SR_JSON: failingBucket });
+
+			expect(message.retry).not.toHaveBeenCalled();
+			expect(message.ack).toHaveBeenCalled();
+			expect(await failures()).toMatchObject([
+				{ object_key: '/films/sha256_any.jsonl', kind: 'transient', error: 'R2 get failed: R2 unavailable' },
+			]);
+		});
+
+		it('should clear a recorded failure when the object later succeeds', async () => {
+			const objectKey = '/films/sha256_0accb27c1e4af68eaadbef5aaee901f5ab11e9ce872d7eb29820e82dc38e2624.jsonl';
+			await env.DB.prepare("INSERT INTO ingest_failures (object_key, error, kind, attempts) VALUES (?, 'old', 'transient', 6)")
+				.bind(objectKey)
+				.run();
+
+			await handleQueue(createBatch([createMessage('msg-14', { objectKey })]), env);
+
+			expect(await failures()).toEqual([]);
+		});
+
+		it('should back off exponentially up to a cap', () => {
+			expect(retryDelaySeconds(1)).toBe(30);
+			expect(retryDelaySeconds(2)).toBe(60);
+			expect(retryDelaySeconds(3)).toBe(120);
+			expect(retryDelaySeconds(20)).toBe(900);
+		});
+	});
 });
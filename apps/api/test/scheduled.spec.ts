@@ -0,0 +1,105 @@
+/// <reference types="./env.d.ts" />
+import { env, createScheduledController } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { runMigrations } from './helpers/migrations';
+
+/**
+ * Insert a chatter hot row with the given status, and its document in R2
+ */
+async function seedRow(id: string, status: string, publishAt: string | null): Promise<void> {
+	await env.SR_JSON.put(
+		`chatter/${id}.json`,
+		JSON.stringify({ type: 'chatter', id, data: { kind: 'chatter', content: id, status, publish: status === 'published', publish_at: publishAt } })
+	);
+	await env.DB.prepare(
+		'INSERT INTO chatter (id, date_posted, year, month, slug, publish, status, publish_at, r2_key) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+	)
+		.bind(
+			id,
+			1_735_689_600,
+			2025,
+			'2025-01',
+			id,
+			status === 'published' ? 1 : 0,
+			status,
+			publishAt ? Math.floor(new Date(publishAt).getTime() / 1000) : null,
+			`chatter/${id}.json`
+		)
+		.run();
+}
+
+describe('Scheduled Handler', () => {
+	beforeEach(async () => {
+		await runMigrations();
+		await seedRow('due', 'scheduled', '2025-06-01T12:00:00Z');
+		await seedRow('later', 'scheduled', '2025-06-01T12:05:00Z');
+		await seedRow('draft', 'draft', null);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	async function runCron(scheduledTime: string): Promise<void> {
+		const controller = createScheduledController({ scheduledTime: new Date(scheduledTime), cron: '* * * * *' });
+		await worker.scheduled(controller, env);
+	}
+
+	async function statuses(): Promise<Record<string, [string, number]>> {
+		const { results } = await env.DB.prepare('SELECT id, status, publish FROM chatter').all<{ id: string; status: string; publish: number }>();
+		return Object.fromEntries(results.map((row) => [row.id, [row.status, row.publish]]));
+	}
+
+	it('should publish scheduled chatters that are due', async () => {
+		await runCron('2025-06-01T12:00:00Z');
+
+		expect(await statuses()).toEqual({
+			due: ['published', 1],
+			later: ['scheduled', 0],
+			draft: ['draft', 0],
+		});
+		expect((await env.SR_JSON.head('chatter/due.json'))!.customMetadata).toEqual({ 'published-at': '2025-06-01T12:00:00.000Z' });
+		expect((await env.SR_JSON.head('chatter/later.json'))!.customMetadata).toEqual({});
+	});
+
+	it('should leave everything alone when nothing is due', async () => {
+		await runCron('2025-06-01T11:59:00Z');
+
+		expect(await statuses()).toEqual({
+			due: ['scheduled', 0],
+			later: ['scheduled', 0],
+			draft: ['draft', 0],
+		});
+	});
+
+	it('should prune expired environment snapshots', async () => {
+		await env.DB.prepare(
+			"INSERT INTO environment_cache (key, product, snapshot, expires_at) VALUES ('weather:1,1:1', 'weather', '{}', ?), ('elevation:1,1:forever', 'elevation', '{}', NULL)"
+		)
+			.bind(Math.floor(new Date('2025-06-01T11:45:00Z').getTime() / 1000))
+			.run();
+
+		await runCron('2025-06-01T12:00:00Z');
+
+		const { results } = await env.DB.prepare('SELECT key FROM environment_cache').all<{ key: string }>();
+		expect(results).toEqual([{ key: 'elevation:1,1:forever' }]);
+	});
+
+	it('should still prune snapshots when publishing fails', async () => {
+		await env.DB.prepare("INSERT INTO environment_cache (key, product, snapshot, expires_at) VALUES ('weather:1,1:1', 'weather', '{}', ?)")
+			.bind(Math.floor(new Date('2025-06-01T11:45:00Z').getTime() / 1000))
+			.run();
+		const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.spyOn(env.DB, 'prepare').mockImplementationOnce(() => {
+			throw new Error('D1 unavailable');
+		});
+
+		await runCron('2025-06-01T12:00:00Z');
+
+		expect(logged).toHaveBeenCalledWith('Publishing scheduled chatters failed:', expect.any(Error));
+		expect((await statuses()).due).toEqual(['scheduled', 0]);
+		const { results } = await env.DB.prepare('SELECT key FROM environment_cache').all<{ key: string }>();
+		expect(results).toEqual([]);
+	});
+});
@@ -0,0 +1,144 @@
+/// <reference types="./env.d.ts" />
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { pruneSnapshotCache, snapshotCacheKey, withSnapshotCache } from '../src/services/environment/snapshot-cache';
+import { enrichChatter } from '../src/services/environment/enrichment';
+import type { EnvironmentProduct, EnvironmentProvider } from '../src/services/environment/providers';
+import { runMigrations } from './helpers/migrations';
+import mockWeather from './fixtures/environment/mock-weather.json';
+import mockElevation from './fixtures/environment/mock-elevation.json';
+
+const LAT = 37.7749;
+const LNG = -122.4194;
+
+function at(iso: string): Date {
+	return new Date(iso);
+}
+
+/**
+ * Provider whose fetch is a spy returning the given snapshot
+ */
+function stubProvider(product: EnvironmentProduct, snapshot: unknown, name = 'google') {
+	const fetch = vi.fn().mockResolvedValue(snapshot);
+	return { name, product, fetch } satisfies EnvironmentProvider;
+}
+
+describe('Environment snapshot cache', () => {
+	beforeEach(async () => {
+		await runMigrations();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('snapshotCacheKey', () => {
+		it('should round coordinates to the product cell and bucket the time', () => {
+			const now = at('2025-06-01T12:07:00Z');
+
+			expect(snapshotCacheKey('weather', 'google', LAT, LNG, now)).toBe(
+				`weather:google:37.77,-122.42:${Math.floor(now.getTime() / 1000 / 900)}`,
+			);
+			expect(snapshotCacheKey('pollen', 'google', LAT, LNG, now)).toBe(
+				`pollen:google:37.8,-122.4:${Math.floor(now.getTime() / 1000 / 86_400)}`,
+			);
+			expect(snapshotCacheKey('elevation', 'google', LAT, LNG, now)).toBe('elevation:google:37.775,-122.419:forever');
+			expect(snapshotCacheKey('elevation', 'google', -0.0001, 0.0001, now)).toBe('elevation:google:0,0:forever');
+		});
+	});
+
+	describe('withSnapshotCache', () => {
+		it('should serve a second post from the same cell and bucket from the cache', async () => {
+			const weather = stubProvider('weather', mockWeather);
+
+			const first = await withSnapshotCache(weather, LAT, LNG, env, at('2025-06-01T12:01:00Z'));
+			const second = await withSnapshotCache(weather, LAT, LNG + 0.001, env, at('2025-06-01T12:02:00Z'));
+
+			expect(weather.fetch).toHaveBeenCalledTimes(1);
+			expect(first.cached).toBe(false);
+			expect(second).toEqual({ ...mockWeather, cached: true });
+		});
+
+		it('should fetch again in the next time bucket or another cell', async () => {
+			const weather = stubProvider('weather', mockWeather);
+
+			await withSnapshotCache(weather, LAT, LNG, env, at('2025-06-01T12:01:00Z'));
+			const nextBucket = await withSnapshotCache(weather, LAT, LNG, env, at('2025-06-01T12:16:00Z'));
+			const otherCell = await withSnapshotCache(weather, LAT + 0.1, LNG, env, at('2025-06-01T12:16:00Z'));
+
+			expect(weather.fetch).toHaveBeenCalledTimes(3);
+			expect(nextBucket.cached).toBe(false);
+			expect(otherCell.cached).toBe(false);
+		});
+
+		it('should keep entries separate per provider', async () => {
+			const google = stubProvider('weather', mockWeather);
+			const openMeteo = stubProvider('weather', { ...mockWeather, provider: { name: 'open-meteo', product: 'weather' } }, 'open-meteo');
+			const now = at('2025-06-01T12:01:00Z');
+
+			await withSnapshotCache(google, LAT, LNG, env, now);
+			const other = await withSnapshotCache(openMeteo, LAT, LNG, env, now);
+
+			expect(openMeteo.fetch).toHaveBeenCalledTimes(1);
+			expect(other.provider.name).toBe('open-meteo');
+		});
+
+		it('should keep elevation forever', async () => {
+			const elevation = stubProvider('elevation', mockElevation);
+
+			await withSnapshotCache(elevation, LAT, LNG, env, at('2025-06-01T12:00:00Z'));
+			const years = await withSnapshotCache(elevation, LAT, LNG, env, at('2030-01-01T00:00:00Z'));
+
+			expect(elevation.fetch).toHaveBeenCalledTimes(1);
+			expect(years.cached).toBe(true);
+		});
+
+		it('should not cache failed fetches', async () => {
+			const weather = stubProvider('weather', mockWeather);
+			weather.fetch.mockRejectedValueOnce(new Error('Google Weather API error: 503'));
+			const now = at('2025-06-01T12:01:00Z');
+
+			await expect(withSnapshotCache(weather, LAT, LNG, env, now)).rejects.toThrow('503');
+			const retried = await withSnapshotCache(weather, LAT, LNG, env, now);
+
+			expect(weather.fetch).toHaveBeenCalledTimes(2);
+			expect(retried.cached).toBe(false);
+		});
+	});
+
+	describe('pruneSnapshotCache', () => {
+		it('should delete expired entries and keep permanent ones', async () => {
+			await withSnapshotCache(stubProvider('weather', mockWeather), LAT, LNG, env, at('2025-06-01T12:01:00Z'));
+			await withSnapshotCache(stubProvider('elevation', mockElevation), LAT, LNG, env, at('2025-06-01T12:01:00Z'));
+
+			expect(await pruneSnapshotCache(env.DB, at('2025-06-01T12:10:00Z'))).toBe(0);
+			expect(await pruneSnapshotCache(env.DB, at('2025-06-01T12:15:00Z'))).toBe(1);
+
+			const { results } = await env.DB.prepare('SELECT product FROM environment_cache').all<{ product: string }>();
+			expect(results.map((row) => row.product)).toEqual(['elevation']);
+		});
+	});
+
+	describe('enrichChatter', () => {
+		it('should use cached snapshots instead of calling the provider', async () => {
+			env.GOOGLE_PLACES_API = { get: vi.fn().mockResolvedValue('test-google-key') } as any;
+			const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('unavailable', { status: 503 }));
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			await withSnapshotCache(stubProvider('weather', mockWeather), LAT, LNG, env);
+			await withSnapshotCache(stubProvider('elevation', mockElevation), LAT, LNG, env);
+
+			const data = await enrichChatter(
+				{ kind: 'chatter', content: 'Hello', date_posted: new Date().toISOString(), location_hint: { lat: LAT, lng: LNG } },
+				env,
+			);
+
+			expect(data.environment?.weather).toEqual({ ...mockWeather, cached: true });
+			expect(data.environment?.elevation).toEqual({ ...mockElevation, cached: true });
+			// Uncached products still went to the provider
+			expect(data.environment?.air_quality).toBeUndefined();
+			expect(fetchSpy).toHaveBeenCalled();
+			expect(fetchSpy.mock.calls.every(([url]) => !String(url).includes('weather.googleapis.com'))).toBe(true);
+		});
+	});
+});
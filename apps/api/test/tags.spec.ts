@@ -0,0 +1,158 @@
+/// <reference types="./env.d.ts" />
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { processJsonFromR2 } from '../src/services/json-processor';
+import { normalizeTag, normalizeTags } from '../src/services/tags';
+import { runMigrations } from './helpers/migrations';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+/**
+ * Put a wrapped JSON document into R2 and ingest it
+ */
+async function ingest(objectKey: string, type: string, data: Record<string, unknown>) {
+	await env.SR_JSON.put(objectKey, JSON.stringify({ type, data }));
+	return processJsonFromR2(objectKey, env.SR_JSON, env.DB);
+}
+
+async function tagNamesFor(junction: string, column: string, id: string): Promise<string[]> {
+	const { results } = await env.DB.prepare(
+		`SELECT tags.name FROM ${junction} JOIN tags ON tags.id = ${junction}.tag_id WHERE ${junction}.${column} = ? ORDER BY tags.name`
+	)
+		.bind(id)
+		.all<{ name: string }>();
+	return results.map((row) => row.name);
+}
+
+async function get(path: string, authenticated = false): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com${path}`, {
+		headers: authenticated ? { Authorization: 'Bearer test-auth-token' } : {},
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+const chatterData = (id: string, slug: string, tags: unknown, publish = true) => ({
+	id,
+	date_posted: '2024-05-01T12:00:00Z',
+	year: 2024,
+	month: '2024-05',
+	slug,
+	tags,
+	publish,
+});
+
+const quoteData = (id: string, slug: string, tags: unknown) => ({
+	id,
+	author: 'Shakespeare',
+	date_added: '2024-06-01T00:00:00Z',
+	year: 2024,
+	month: '2024-06',
+	slug,
+	tags,
+});
+
+describe('Tags', () => {
+	beforeEach(async () => {
+		env.AUTH_TOKEN = {
+			get: vi.fn().mockResolvedValue('test-auth-token'),
+		} as any;
+
+		await runMigrations();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('normalizeTag', () => {
+		it('should trim, lowercase, strip hashes and collapse whitespace', () => {
+			expect(normalizeTag(' #Road  Trip ')).toBe('road-trip');
+			expect(normalizeTag('Twitter')).toBe('twitter');
+		});
+
+		it('should drop duplicates, blanks and non-strings', () => {
+			expect(normalizeTags(['Twitter', 'twitter', ' ', 42, '#', 'Bluesky'])).toEqual(['twitter', 'bluesky']);
+			expect(normalizeTags('twitter')).toEqual([]);
+		});
+	});
+
+	describe('ingestion', () => {
+		it('should upsert tags and link chatter through chatter_tags', async () => {
+			const result = await ingest('chatter/one.json', 'chatter', chatterData('sha256:c1', 'one', ['Chatter', 'twitter']));
+			expect(result.valid).toBe(true);
+
+			expect(await tagNamesFor('chatter_tags', 'chatter_id', 'sha256:c1')).toEqual(['chatter', 'twitter']);
+		});
+
+		it('should link quotes through quotes_tags and reuse existing tags', async () => {
+			await ingest('chatter/one.json', 'chatter', chatterData('sha256:c1', 'one', ['twitter']));
+			await ingest('quotes/one.json', 'quotes', quoteData('sha256:q1', 'q-one', ['Twitter', 'bluesky']));
+
+			expect(await tagNamesFor('quotes_tags', 'quote_id', 'sha256:q1')).toEqual(['bluesky', 'twitter']);
+
+			const { results } = await env.DB.prepare('SELECT name FROM tags ORDER BY name').all<{ name: string }>();
+			expect(results.map((row) => row.name)).toEqual(['bluesky', 'twitter']);
+		});
+
+		it('should replace tag links when a record is re-ingested', async () => {
+			await ingest('chatter/one.json', 'chatter', chatterData('sha256:c1', 'one', ['twitter', 'old']));
+			await ingest('chatter/one.json', 'chatter', chatterData('sha256:c1', 'one', ['twitter', 'new']));
+
+			expect(await tagNamesFor('chatter_tags', 'chatter_id', 'sha256:c1')).toEqual(['new', 'twitter']);
+		});
+
+		it('should ingest records without tags', async () => {
+			const result = await ingest('chatter/one.json', 'chatter', chatterData('sha256:c1', 'one', undefined));
+			expect(result.valid).toBe(true);
+
+			expect(await tagNamesFor('chatter_tags', 'chatter_id', 'sha256:c1')).toEqual([]);
+		});
+	});
+
+	describe('endpoints', () => {
+		beforeEach(async () => {
+			await ingest('chatter/one.json', 'chatter', chatterData('sha256:c1', 'one', ['twitter']));
+			await ingest('chatter/two.json', 'chatter', chatterData('sha256:c2', 'two', ['twitter', 'bluesky']));
+			await ingest('chatter/draft.json', 'chatter', chatterData('sha256:c3', 'draft', ['twitter'], false));
+			await ingest('quotes/one.json', 'quotes', quoteData('sha256:q1', 'q-one', ['bluesky']));
+		});
+
+		it('GET /api/tags should return counts per content type', async () => {
+			const response = await get('/api/tags');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.tags).toEqual([
+				{ name: 'bluesky', total: 2, counts: { chatter: 1, quotes: 1, photographs: 0, memes: 0, bookmarks: 0 } },
+				{ name: 'twitter', total: 2, counts: { chatter: 2, quotes: 0, photographs: 0, memes: 0, bookmarks: 0 } },
+			]);
+		});
+
+		it('GET /api/tags should count unpublished content for authenticated callers', async () => {
+			const body = (await (await get('/api/tags', true)).json()) as any;
+			const twitter = body.tags.find((tag: any) => tag.name === 'twitter');
+
+			expect(twitter.counts.chatter).toBe(3);
+		});
+
+		it('GET /api/tags/{name} should return items across content types', async () => {
+			const response = await get('/api/tags/Bluesky');
+			expect(response.status).toBe(200);
+
+			const body = (await response.json()) as any;
+			expect(body.items).toEqual([
+				{ type: 'quotes', id: 'sha256:q1', date: '2024-06-01T00:00:00.000Z', slug: 'q-one', r2_key: 'quotes/one.json' },
+				{ type: 'chatter', id: 'sha256:c2', date: '2024-05-01T12:00:00.000Z', slug: 'two', r2_key: 'chatter/two.json' },
+			]);
+		});
+
+		it('GET /api/tags/{name} should return 404 for unused tags', async () => {
+			const response = await get('/api/tags/nothing');
+			expect(response.status).toBe(404);
+		});
+	});
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_TYPE_ALIASES, keyPrefix, resolveAlias, resolveContentType, typeAliases } from '../src/services/type-resolver';
+
+describe('Type Resolver', () => {
+	describe('keyPrefix', () => {
+		it('should return the first path segment', () => {
+			expect(keyPrefix('films/sha256_abc.jsonl')).toBe('films');
+		});
+
+		it('should tolerate a leading slash', () => {
+			expect(keyPrefix('/shakespert/sha256_abc.jsonl')).toBe('shakespert');
+		});
+
+		it('should return null for keys without a folder', () => {
+			expect(keyPrefix('sha256_abc.json')).toBeNull();
+			expect(keyPrefix('/sha256_abc.json')).toBeNull();
+		});
+	});
+
+	describe('resolveAlias', () => {
+		it('should map shakespert to shakespeare by default', () => {
+			expect(resolveAlias('shakespert')).toBe('shakespeare');
+			expect(resolveAlias('films')).toBe('films');
+		});
+
+		it('should use a custom alias map', () => {
+			expect(resolveAlias('movies', { movies: 'films' })).toBe('films');
+			expect(resolveAlias('shakespert', { movies: 'films' })).toBe('shakespert');
+		});
+
+		it('should ignore inherited object properties', () => {
+			expect(resolveAlias('constructor')).toBe('constructor');
+		});
+	});
+
+	describe('typeAliases', () => {
+		it('should use the built-in aliases when TYPE_ALIASES is unset or empty', () => {
+			expect(typeAliases({})).toBe(DEFAULT_TYPE_ALIASES);
+			expect(typeAliases({ TYPE_ALIASES: '{}' })).toEqual(DEFAULT_TYPE_ALIASES);
+		});
+
+		it('should add the configured aliases on top of the built-in ones', () => {
+			expect(typeAliases({ TYPE_ALIASES: '{"movies": "films", "photos": "memes"}' })).toEqual({
+				shakespert: 'shakespeare',
+				photos: 'memes',
+				movies: 'films',
+			});
+		});
+
+		it('should ignore a value that is not an object of names', () => {
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+			for (const value of ['movies=films', '["films"]', '{"movies": 1}']) {
+				expect(typeAliases({ TYPE_ALIASES: value })).toBe(DEFAULT_TYPE_ALIASES);
+			}
+			vi.restoreAllMocks();
+		});
+	});
+
+	describe('resolveContentType', () => {
+		it('should prefer the envelope type over the key prefix', () => {
+			const result = resolveContentType({ type: 'quotes', id: 'sha256:q', data: { author: 'A' } }, 'films/sha256_q.json');
+
+			expect(result).toEqual({
+				ok: true,
+				resolved: { category: 'quotes', data: { author: 'A' }, recordId: 'sha256:q', source: 'envelope' },
+			});
+		});
+
+		it('should alias envelope types', () => {
+			const result = resolveContentType({ type: 'shakespert', data: {} }, 'sha256_x.json');
+
+			expect(result.ok && result.resolved.category).toBe('shakespeare');
+		});
+
+		it('should infer bare records from the key prefix', () => {
+			const record = { id: 'sha256:f', slug: 'the-third-man' };
+			const result = resolveContentType(record, '/films/sha256_f.jsonl');
+
+			expect(result).toEqual({ ok: true, resolved: { category: 'films', data: record, source: 'key' } });
+		});
+
+		it('should treat a type field without data as a bare record', () => {
+			const record = { id: 'sha256:a', type: 'podcast' };
+			const result = resolveContentType(record, 'audio/sha256_a.json');
+
+			expect(result.ok && result.resolved).toMatchObject({ category: 'audio', data: record, source: 'key' });
+		});
+
+		it('should report the missing envelope field when there is no prefix', () => {
+			expect(resolveContentType({ id: 'x' }, 'sha256_x.json')).toEqual({
+				ok: false,
+				error: 'Missing or invalid "type" field in wrapped JSON',
+			});
+			expect(resolveContentType({ type: 'films' }, 'sha256_x.json')).toEqual({
+				ok: false,
+				error: 'Missing or invalid "data" field in wrapped JSON',
+			});
+		});
+
+		it('should reject non-object JSON', () => {
+			expect(resolveContentType([1, 2], 'films/x.json')).toEqual({ ok: false, error: 'JSON must be an object' });
+		});
+	});
+});
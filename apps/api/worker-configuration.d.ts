@@ -7,6 +7,7 @@ declare namespace Cloudflare {
 	}
 	interface Env {
 		CLOUDFLARE_ACCOUNT_ID: "5930846a5870031c415bb26e42e38833";
+		TYPE_ALIASES: "{}";
 		CLOUDFLARE_MEDIA_TOKEN: string;
 		AUTH_TOKEN: string;
 		SR_JSON: R2Bucket;